@@ -0,0 +1,16 @@
+import Link from 'next/link';
+import AlertsDashboard from '@/components/AlertsDashboard';
+
+export default function AlertsPage() {
+  return (
+    <main className="container mx-auto p-4">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Alerts</h1>
+        <Link href="/" className="text-sm text-gray-500 hover:underline">
+          Back to search
+        </Link>
+      </div>
+      <AlertsDashboard />
+    </main>
+  );
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { sendTestAlert } from '@/lib/alerts';
+import { errorResponse } from '@/lib/errors';
+import { ALERT_CHANNELS, isAlertChannel } from '@/lib/schema';
+
+interface RouteContext {
+  params: Promise<{ channel: string }>;
+}
+
+/** Sends a test notification through one channel and reports how delivery went. */
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const { channel } = await params;
+    if (!isAlertChannel(channel)) {
+      return NextResponse.json(
+        { error: `Unsupported channel "${channel}". Expected one of: ${ALERT_CHANNELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(await sendTestAlert(channel));
+  } catch (error: unknown) {
+    return errorResponse(error, 'Alert Channel API');
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { listAlertChannels } from '@/lib/alerts';
+
+export async function GET() {
+  const channels = listAlertChannels().map((channel) => ({ name: channel.name, target: channel.describe() }));
+  return NextResponse.json({ channels }, {
+    headers: { 'Cache-Control': 'no-store' }
+  });
+}
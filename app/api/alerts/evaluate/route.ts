@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { evaluateAlerts } from '@/lib/alerts';
+import { errorResponse } from '@/lib/errors';
+
+/** Evaluates every enabled rule now, or only the one given as `?rule=<id>`. */
+export async function POST(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const run = await evaluateAlerts(searchParams.get('rule') ?? undefined);
+    return NextResponse.json(run, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Alert Evaluation API');
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { listAlertNotifications, markAlertNotificationsRead } from '@/lib/alerts';
+import { errorResponse } from '@/lib/errors';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const notifications = await listAlertNotifications(searchParams.get('unread') === 'true');
+    return NextResponse.json({ notifications }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Alert Notifications API');
+  }
+}
+
+/** Marks notifications read: those in `ids`, or all of them when `ids` is omitted. */
+export async function PATCH(request: Request) {
+  try {
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    const ids = (payload as { ids?: unknown } | null)?.ids;
+    if (ids !== undefined && !(Array.isArray(ids) && ids.every((id) => typeof id === 'string'))) {
+      return NextResponse.json(
+        { error: '"ids" must be a list of notification ids' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ updated: await markAlertNotificationsRead(ids ?? null) });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Alert Notifications API');
+  }
+}
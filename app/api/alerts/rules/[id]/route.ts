@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { deleteAlertRule, getAlertRule, updateAlertRule } from '@/lib/alerts';
+import { errorResponse } from '@/lib/errors';
+import { validateAlertRuleInput } from '@/lib/schema';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    return NextResponse.json(await getAlertRule((await params).id), {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Alert Rules API');
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    const validation = validateAlertRuleInput(payload);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid alert rule', issues: validation.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await updateAlertRule((await params).id, validation.data));
+  } catch (error: unknown) {
+    return errorResponse(error, 'Alert Rules API');
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    await deleteAlertRule((await params).id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Alert Rules API');
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { createAlertRule, listAlertRules } from '@/lib/alerts';
+import { errorResponse } from '@/lib/errors';
+import { validateAlertRuleInput } from '@/lib/schema';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ rules: await listAlertRules() }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Alert Rules API');
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    const validation = validateAlertRuleInput(payload);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid alert rule', issues: validation.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await createAlertRule(validation.data), { status: 201 });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Alert Rules API');
+  }
+}
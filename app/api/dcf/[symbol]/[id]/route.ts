@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { deleteAssumptionSet, getAssumptionSet } from '@/lib/assumptions';
+import { AssumptionSetNotFoundError, errorResponse } from '@/lib/errors';
+import { normalizeSymbol } from '@/lib/symbols';
+
+interface RouteContext {
+  params: Promise<{ symbol: string; id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { symbol: rawSymbol, id } = await params;
+    const symbol = normalizeSymbol(rawSymbol);
+    const set = await getAssumptionSet(symbol, id);
+    if (!set) throw new AssumptionSetNotFoundError(symbol, id);
+
+    return NextResponse.json(set, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'DCF API');
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { symbol: rawSymbol, id } = await params;
+    const symbol = normalizeSymbol(rawSymbol);
+    if (!(await deleteAssumptionSet(symbol, id))) {
+      throw new AssumptionSetNotFoundError(symbol, id);
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error: unknown) {
+    return errorResponse(error, 'DCF API');
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { listAssumptionSets, saveAssumptionSet } from '@/lib/assumptions';
+import { errorResponse } from '@/lib/errors';
+import { validateAssumptionSetInput } from '@/lib/schema';
+import { normalizeSymbol } from '@/lib/symbols';
+
+interface RouteContext {
+  params: Promise<{ symbol: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const symbol = normalizeSymbol((await params).symbol);
+    return NextResponse.json({ sets: await listAssumptionSets(symbol) }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'DCF API');
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const symbol = normalizeSymbol((await params).symbol);
+
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    const validation = validateAssumptionSetInput(payload);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid assumption set', issues: validation.issues },
+        { status: 400 }
+      );
+    }
+
+    const set = await saveAssumptionSet(symbol, validation.data);
+    return NextResponse.json(set, { status: 201 });
+  } catch (error: unknown) {
+    return errorResponse(error, 'DCF API');
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/errors';
+import { diffSnapshotVersions, listSnapshots } from '@/lib/history';
+import { normalizeSymbol } from '@/lib/symbols';
+
+const parseVersion = (value: string | null): number | null =>
+  value !== null && /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : null;
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const rawSymbol = searchParams.get('symbol');
+
+    if (!rawSymbol) {
+      return NextResponse.json({ error: 'Stock symbol is required' }, { status: 400 });
+    }
+    const symbol = normalizeSymbol(rawSymbol);
+
+    if (!searchParams.has('from') && !searchParams.has('to')) {
+      return NextResponse.json({ symbol, snapshots: await listSnapshots(symbol) }, {
+        headers: { 'Cache-Control': 'no-store' }
+      });
+    }
+
+    const from = parseVersion(searchParams.get('from'));
+    const to = parseVersion(searchParams.get('to'));
+    if (from === null || to === null || from >= to) {
+      return NextResponse.json(
+        { error: '"from" and "to" must be snapshot versions, with "from" the earlier one' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await diffSnapshotVersions(symbol, from, to), {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'History API');
+  }
+}
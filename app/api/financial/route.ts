@@ -1,80 +1,140 @@
 import { NextResponse } from 'next/server';
-import { spawn } from 'child_process';
-import path from 'path';
+import { createHash } from 'crypto';
+import { fetchBatch, MAX_BATCH_SYMBOLS, parseSymbolList } from '@/lib/batch';
+import { getCachedFinancialData, refreshFinancialSection } from '@/lib/cache';
+import { enrichFinancialData } from '@/lib/enrich';
+import { errorResponse } from '@/lib/errors';
+import { buildExport, EXPORT_FORMATS, isExportFormat } from '@/lib/export';
+import { getFinancialDataProvider } from '@/lib/providers';
+import {
+  DATA_SECTIONS,
+  isDataSection,
+  isPeriodicity,
+  isStatementType,
+  PERIODICITIES,
+  STATEMENT_TYPES,
+} from '@/lib/schema';
+import { normalizeSymbol } from '@/lib/symbols';
 
-async function runPythonScript(symbol: string): Promise<any> {
-  return new Promise((resolve, reject) => {
-    const scriptPath = path.join(process.cwd(), 'scripts', 'get_financial_statements.py');
-    
-    const pythonProcess = spawn('python3', [scriptPath, symbol], {
-      env: { 
-        ...process.env, 
-        PYTHONPATH: process.env.PYTHONPATH || process.cwd(),
-        PATH: process.env.PATH
-      },
-      cwd: process.cwd()
-    });
-    
-    let dataString = '';
-    let errorString = '';
-
-    pythonProcess.stdout.on('data', (data) => {
-      dataString += data.toString();
-    });
+/** Refetches one section and returns the whole payload, so the client can swap it in. */
+async function handleSectionRetry(symbol: string, section: string) {
+  if (!isDataSection(section)) {
+    return NextResponse.json(
+      { error: `Unsupported section "${section}". Expected one of: ${DATA_SECTIONS.join(', ')}` },
+      { status: 400 }
+    );
+  }
 
-    pythonProcess.stderr.on('data', (data) => {
-      errorString += data.toString();
-      console.error('Python stderr:', data.toString());
-    });
+  const cached = await refreshFinancialSection(getFinancialDataProvider(), symbol, section);
+  return NextResponse.json(enrichFinancialData(cached.data), {
+    headers: { 'Cache-Control': 'no-store', 'X-Cache': cached.status.toUpperCase() }
+  });
+}
 
-    pythonProcess.on('close', (code) => {
-      if (code !== 0) {
-        return reject(new Error(`Python process failed with code ${code}: ${errorString}`));
-      }
+async function handleBatch(symbolsParam: string) {
+  const symbols = parseSymbolList(symbolsParam);
 
-      try {
-        const result = JSON.parse(dataString);
-        if (result.status === 'error') {
-          return reject(new Error(result.error));
-        }
-        return resolve(result);
-      } catch (err: unknown) {
-        const errorMessage = err instanceof Error ? err.message : 'Unknown JSON parse error';
-        return reject(new Error(`Failed to parse Python output: ${errorMessage}`));
-      }
-    });
+  if (symbols.length === 0 || symbols.length > MAX_BATCH_SYMBOLS) {
+    return NextResponse.json(
+      { error: `Between 1 and ${MAX_BATCH_SYMBOLS} symbols are required` },
+      { status: 400 }
+    );
+  }
 
-    pythonProcess.on('error', (err) => {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown process error';
-      reject(new Error(`Failed to start Python process: ${errorMessage}`));
-    });
+  const results = await fetchBatch(getFinancialDataProvider(), symbols);
+  return NextResponse.json({ results }, {
+    headers: { 'Cache-Control': 'no-store' }
   });
 }
 
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
-    const symbol = searchParams.get('symbol');
+    const symbolsParam = searchParams.get('symbols');
 
-    if (!symbol) {
+    if (symbolsParam !== null) {
+      if (searchParams.has('format')) {
+        return NextResponse.json(
+          { error: 'Exports are only available for a single symbol' },
+          { status: 400 }
+        );
+      }
+      return await handleBatch(symbolsParam);
+    }
+
+    const rawSymbol = searchParams.get('symbol');
+
+    if (!rawSymbol) {
       return NextResponse.json(
         { error: 'Stock symbol is required' },
         { status: 400 }
       );
     }
 
-    const data = await runPythonScript(symbol);
-    return NextResponse.json(data);
+    const section = searchParams.get('section');
+    if (section !== null) {
+      if (searchParams.has('format')) {
+        return NextResponse.json(
+          { error: 'Exports cannot be combined with a section retry' },
+          { status: 400 }
+        );
+      }
+      return await handleSectionRetry(normalizeSymbol(rawSymbol), section);
+    }
+
+    const format = searchParams.get('format');
+    const period = searchParams.get('period') ?? 'quarterly';
+    const statement = searchParams.get('statement');
+
+    if (format !== null && !isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Unsupported format "${format}". Expected one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!isPeriodicity(period)) {
+      return NextResponse.json(
+        { error: `Unsupported period "${period}". Expected one of: ${PERIODICITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (statement !== null && !isStatementType(statement)) {
+      return NextResponse.json(
+        { error: `Unsupported statement "${statement}". Expected one of: ${STATEMENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const symbol = normalizeSymbol(rawSymbol);
+    const provider = getFinancialDataProvider();
+    const cached = await getCachedFinancialData(provider, symbol);
+    const { status, maxAge, staleWhileRevalidate } = cached;
+    const data = enrichFinancialData(cached.data);
+
+    const file = format
+      ? buildExport(data, { format, periodicity: period, statement: statement ?? undefined })
+      : null;
+
+    const body = file ? file.body : JSON.stringify(data);
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+    const headers: Record<string, string> = {
+      'Cache-Control': `public, max-age=${maxAge}, stale-while-revalidate=${staleWhileRevalidate}`,
+      ETag: etag,
+      'X-Cache': status.toUpperCase()
+    };
+    if (file) {
+      headers['Content-Disposition'] = `attachment; filename="${file.filename}"`;
+    }
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(body, {
+      headers: { ...headers, 'Content-Type': file ? file.contentType : 'application/json' }
+    });
     
   } catch (error: unknown) {
-    console.error('API Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return NextResponse.json(
-      { 
-        error: 'Failed to fetch stock data',
-        details: errorMessage
-      },
-      { status: 500 }
-    );
+    return errorResponse(error, 'API');
   }
 }
\ No newline at end of file
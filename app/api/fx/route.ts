@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/errors';
+import { getFxRateSource, isCurrencyCode } from '@/lib/fx';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from')?.trim().toUpperCase() ?? '';
+    const to = searchParams.get('to')?.trim().toUpperCase() ?? '';
+
+    if (!isCurrencyCode(from) || !isCurrencyCode(to)) {
+      return NextResponse.json(
+        { error: 'Both "from" and "to" must be three-letter ISO 4217 currency codes' },
+        { status: 400 }
+      );
+    }
+
+    const rate = await getFxRateSource().getRate(from, to);
+    return NextResponse.json(rate, {
+      headers: { 'Cache-Control': 'public, max-age=3600' }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'FX API');
+  }
+}
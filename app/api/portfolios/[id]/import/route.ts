@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/errors';
+import { getPortfolio, updatePortfolio } from '@/lib/portfolio';
+import { parseHoldingsCsv } from '@/lib/portfolio/csv';
+import { validatePortfolioInput } from '@/lib/schema';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Imports holdings from a CSV request body. `?mode=replace` swaps out the
+ * portfolio's lots; the default `append` adds to them.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const mode = new URL(request.url).searchParams.get('mode') ?? 'append';
+    if (mode !== 'append' && mode !== 'replace') {
+      return NextResponse.json(
+        { error: 'mode must be append or replace' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseHoldingsCsv(await request.text());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid CSV', issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const current = await getPortfolio(id);
+    const validation = validatePortfolioInput({
+      name: current.name,
+      currency: current.currency,
+      holdings: mode === 'replace' ? parsed.data : [...current.holdings, ...parsed.data]
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid portfolio', issues: validation.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await updatePortfolio(id, validation.data));
+  } catch (error: unknown) {
+    return errorResponse(error, 'Portfolio Import API');
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/errors';
+import { deletePortfolio, getPortfolio, updatePortfolio } from '@/lib/portfolio';
+import { validatePortfolioInput } from '@/lib/schema';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    return NextResponse.json(await getPortfolio((await params).id), {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Portfolio API');
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    const validation = validatePortfolioInput(payload);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid portfolio', issues: validation.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await updatePortfolio((await params).id, validation.data));
+  } catch (error: unknown) {
+    return errorResponse(error, 'Portfolio API');
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    await deletePortfolio((await params).id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Portfolio API');
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/errors';
+import { getPortfolioSummary } from '@/lib/portfolio';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    return NextResponse.json(await getPortfolioSummary((await params).id), {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Portfolio Summary API');
+  }
+}
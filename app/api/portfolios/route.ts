@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/errors';
+import { createPortfolio, listPortfolios } from '@/lib/portfolio';
+import { validatePortfolioInput } from '@/lib/schema';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ portfolios: await listPortfolios() }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Portfolio API');
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    const validation = validatePortfolioInput(payload);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid portfolio', issues: validation.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await createPortfolio(validation.data), { status: 201 });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Portfolio API');
+  }
+}
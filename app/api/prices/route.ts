@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { getCachedPriceHistory } from '@/lib/cache';
+import { errorResponse } from '@/lib/errors';
+import { getFinancialDataProvider } from '@/lib/providers';
+import {
+  isPriceInterval,
+  isPriceRange,
+  PRICE_INTERVALS,
+  PRICE_RANGES,
+} from '@/lib/schema';
+import { normalizeSymbol } from '@/lib/symbols';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const rawSymbol = searchParams.get('symbol');
+    const range = searchParams.get('range') ?? '5y';
+    const interval = searchParams.get('interval') ?? '1wk';
+
+    if (!rawSymbol) {
+      return NextResponse.json(
+        { error: 'Stock symbol is required' },
+        { status: 400 }
+      );
+    }
+    if (!isPriceRange(range)) {
+      return NextResponse.json(
+        { error: `Unsupported range "${range}". Expected one of: ${PRICE_RANGES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!isPriceInterval(interval)) {
+      return NextResponse.json(
+        { error: `Unsupported interval "${interval}". Expected one of: ${PRICE_INTERVALS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const symbol = normalizeSymbol(rawSymbol);
+    const { data, maxAge } = await getCachedPriceHistory(getFinancialDataProvider(), symbol, range, interval);
+
+    return NextResponse.json(data, {
+      headers: { 'Cache-Control': `public, max-age=${maxAge}` }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Prices API');
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/errors';
+import { DEFAULT_SCREEN_PAGE_SIZE, MAX_SCREEN_PAGE_SIZE, runScreen } from '@/lib/screener';
+
+const parsePositiveInt = (value: string | null, fallback: number): number | null => {
+  if (value === null) return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 1 ? parsed : null;
+};
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const expression = searchParams.get('q');
+    const order = searchParams.get('order') ?? 'desc';
+    const page = parsePositiveInt(searchParams.get('page'), 1);
+    const pageSize = parsePositiveInt(searchParams.get('page_size'), DEFAULT_SCREEN_PAGE_SIZE);
+
+    if (!expression?.trim()) {
+      return NextResponse.json(
+        { error: 'A screen expression is required in "q"' },
+        { status: 400 }
+      );
+    }
+    if (order !== 'asc' && order !== 'desc') {
+      return NextResponse.json(
+        { error: `Unsupported order "${order}". Expected one of: asc, desc` },
+        { status: 400 }
+      );
+    }
+    if (page === null || pageSize === null || pageSize > MAX_SCREEN_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `"page" must be a positive integer and "page_size" between 1 and ${MAX_SCREEN_PAGE_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await runScreen({
+      expression,
+      sort: searchParams.get('sort') ?? 'market_cap',
+      descending: order === 'desc',
+      page,
+      pageSize,
+    });
+    return NextResponse.json(result, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Screen API');
+  }
+}
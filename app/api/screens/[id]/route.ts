@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/errors';
+import { deleteScreen } from '@/lib/screener';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    await deleteScreen((await params).id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Screens API');
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/errors';
+import { validateScreenInput } from '@/lib/schema';
+import { listScreens, saveScreen } from '@/lib/screener';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ screens: await listScreens() }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Screens API');
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    const validation = validateScreenInput(payload);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid screen', issues: validation.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await saveScreen(validation.data), { status: 201 });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Screens API');
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { readNumberEnv } from '@/lib/env';
+import { errorResponse, MalformedPayloadError } from '@/lib/errors';
+import { getFinancialDataProvider } from '@/lib/providers';
+import { validateSearchResults } from '@/lib/schema';
+import { MAX_SEARCH_QUERY_LENGTH, MAX_SEARCH_RESULTS } from '@/lib/search';
+
+const maxAge = readNumberEnv(process.env.SEARCH_CACHE_TTL, 300);
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q')?.trim() ?? '';
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Search query is required' },
+        { status: 400 }
+      );
+    }
+    if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Search query must be at most ${MAX_SEARCH_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const provider = getFinancialDataProvider();
+    const validation = validateSearchResults(await provider.searchSymbols(query));
+    if (!validation.success) {
+      throw new MalformedPayloadError(provider.name, validation.issues);
+    }
+
+    return NextResponse.json(
+      { query, matches: validation.data.matches.slice(0, MAX_SEARCH_RESULTS) },
+      { headers: { 'Cache-Control': `public, max-age=${maxAge}` } }
+    );
+  } catch (error: unknown) {
+    return errorResponse(error, 'Search API');
+  }
+}
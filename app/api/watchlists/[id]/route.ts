@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/errors';
+import { validateWatchlistInput } from '@/lib/schema';
+import { deleteWatchlist, getWatchlist, updateWatchlist } from '@/lib/watchlists';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    return NextResponse.json(await getWatchlist((await params).id), {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Watchlist API');
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    const validation = validateWatchlistInput(payload);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid watchlist', issues: validation.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await updateWatchlist((await params).id, validation.data));
+  } catch (error: unknown) {
+    return errorResponse(error, 'Watchlist API');
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    await deleteWatchlist((await params).id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Watchlist API');
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/errors';
+import { validateWatchlistInput } from '@/lib/schema';
+import { createWatchlist, isWatchlistStorePersistent, listWatchlists } from '@/lib/watchlists';
+
+export async function GET() {
+  try {
+    return NextResponse.json(
+      { watchlists: await listWatchlists(), persistent: isWatchlistStorePersistent() },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error: unknown) {
+    return errorResponse(error, 'Watchlist API');
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    const validation = validateWatchlistInput(payload);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid watchlist', issues: validation.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await createWatchlist(validation.data), { status: 201 });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Watchlist API');
+  }
+}
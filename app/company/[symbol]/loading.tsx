@@ -0,0 +1,9 @@
+import ViewerSkeleton from '@/components/ViewerSkeleton';
+
+export default function Loading() {
+  return (
+    <main className="container mx-auto p-4">
+      <ViewerSkeleton />
+    </main>
+  );
+}
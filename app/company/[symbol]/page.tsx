@@ -0,0 +1,44 @@
+import type { Metadata } from 'next';
+import CompanyView from '@/components/CompanyView';
+import { getCachedFinancialData } from '@/lib/cache';
+import { FinancialDataError, toErrorBody } from '@/lib/errors';
+import { getFinancialDataProvider } from '@/lib/providers';
+import type { FinancialData } from '@/lib/schema';
+import { normalizeSymbol } from '@/lib/symbols';
+
+interface CompanyPageProps {
+  params: Promise<{ symbol: string }>;
+}
+
+const decodeSymbol = (raw: string) => {
+  try {
+    return decodeURIComponent(raw).toUpperCase();
+  } catch {
+    return raw.toUpperCase();
+  }
+};
+
+export async function generateMetadata({ params }: CompanyPageProps): Promise<Metadata> {
+  return { title: `${decodeSymbol((await params).symbol)} financials` };
+}
+
+export default async function CompanyPage({ params }: CompanyPageProps) {
+  const symbol = decodeSymbol((await params).symbol);
+
+  let data: FinancialData | null = null;
+  let error: string | null = null;
+  try {
+    data = (await getCachedFinancialData(getFinancialDataProvider(), normalizeSymbol(symbol))).data;
+  } catch (err: unknown) {
+    if (!(err instanceof FinancialDataError)) {
+      console.error('Company page error:', err);
+    }
+    error = toErrorBody(err).error;
+  }
+
+  return (
+    <main className="container mx-auto p-4">
+      <CompanyView key={symbol} symbol={symbol} data={data} error={error} />
+    </main>
+  );
+}
@@ -1,55 +1,142 @@
 'use client';
 
-import { useState } from 'react';
-import FinancialViewer from '@/components/FinancialViewer';
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import ComparisonView from '@/components/ComparisonView';
+import SymbolSearch from '@/components/SymbolSearch';
+import ViewerSkeleton from '@/components/ViewerSkeleton';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { AlertCircle } from 'lucide-react';
+import type { BatchResponse, BatchResult } from '@/lib/batch';
+import { isValidSymbol } from '@/lib/symbols';
+import { companyPath, parseViewState } from '@/lib/view-state';
+
+type Mode = 'single' | 'compare';
+
+const MIN_COMPARE = 2;
+const MAX_COMPARE = 6;
 
 export default function Home() {
+  const router = useRouter();
+  const [mode, setMode] = useState<Mode>('single');
   const [symbol, setSymbol] = useState('');
-  const [data, setData] = useState(null);
+  const [comparison, setComparison] = useState<BatchResult[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const comparisonController = useRef<AbortController | null>(null);
+
+  // Drop a comparison still in flight when the page goes away.
+  useEffect(() => () => comparisonController.current?.abort(), []);
+
+  const openCompany = (target = symbol) => {
+    if (!isValidSymbol(target)) {
+      setError(`"${target.trim()}" is not a valid ticker symbol`);
+      return;
+    }
+    setLoading(true);
+    router.push(companyPath(target.trim()));
+  };
+
+  // Links from before company pages existed: `/?symbol=AAPL&dcf=<id>`.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const linked = params.get('symbol');
+    if (linked && isValidSymbol(linked)) {
+      router.replace(companyPath(linked, parseViewState(params)));
+    }
+  }, [router]);
+
+  const fetchComparison = async () => {
+    const symbols = Array.from(new Set(
+      symbol.split(',').map((entry) => entry.trim().toUpperCase()).filter(Boolean)
+    ));
+
+    if (symbols.length < MIN_COMPARE || symbols.length > MAX_COMPARE) {
+      setError(`Enter between ${MIN_COMPARE} and ${MAX_COMPARE} symbols separated by commas`);
+      return;
+    }
+
+    // A new comparison replaces one still loading rather than racing it.
+    comparisonController.current?.abort();
+    const controller = new AbortController();
+    comparisonController.current = controller;
 
-  const fetchData = async () => {
-    if (!symbol) return;
-    
     setLoading(true);
     setError('');
     try {
-      const response = await fetch(`/api/financial?symbol=${symbol.toUpperCase()}`);
+      const response = await fetch(`/api/financial?symbols=${encodeURIComponent(symbols.join(','))}`, {
+        signal: controller.signal,
+      });
       const result = await response.json();
-      
+
       if (!response.ok) {
         throw new Error(result.error || 'Failed to fetch data');
       }
-      
-      setData(result);
+
+      setComparison((result as BatchResponse).results);
     } catch (err) {
+      if (controller.signal.aborted) return;
       const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
       setError(errorMessage);
-      setData(null);
+      setComparison(null);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) setLoading(false);
     }
   };
 
   return (
     <main className="container mx-auto p-4">
       <div className="mb-8">
+        <div className="flex justify-center items-center gap-4 mb-4">
+          <Tabs
+            value={mode}
+            onValueChange={(value: string) => {
+              if (value === 'single' || value === 'compare') {
+                comparisonController.current?.abort();
+                setLoading(false);
+                setMode(value);
+                setError('');
+              }
+            }}
+          >
+            <TabsList>
+              <TabsTrigger value="single">Single Company</TabsTrigger>
+              <TabsTrigger value="compare">Compare</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Link href="/watchlists" className="text-sm text-gray-500 hover:underline">
+            Watchlists
+          </Link>
+          <Link href="/screener" className="text-sm text-gray-500 hover:underline">
+            Screener
+          </Link>
+          <Link href="/alerts" className="text-sm text-gray-500 hover:underline">
+            Alerts
+          </Link>
+          <Link href="/portfolio" className="text-sm text-gray-500 hover:underline">
+            Portfolio
+          </Link>
+        </div>
+
         <div className="flex gap-2 max-w-xl mx-auto mb-4">
-          <Input
-            placeholder="Enter stock symbol (e.g. AAPL)"
-            value={symbol}
-            onChange={(e) => setSymbol(e.target.value)}
-          />
+          {mode === 'single' ? (
+            <SymbolSearch value={symbol} onChange={setSymbol} onSubmit={openCompany} disabled={loading} />
+          ) : (
+            <Input
+              placeholder="Enter 2-6 symbols (e.g. AAPL, MSFT, GOOG)"
+              value={symbol}
+              onChange={(e) => setSymbol(e.target.value)}
+            />
+          )}
           <Button 
-            onClick={fetchData}
-            disabled={loading || !symbol}
+            onClick={mode === 'single' ? () => openCompany() : fetchComparison}
+            disabled={!symbol || (mode === 'single' && loading)}
           >
-            {loading ? 'Loading...' : 'Fetch Data'}
+            {loading ? 'Loading...' : mode === 'single' ? 'Fetch Data' : 'Compare'}
           </Button>
         </div>
         
@@ -61,7 +148,8 @@ export default function Home() {
         )}
       </div>
 
-      {data && <FinancialViewer data={data} />}
+      {mode === 'compare' && loading && <ViewerSkeleton />}
+      {mode === 'compare' && !loading && comparison && <ComparisonView results={comparison} />}
     </main>
   );
 }
\ No newline at end of file
@@ -0,0 +1,16 @@
+import Link from 'next/link';
+import PortfolioDashboard from '@/components/PortfolioDashboard';
+
+export default function PortfolioPage() {
+  return (
+    <main className="container mx-auto p-4">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Portfolio</h1>
+        <Link href="/" className="text-sm text-gray-500 hover:underline">
+          Back to search
+        </Link>
+      </div>
+      <PortfolioDashboard />
+    </main>
+  );
+}
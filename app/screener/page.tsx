@@ -0,0 +1,16 @@
+import Link from 'next/link';
+import Screener from '@/components/Screener';
+
+export default function ScreenerPage() {
+  return (
+    <main className="container mx-auto p-4">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Screener</h1>
+        <Link href="/" className="text-sm text-gray-500 hover:underline">
+          Back to search
+        </Link>
+      </div>
+      <Screener />
+    </main>
+  );
+}
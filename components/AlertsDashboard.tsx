@@ -0,0 +1,543 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Bell, CheckCheck, Pencil, Play, Plus, Send, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import type { AlertDelivery, AlertDeliveryStatus, AlertNotification, AlertRule } from '@/lib/alerts/store';
+import type { AlertRun } from '@/lib/alerts';
+import { describeCondition } from '@/lib/alerts/rules';
+import { RATIO_DEFINITIONS } from '@/lib/ratios';
+import {
+  ALERT_CHANNELS,
+  ALERT_OPERATORS,
+  type AlertChannelName,
+  type AlertCondition,
+  type AlertOperator,
+  type AlertRuleInput,
+  type Periodicity,
+} from '@/lib/schema';
+import { SCREENER_FIELDS } from '@/lib/screener/fields';
+import { companyPath } from '@/lib/view-state';
+
+const CHANNEL_LABELS: Record<AlertChannelName, string> = {
+  in_app: 'In-app',
+  webhook: 'Webhook',
+  email: 'Email',
+};
+
+const DELIVERY_CLASSES: Record<AlertDeliveryStatus, string> = {
+  sent: 'bg-green-50 text-green-700',
+  skipped: 'bg-gray-100 text-gray-500',
+  failed: 'bg-red-50 text-red-700',
+};
+
+const THRESHOLD_FIELDS = SCREENER_FIELDS.filter((field) => field.type === 'number');
+
+interface ChannelInfo {
+  name: AlertChannelName;
+  target: string;
+}
+
+interface RuleForm {
+  name: string;
+  symbols: string;
+  field: string;
+  type: AlertCondition['type'];
+  operator: AlertOperator;
+  value: string;
+  periodicity: Periodicity;
+  relative: boolean;
+  channels: AlertChannelName[];
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  symbols: '',
+  field: 'debt_to_equity',
+  type: 'threshold',
+  operator: '>',
+  value: '150',
+  periodicity: 'quarterly',
+  relative: false,
+  channels: ['in_app'],
+};
+
+const toForm = (rule: AlertRule): RuleForm => ({
+  name: rule.name,
+  symbols: rule.symbols.join(', '),
+  field: rule.field,
+  type: rule.condition.type,
+  operator: rule.condition.operator,
+  value: String(rule.condition.value),
+  periodicity: rule.condition.type === 'change' ? rule.condition.periodicity : 'quarterly',
+  relative: rule.condition.type === 'change' && rule.condition.relative,
+  channels: rule.channels,
+});
+
+const toCondition = (form: RuleForm): AlertCondition =>
+  form.type === 'threshold'
+    ? { type: 'threshold', operator: form.operator, value: Number(form.value) }
+    : {
+        type: 'change',
+        periodicity: form.periodicity,
+        operator: form.operator,
+        value: Number(form.value),
+        relative: form.relative,
+      };
+
+const toInput = (form: RuleForm, enabled: boolean): AlertRuleInput => ({
+  name: form.name.trim(),
+  symbols: form.symbols
+    .split(',')
+    .map((symbol) => symbol.trim().toUpperCase())
+    .filter(Boolean),
+  field: form.field,
+  condition: toCondition(form),
+  channels: form.channels,
+  enabled,
+});
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  if (response.status === 204) return undefined as T;
+
+  const body = await response.json();
+  if (!response.ok) {
+    const issues = Array.isArray(body.issues)
+      ? `: ${body.issues.map((issue: { path: string; message: string }) => `${issue.path} ${issue.message}`).join('; ')}`
+      : '';
+    throw new Error(`${body.error || 'Alert request failed'}${issues}`);
+  }
+  return body as T;
+}
+
+const DeliveryBadge: React.FC<{ delivery: AlertDelivery }> = ({ delivery }) => (
+  <span
+    className={cn('rounded px-1.5 py-0.5 text-xs whitespace-nowrap', DELIVERY_CLASSES[delivery.status])}
+    title={delivery.detail}
+  >
+    {CHANNEL_LABELS[delivery.channel]}: {delivery.status}
+  </span>
+);
+
+/**
+ * Manages alert rules, runs them on demand and shows the notification log
+ * with how each notification was delivered.
+ */
+const AlertsDashboard: React.FC = () => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [notifications, setNotifications] = useState<AlertNotification[]>([]);
+  const [channels, setChannels] = useState<ChannelInfo[]>([]);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [evaluating, setEvaluating] = useState(false);
+  const [lastRun, setLastRun] = useState<AlertRun | null>(null);
+  const [testResults, setTestResults] = useState<Partial<Record<AlertChannelName, AlertDelivery>>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const loadNotifications = useCallback(async () => {
+    setNotifications(
+      (await request<{ notifications: AlertNotification[] }>('/api/alerts/notifications')).notifications
+    );
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      request<{ rules: AlertRule[] }>('/api/alerts/rules'),
+      request<{ notifications: AlertNotification[] }>('/api/alerts/notifications'),
+      request<{ channels: ChannelInfo[] }>('/api/alerts/channels'),
+    ])
+      .then(([loadedRules, loadedNotifications, loadedChannels]) => {
+        if (cancelled) return;
+        setRules(loadedRules.rules);
+        setNotifications(loadedNotifications.notifications);
+        setChannels(loadedChannels.channels);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load alerts');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Alert update failed');
+    }
+  };
+
+  const replace = (rule: AlertRule) =>
+    setRules((current) => current.map((entry) => (entry.id === rule.id ? rule : entry)));
+
+  const handleSave = () =>
+    run(async () => {
+      if (editingId) {
+        const enabled = rules.find((rule) => rule.id === editingId)?.enabled ?? true;
+        replace(
+          await request<AlertRule>(`/api/alerts/rules/${editingId}`, {
+            method: 'PUT',
+            body: JSON.stringify(toInput(form, enabled)),
+          })
+        );
+      } else {
+        const created = await request<AlertRule>('/api/alerts/rules', {
+          method: 'POST',
+          body: JSON.stringify(toInput(form, true)),
+        });
+        setRules((current) => [...current, created]);
+      }
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    });
+
+  const handleToggle = (rule: AlertRule) =>
+    run(async () => {
+      replace(
+        await request<AlertRule>(`/api/alerts/rules/${rule.id}`, {
+          method: 'PUT',
+          body: JSON.stringify(toInput(toForm(rule), !rule.enabled)),
+        })
+      );
+    });
+
+  const handleDelete = (rule: AlertRule) =>
+    run(async () => {
+      await request(`/api/alerts/rules/${rule.id}`, { method: 'DELETE' });
+      setRules((current) => current.filter((entry) => entry.id !== rule.id));
+      if (editingId === rule.id) {
+        setEditingId(null);
+        setForm(EMPTY_FORM);
+      }
+    });
+
+  const handleEvaluate = (ruleId?: string) =>
+    run(async () => {
+      setEvaluating(true);
+      try {
+        const query = ruleId ? `?rule=${encodeURIComponent(ruleId)}` : '';
+        setLastRun(await request<AlertRun>(`/api/alerts/evaluate${query}`, { method: 'POST' }));
+        const [loadedRules] = await Promise.all([
+          request<{ rules: AlertRule[] }>('/api/alerts/rules'),
+          loadNotifications(),
+        ]);
+        setRules(loadedRules.rules);
+      } finally {
+        setEvaluating(false);
+      }
+    });
+
+  const handleMarkAllRead = () =>
+    run(async () => {
+      await request('/api/alerts/notifications', { method: 'PATCH', body: JSON.stringify({}) });
+      setNotifications((current) => current.map((notification) => ({ ...notification, read: true })));
+    });
+
+  const handleTest = (channel: AlertChannelName) =>
+    run(async () => {
+      const delivery = await request<AlertDelivery>(`/api/alerts/channels/${channel}`, { method: 'POST' });
+      setTestResults((current) => ({ ...current, [channel]: delivery }));
+    });
+
+  const update = (changes: Partial<RuleForm>) => setForm((current) => ({ ...current, ...changes }));
+  const fieldOptions =
+    form.type === 'threshold'
+      ? THRESHOLD_FIELDS.map(({ key, label }) => ({ key, label }))
+      : RATIO_DEFINITIONS.map(({ key, label }) => ({ key, label }));
+  const preview =
+    Number.isFinite(Number(form.value)) && form.value.trim() ? describeCondition(form.field, toCondition(form)) : null;
+  const unread = notifications.filter((notification) => !notification.read).length;
+  const selectClass = 'h-9 rounded-md border border-input bg-background px-2 text-sm';
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <h2 className="text-lg font-bold">{editingId ? 'Edit rule' : 'New rule'}</h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              placeholder="Rule name"
+              value={form.name}
+              onChange={(e) => update({ name: e.target.value })}
+              className="h-9 w-48"
+            />
+            <Input
+              placeholder="Symbols (e.g. AAPL, MSFT)"
+              value={form.symbols}
+              onChange={(e) => update({ symbols: e.target.value })}
+              className="h-9 w-56"
+            />
+            <select
+              value={form.type}
+              onChange={(e) => {
+                const type = e.target.value as AlertCondition['type'];
+                const fields = type === 'threshold' ? THRESHOLD_FIELDS : RATIO_DEFINITIONS;
+                update({ type, field: fields.some(({ key }) => key === form.field) ? form.field : fields[0].key });
+              }}
+              className={selectClass}
+              aria-label="Condition type"
+            >
+              <option value="threshold">Value</option>
+              <option value="change">Change between periods</option>
+            </select>
+            <select
+              value={form.field}
+              onChange={(e) => update({ field: e.target.value })}
+              className={selectClass}
+              aria-label="Field"
+            >
+              {fieldOptions.map(({ key, label }) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {form.type === 'change' && (
+              <select
+                value={form.periodicity}
+                onChange={(e) => update({ periodicity: e.target.value as Periodicity })}
+                className={selectClass}
+                aria-label="Periodicity"
+              >
+                <option value="quarterly">Quarter over quarter</option>
+                <option value="annual">Year over year</option>
+              </select>
+            )}
+            <select
+              value={form.operator}
+              onChange={(e) => update({ operator: e.target.value as AlertOperator })}
+              className={selectClass}
+              aria-label="Operator"
+            >
+              {ALERT_OPERATORS.map((operator) => (
+                <option key={operator} value={operator}>
+                  {operator}
+                </option>
+              ))}
+            </select>
+            <Input
+              value={form.value}
+              onChange={(e) => update({ value: e.target.value })}
+              className="h-9 w-28"
+              inputMode="decimal"
+              aria-label="Threshold"
+            />
+            {form.type === 'change' && (
+              <label className="flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.relative}
+                  onChange={(e) => update({ relative: e.target.checked })}
+                />
+                Relative to the older value
+              </label>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="text-gray-500">Deliver to</span>
+            {ALERT_CHANNELS.map((channel) => (
+              <label key={channel} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={form.channels.includes(channel)}
+                  onChange={(e) =>
+                    update({
+                      channels: e.target.checked
+                        ? [...form.channels, channel]
+                        : form.channels.filter((entry) => entry !== channel),
+                    })
+                  }
+                />
+                {CHANNEL_LABELS[channel]}
+              </label>
+            ))}
+            {preview && <span className="text-gray-500">Notifies when the value is {preview}</span>}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={!form.name.trim() || !form.symbols.trim() || form.channels.length === 0 || !preview}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              {editingId ? 'Save rule' : 'Add rule'}
+            </Button>
+            {editingId && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setEditingId(null);
+                  setForm(EMPTY_FORM);
+                }}
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <h2 className="text-lg font-bold mr-auto">Rules</h2>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleEvaluate()}
+              disabled={evaluating || rules.length === 0}
+            >
+              <Play className="h-4 w-4 mr-1" />
+              {evaluating ? 'Evaluating…' : 'Evaluate now'}
+            </Button>
+          </div>
+          {lastRun && (
+            <p className="text-xs text-gray-500">
+              Evaluated {lastRun.rules} {lastRun.rules === 1 ? 'rule' : 'rules'} over {lastRun.symbols}{' '}
+              {lastRun.symbols === 1 ? 'symbol' : 'symbols'} at {new Date(lastRun.evaluated_at).toLocaleTimeString()}:{' '}
+              {lastRun.notifications.length} new {lastRun.notifications.length === 1 ? 'notification' : 'notifications'}
+              {lastRun.errors.length > 0 &&
+                ` · could not fetch ${lastRun.errors.map((failure) => failure.symbol).join(', ')}`}
+            </p>
+          )}
+          {rules.length === 0 ? (
+            <p className="text-sm text-gray-500">No rules yet.</p>
+          ) : (
+            <ul className="divide-y rounded-md border text-sm">
+              {rules.map((rule) => {
+                const triggered = Object.entries(rule.state)
+                  .filter(([, state]) => state.triggered)
+                  .map(([symbol]) => symbol);
+                return (
+                  <li
+                    key={rule.id}
+                    className={cn('flex flex-wrap items-center gap-2 px-3 py-2', !rule.enabled && 'text-gray-400')}
+                  >
+                    <div className="mr-auto">
+                      <div className="font-medium">{rule.name}</div>
+                      <div className="text-gray-500">
+                        {rule.symbols.join(', ')} · {rule.field} {describeCondition(rule.field, rule.condition)} ·{' '}
+                        {rule.channels.map((channel) => CHANNEL_LABELS[channel]).join(', ')}
+                      </div>
+                      {triggered.length > 0 && (
+                        <div className="text-amber-700">Currently met by {triggered.join(', ')}</div>
+                      )}
+                    </div>
+                    <label className="flex items-center gap-1">
+                      <input type="checkbox" checked={rule.enabled} onChange={() => handleToggle(rule)} />
+                      Enabled
+                    </label>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleEvaluate(rule.id)}
+                      disabled={evaluating}
+                      aria-label={`Evaluate ${rule.name}`}
+                    >
+                      <Play className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingId(rule.id);
+                        setForm(toForm(rule));
+                      }}
+                      aria-label={`Edit ${rule.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(rule)}
+                      aria-label={`Delete ${rule.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <h2 className="text-lg font-bold mr-auto flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Notifications
+              {unread > 0 && <span className="rounded-full bg-red-600 px-2 text-xs text-white">{unread}</span>}
+            </h2>
+            <Button variant="outline" size="sm" onClick={handleMarkAllRead} disabled={unread === 0}>
+              <CheckCheck className="h-4 w-4 mr-1" />
+              Mark all read
+            </Button>
+          </div>
+          {notifications.length === 0 ? (
+            <p className="text-sm text-gray-500">No notifications yet.</p>
+          ) : (
+            <ul className="divide-y rounded-md border text-sm">
+              {notifications.map((notification) => (
+                <li key={notification.id} className={cn('space-y-1 px-3 py-2', !notification.read && 'bg-amber-50')}>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Link href={companyPath(notification.symbol)} className="font-medium hover:underline">
+                      {notification.symbol}
+                    </Link>
+                    <span className="text-gray-500">{notification.rule_name}</span>
+                    <span className="ml-auto text-xs text-gray-500">
+                      {new Date(notification.triggered_at).toLocaleString()}
+                    </span>
+                  </div>
+                  <p>{notification.message}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {notification.deliveries.map((delivery) => (
+                      <DeliveryBadge key={delivery.channel} delivery={delivery} />
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <h2 className="text-lg font-bold">Channels</h2>
+          <ul className="divide-y rounded-md border text-sm">
+            {channels.map((channel) => (
+              <li key={channel.name} className="flex flex-wrap items-center gap-2 px-3 py-2">
+                <span className="font-medium w-20">{CHANNEL_LABELS[channel.name]}</span>
+                <span className="mr-auto text-gray-500">{channel.target}</span>
+                {testResults[channel.name] && <DeliveryBadge delivery={testResults[channel.name]!} />}
+                <Button variant="outline" size="sm" onClick={() => handleTest(channel.name)}>
+                  <Send className="h-4 w-4 mr-1" />
+                  Send test
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AlertsDashboard;
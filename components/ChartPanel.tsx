@@ -0,0 +1,227 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { ChartColumn, ChartLine, X } from 'lucide-react';
+import {
+  DEFAULT_DISPLAY_FORMAT,
+  formatCompactCurrency,
+  formatExactCurrency,
+  formatMetricName,
+  formatPeriodDate,
+  formatValue,
+  type DisplayFormat,
+} from '@/lib/format';
+import { buildChartRows, chartSeriesOptions, seriesId, type ChartSeriesOption } from '@/lib/chart';
+import type { MetricKind } from '@/lib/metrics';
+import type { RatioSeries } from '@/lib/ratios';
+import type { FinancialStatements } from '@/lib/schema';
+
+type SeriesType = 'bar' | 'line';
+
+interface SelectedSeries {
+  id: string;
+  type: SeriesType;
+}
+
+type AxisId = 'left' | 'right';
+
+const DEFAULT_SERIES: SelectedSeries[] = [
+  { id: seriesId('income_statement', 'Total Revenue'), type: 'bar' },
+  { id: seriesId('income_statement', 'Net Income'), type: 'bar' },
+  { id: seriesId('ratios', 'net_margin'), type: 'line' },
+];
+
+const COLORS = ['--chart-1', '--chart-2', '--chart-3', '--chart-4', '--chart-5'].map(
+  (variable) => `hsl(var(${variable}))`
+);
+
+const formatExact = (value: number | null, kind: MetricKind, format: DisplayFormat) =>
+  kind === 'currency' ? formatExactCurrency(value, format) : formatValue(value, kind, format);
+
+// Axis ticks only need to be readable, so currency is always compact here.
+const formatTick = (value: number, kinds: MetricKind[], format: DisplayFormat) => {
+  const [kind] = kinds;
+  if (kinds.length !== 1 || kind === undefined) return value.toLocaleString(format.locale, { notation: 'compact' });
+  if (kind === 'currency') return formatCompactCurrency(value, format);
+  return formatValue(value, kind, format);
+};
+
+interface ChartPanelProps {
+  statements: FinancialStatements;
+  ratios: RatioSeries;
+  displayFormat?: DisplayFormat;
+}
+
+/**
+ * Plots any mix of statement line items and ratios across periods. Currency
+ * series share the left axis; percentages, multiples and days go on the right
+ * so they stay legible next to values in the billions.
+ */
+const ChartPanel: React.FC<ChartPanelProps> = ({ statements, ratios, displayFormat = DEFAULT_DISPLAY_FORMAT }) => {
+  const [selected, setSelected] = useState<SelectedSeries[]>(DEFAULT_SERIES);
+
+  const options = useMemo(() => chartSeriesOptions(statements, ratios), [statements, ratios]);
+  const optionsById = useMemo(() => new Map(options.map((option) => [option.id, option])), [options]);
+
+  const series = useMemo(
+    () =>
+      selected.flatMap((entry) => {
+        const option = optionsById.get(entry.id);
+        return option ? [{ ...option, type: entry.type }] : [];
+      }),
+    [optionsById, selected]
+  );
+
+  const rows = useMemo(() => buildChartRows(series, statements, ratios), [series, statements, ratios]);
+
+  const hasCurrency = series.some((option) => option.kind === 'currency');
+  const hasOther = series.some((option) => option.kind !== 'currency');
+  // With only one family of series there is nothing to separate, so use the left axis.
+  const axisFor = (option: ChartSeriesOption): AxisId =>
+    option.kind === 'currency' || !hasCurrency ? 'left' : 'right';
+  const axisKinds = (axis: AxisId) =>
+    Array.from(new Set(series.filter((option) => axisFor(option) === axis).map((option) => option.kind)));
+  const leftKinds = axisKinds('left');
+  const rightKinds = axisKinds('right');
+
+  const available = options.filter((option) => !selected.some((entry) => entry.id === option.id));
+  const sources = Array.from(new Set(available.map((option) => option.source)));
+
+  const toggleType = (id: string) =>
+    setSelected((current) =>
+      current.map((entry) =>
+        entry.id === id ? { ...entry, type: entry.type === 'bar' ? 'line' : 'bar' } : entry
+      )
+    );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {series.map((option, index) => (
+          <span
+            key={option.id}
+            className="flex items-center gap-1 rounded-md border px-2 py-1 text-sm"
+            style={{ borderColor: COLORS[index % COLORS.length] }}
+          >
+            <button
+              type="button"
+              onClick={() => toggleType(option.id)}
+              className="text-gray-500 hover:text-gray-900"
+              aria-label={`Show ${option.label} as a ${option.type === 'bar' ? 'line' : 'bar'} chart`}
+              title={option.type === 'bar' ? 'Switch to line' : 'Switch to bars'}
+            >
+              {option.type === 'bar' ? <ChartColumn className="h-4 w-4" /> : <ChartLine className="h-4 w-4" />}
+            </button>
+            {option.label}
+            <button
+              type="button"
+              onClick={() => setSelected((current) => current.filter((entry) => entry.id !== option.id))}
+              className="text-gray-400 hover:text-gray-700"
+              aria-label={`Remove ${option.label}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+
+        <select
+          value=""
+          onChange={(e) => {
+            const option = optionsById.get(e.target.value);
+            if (option) {
+              const type: SeriesType = option.kind === 'currency' ? 'bar' : 'line';
+              setSelected((current) => [...current, { id: option.id, type }]);
+            }
+          }}
+          className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+          aria-label="Add chart series"
+        >
+          <option value="">Add series…</option>
+          {sources.map((source) => (
+            <optgroup key={source} label={formatMetricName(source)}>
+              {available
+                .filter((option) => option.source === source)
+                .map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+            </optgroup>
+          ))}
+        </select>
+      </div>
+
+      {series.length === 0 || rows.length === 0 ? (
+        <p className="text-sm text-gray-500">Pick a line item or ratio to chart.</p>
+      ) : (
+        <div className="h-[420px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={rows} margin={{ top: 8, right: 8, bottom: 8, left: 8 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="date" tickFormatter={(date: string) => formatPeriodDate(date, displayFormat.locale)} fontSize={12} />
+              <YAxis
+                yAxisId="left"
+                tickFormatter={(value: number) => formatTick(value, leftKinds, displayFormat)}
+                fontSize={12}
+                width={80}
+              />
+              {hasCurrency && hasOther && (
+                <YAxis
+                  yAxisId="right"
+                  orientation="right"
+                  tickFormatter={(value: number) => formatTick(value, rightKinds, displayFormat)}
+                  fontSize={12}
+                  width={70}
+                />
+              )}
+              <Tooltip
+                labelFormatter={(date: string) => formatPeriodDate(date, displayFormat.locale)}
+                formatter={(value, name, item) => {
+                  const option = optionsById.get(String(item.dataKey));
+                  return option && typeof value === 'number' ? formatExact(value, option.kind, displayFormat) : value;
+                }}
+              />
+              <Legend />
+              {series.map((option, index) => {
+                const color = COLORS[index % COLORS.length];
+                return option.type === 'bar' ? (
+                  <Bar
+                    key={option.id}
+                    dataKey={option.id}
+                    name={option.label}
+                    yAxisId={axisFor(option)}
+                    fill={color}
+                  />
+                ) : (
+                  <Line
+                    key={option.id}
+                    dataKey={option.id}
+                    name={option.label}
+                    yAxisId={axisFor(option)}
+                    stroke={color}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                    type="monotone"
+                  />
+                );
+              })}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChartPanel;
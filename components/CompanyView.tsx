@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useEffect, useRef, useState, useTransition } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+import FinancialViewer from '@/components/FinancialViewer';
+import SymbolSearch from '@/components/SymbolSearch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { DataSection, FinancialData } from '@/lib/schema';
+import { isValidSymbol } from '@/lib/symbols';
+import { companyPath, parseViewState, viewStateQuery, type ViewState } from '@/lib/view-state';
+
+interface CompanyViewProps {
+  symbol: string;
+  /** Loaded on the server; null when loading failed. */
+  data: FinancialData | null;
+  error: string | null;
+}
+
+/**
+ * A company page whose tabs live in the query string. Switching tabs replaces
+ * the current history entry, while opening another ticker pushes a new one,
+ * so back and forward move between companies. Sections that failed to load
+ * can be retried one at a time; a retry still running when the page moves to
+ * another ticker is aborted.
+ */
+const CompanyView: React.FC<CompanyViewProps> = ({ symbol, data, error }) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [input, setInput] = useState(symbol);
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [current, setCurrent] = useState(data);
+  const [retrying, setRetrying] = useState<DataSection | null>(null);
+  const [retryError, setRetryError] = useState<string | null>(null);
+  const [reloading, startReload] = useTransition();
+  const retryController = useRef<AbortController | null>(null);
+
+  // The page is keyed by symbol, so this runs when the user moves to another ticker.
+  useEffect(() => () => retryController.current?.abort(), []);
+
+  // A server refresh (the Retry on a failed page) brings new props.
+  useEffect(() => setCurrent(data), [data]);
+
+  const retrySection = async (section: DataSection) => {
+    retryController.current?.abort();
+    const controller = new AbortController();
+    retryController.current = controller;
+    setRetrying(section);
+    setRetryError(null);
+
+    try {
+      const params = new URLSearchParams({ symbol, section });
+      const response = await fetch(`/api/financial?${params}`, { signal: controller.signal });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || 'Retry failed');
+      setCurrent(body as FinancialData);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setRetryError(err instanceof Error ? err.message : 'Retry failed');
+    } finally {
+      if (!controller.signal.aborted) setRetrying(null);
+    }
+  };
+
+  const viewState = parseViewState(searchParams);
+
+  const openCompany = (target: string) => {
+    if (!isValidSymbol(target)) {
+      setInputError(`"${target.trim()}" is not a valid ticker symbol`);
+      return;
+    }
+    setInputError(null);
+    // Keep the periodicity and tab when moving to another company.
+    router.push(companyPath(target.trim(), { ...viewState, dcf: null }));
+  };
+
+  const handleViewStateChange = (state: ViewState) => {
+    router.replace(`${pathname}${viewStateQuery(state)}`, { scroll: false });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-4">
+        <Link href="/" className="text-sm text-gray-500 hover:underline">
+          Home
+        </Link>
+        <div className="flex gap-2 max-w-md flex-1">
+          <SymbolSearch value={input} onChange={setInput} onSubmit={openCompany} />
+          <Button onClick={() => openCompany(input)} disabled={!input.trim()}>
+            Open
+          </Button>
+        </div>
+      </div>
+
+      {(error || inputError || retryError) && (
+        <Alert variant="destructive" className="max-w-xl">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex flex-wrap items-center gap-2">
+            {inputError ?? retryError ?? error}
+            {!current && !inputError && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7"
+                onClick={() => startReload(() => router.refresh())}
+                disabled={reloading}
+              >
+                <RefreshCw className={cn('h-3 w-3 mr-1', reloading && 'animate-spin')} />
+                Retry
+              </Button>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {current && (
+        <FinancialViewer
+          key={current.symbol}
+          data={current}
+          viewState={viewState}
+          onViewStateChange={handleViewStateChange}
+          onRetrySection={retrySection}
+          retryingSection={retrying}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CompanyView;
@@ -0,0 +1,314 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { DEFAULT_DISPLAY_FORMAT, formatMetricName, formatPeriodDate, type DisplayFormat } from '@/lib/format';
+import { formatMetric, getLineItemDefinition, getMetricDefinition, type MetricDefinition } from '@/lib/metrics';
+import {
+  getNormalizedLineDefinition,
+  normalizeStatements,
+  type NormalizedLine,
+  type NormalizedStatement,
+} from '@/lib/normalize';
+import { STATEMENT_TYPES, type StatementType } from '@/lib/schema';
+import type { BatchResult } from '@/lib/batch';
+import type { EnrichedFinancialData } from '@/lib/enrich';
+
+type Direction = 'higher' | 'lower' | 'neutral';
+
+const directionOf = (definition: MetricDefinition): Direction => {
+  if (definition.higherIsBetter === null) return 'neutral';
+  return definition.higherIsBetter ? 'higher' : 'lower';
+};
+
+// Canonical accounts, so the same row compares like with like whatever each company's raw line names are.
+const DEFAULT_LINES = [
+  'income_statement:revenue',
+  'income_statement:gross_profit',
+  'income_statement:operating_income',
+  'income_statement:net_income',
+  'cash_flow:free_cash_flow',
+  'balance_sheet:total_debt',
+];
+
+const parseLine = (line: string) => {
+  const separator = line.indexOf(':');
+  return {
+    statementType: line.slice(0, separator) as StatementType,
+    item: line.slice(separator + 1),
+  };
+};
+
+const latestAnnualDate = (data: EnrichedFinancialData, statementType: StatementType) =>
+  Object.keys(data.financial_statements.annual[statementType]).sort().reverse()[0];
+
+// Companies are compared in their own currencies; each column is labelled accordingly.
+const statementFormat = (data: EnrichedFinancialData): DisplayFormat => ({
+  ...DEFAULT_DISPLAY_FORMAT,
+  currency: data.company_info.reporting_currency ?? data.company_info.trading_currency ?? 'USD',
+});
+
+const marketFormat = (data: EnrichedFinancialData): DisplayFormat => ({
+  ...DEFAULT_DISPLAY_FORMAT,
+  currency: data.company_info.trading_currency ?? data.company_info.reporting_currency ?? 'USD',
+});
+
+/** The best and worst values in a row, or nulls when there is nothing to rank. */
+const rankValues = (values: (number | null)[], direction: Direction) => {
+  const present = values.filter((value): value is number => value !== null);
+  if (direction === 'neutral' || present.length < 2) return { best: null, worst: null };
+
+  const max = Math.max(...present);
+  const min = Math.min(...present);
+  if (max === min) return { best: null, worst: null };
+  return direction === 'higher' ? { best: max, worst: min } : { best: min, worst: max };
+};
+
+interface ComparisonRowProps {
+  label: React.ReactNode;
+  values: (number | null)[];
+  format: (value: number | null, index: number) => string;
+  direction: Direction;
+}
+
+const ComparisonRow: React.FC<ComparisonRowProps> = ({ label, values, format, direction }) => {
+  const { best, worst } = rankValues(values, direction);
+
+  return (
+    <tr className="hover:bg-muted/30">
+      <td className="sticky left-0 border-b bg-background px-3 py-2 whitespace-nowrap">{label}</td>
+      {values.map((value, index) => (
+        <td
+          key={index}
+          className={cn(
+            'border-b px-3 py-2 text-right tabular-nums whitespace-nowrap',
+            value !== null && value === best && 'bg-green-50 font-medium text-green-800',
+            value !== null && value === worst && 'bg-red-50 text-red-800'
+          )}
+        >
+          {format(value, index)}
+        </td>
+      ))}
+    </tr>
+  );
+};
+
+const SectionRow: React.FC<{ title: string; span: number }> = ({ title, span }) => (
+  <tr className="font-medium">
+    <td className="sticky left-0 border-b bg-muted px-3 py-2">{title}</td>
+    <td colSpan={span} className="border-b bg-muted" />
+  </tr>
+);
+
+const TextRow: React.FC<{ label: string; values: (string | null)[] }> = ({ label, values }) => (
+  <tr>
+    <td className="sticky left-0 border-b bg-background px-3 py-2 whitespace-nowrap">{label}</td>
+    {values.map((value, index) => (
+      <td key={index} className="border-b px-3 py-2 text-right">
+        {value || 'N/A'}
+      </td>
+    ))}
+  </tr>
+);
+
+interface ComparisonViewProps {
+  results: BatchResult[];
+}
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ results }) => {
+  const [lines, setLines] = useState<string[]>(DEFAULT_LINES);
+
+  const failures = results.filter((result) => result.status === 'error');
+  const companies = useMemo(
+    () => results.flatMap((result) => (result.status === 'ok' ? [result.data] : [])),
+    [results]
+  );
+
+  const metricCategories = useMemo(() => {
+    const categories = new Map<string, Set<string>>();
+    for (const company of companies) {
+      for (const [category, metrics] of Object.entries(company.metrics)) {
+        const keys = categories.get(category) ?? new Set<string>();
+        Object.keys(metrics).forEach((key) => keys.add(key));
+        categories.set(category, keys);
+      }
+    }
+    return Array.from(categories.entries()).map(([category, keys]) => ({ category, keys: Array.from(keys) }));
+  }, [companies]);
+
+  const normalized = useMemo(
+    () => companies.map((company) => normalizeStatements(company.financial_statements.annual)),
+    [companies]
+  );
+
+  // Every normalized line any company has, keyed `statement:key`, in chart order.
+  const knownLines = useMemo(() => {
+    const known = new Map<string, NormalizedLine>();
+    for (const statements of normalized) {
+      for (const statementType of STATEMENT_TYPES) {
+        for (const line of statements[statementType].lines) {
+          if (!known.has(`${statementType}:${line.key}`)) known.set(`${statementType}:${line.key}`, line);
+        }
+      }
+    }
+    return known;
+  }, [normalized]);
+
+  const availableLines = Array.from(knownLines.keys()).filter((line) => !lines.includes(line));
+
+  const lineValue = (
+    statements: Record<StatementType, NormalizedStatement>,
+    company: EnrichedFinancialData,
+    line: string
+  ) => {
+    const { statementType, item } = parseLine(line);
+    const date = latestAnnualDate(company, statementType);
+    return date ? statements[statementType].values[date]?.[item] ?? null : null;
+  };
+
+  const lineDefinition = (line: string) => {
+    const known = knownLines.get(line);
+    return known ? getNormalizedLineDefinition(known) : getLineItemDefinition(parseLine(line).item);
+  };
+
+  const span = companies.length;
+
+  return (
+    <div className="space-y-4">
+      {failures.length > 0 && (
+        <Card>
+          <CardContent className="p-4 text-sm">
+            <div className="font-medium mb-2">Some symbols could not be loaded</div>
+            <ul className="space-y-1 text-red-700">
+              {failures.map((failure) => (
+                <li key={failure.symbol}>
+                  <span className="font-mono">{failure.symbol}</span>:{' '}
+                  {failure.status === 'error' ? failure.error.error : ''}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {companies.length > 0 && (
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            <div className="max-h-[75vh] overflow-auto rounded-md border">
+              <table className="w-full border-separate border-spacing-0 text-sm">
+                <thead>
+                  <tr>
+                    <th className="sticky left-0 top-0 z-20 border-b bg-background px-3 py-2 text-left font-medium" />
+                    {companies.map((company) => (
+                      <th
+                        key={company.symbol}
+                        className="sticky top-0 z-10 border-b bg-background px-3 py-2 text-right font-medium"
+                      >
+                        <div>{company.symbol}</div>
+                        <div className="text-xs font-normal text-gray-500">{company.company_info.name}</div>
+                        {company.warnings.length > 0 && (
+                          <div className="text-xs font-normal text-amber-700" title={company.warnings.join('\n')}>
+                            Partial data
+                          </div>
+                        )}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <SectionRow title="Company" span={span} />
+                  <TextRow label="Sector" values={companies.map((company) => company.company_info.sector)} />
+                  <TextRow label="Industry" values={companies.map((company) => company.company_info.industry)} />
+                  <TextRow label="Country" values={companies.map((company) => company.company_info.country)} />
+                  <TextRow label="Exchange" values={companies.map((company) => company.company_info.exchange)} />
+                  <TextRow
+                    label="Employees"
+                    values={companies.map((company) => company.company_info.employees?.toLocaleString() ?? null)}
+                  />
+
+                  {metricCategories.map(({ category, keys }) => (
+                    <React.Fragment key={category}>
+                      <SectionRow title={formatMetricName(category)} span={span} />
+                      {keys.map((key) => {
+                        const definition = getMetricDefinition(key);
+                        return (
+                          <ComparisonRow
+                            key={key}
+                            label={<span title={definition.description || undefined}>{definition.label}</span>}
+                            values={companies.map((company) => company.metrics[category]?.[key] ?? null)}
+                            format={(value, index) => formatMetric(definition, value, marketFormat(companies[index]))}
+                            direction={directionOf(definition)}
+                          />
+                        );
+                      })}
+                    </React.Fragment>
+                  ))}
+
+                  <SectionRow title="Statement Lines (Latest Fiscal Year)" span={span} />
+                  <TextRow
+                    label="Fiscal Year End"
+                    values={companies.map((company) => {
+                      const date = latestAnnualDate(company, 'income_statement');
+                      return date ? formatPeriodDate(date) : null;
+                    })}
+                  />
+                  {lines.map((line) => {
+                    const definition = lineDefinition(line);
+                    return (
+                      <ComparisonRow
+                        key={line}
+                        label={
+                          <span className="flex items-center gap-1">
+                            <span title={definition.description || undefined}>{definition.label}</span>
+                            <button
+                              type="button"
+                              onClick={() => setLines((current) => current.filter((entry) => entry !== line))}
+                              className="text-gray-400 hover:text-gray-700"
+                              aria-label={`Remove ${definition.label}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </span>
+                        }
+                        values={companies.map((company, index) => lineValue(normalized[index], company, line))}
+                        format={(value, index) => formatMetric(definition, value, statementFormat(companies[index]))}
+                        direction={directionOf(definition)}
+                      />
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <select
+              value=""
+              onChange={(e) => {
+                const line = e.target.value;
+                if (line) setLines((current) => [...current, line]);
+              }}
+              className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+              aria-label="Add statement line"
+            >
+              <option value="">Add statement line…</option>
+              {STATEMENT_TYPES.map((statementType) => (
+                <optgroup key={statementType} label={formatMetricName(statementType)}>
+                  {availableLines
+                    .filter((line) => parseLine(line).statementType === statementType)
+                    .map((line) => (
+                      <option key={line} value={line}>
+                        {lineDefinition(line).label}
+                      </option>
+                    ))}
+                </optgroup>
+              ))}
+            </select>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonView;
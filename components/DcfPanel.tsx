@@ -0,0 +1,376 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Check, Link, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import type { AssumptionSet } from '@/lib/assumptions/store';
+import { getDcfBase, runDcf, seedAssumptions, sensitivityGrid } from '@/lib/dcf';
+import {
+  DEFAULT_DISPLAY_FORMAT,
+  formatCount,
+  formatCurrency,
+  formatPercentage,
+  formatPerShare,
+  formatPeriodDate,
+  type DisplayFormat,
+} from '@/lib/format';
+import type { DcfAssumptions, FinancialData } from '@/lib/schema';
+import { companyPath } from '@/lib/view-state';
+
+type AssumptionKey = keyof DcfAssumptions;
+
+const FIELDS: { key: AssumptionKey; label: string; percent: boolean }[] = [
+  { key: 'revenue_growth', label: 'Revenue growth', percent: true },
+  { key: 'operating_margin', label: 'Operating margin', percent: true },
+  { key: 'tax_rate', label: 'Tax rate', percent: true },
+  { key: 'capex_percent', label: 'Capex % of revenue', percent: true },
+  { key: 'da_percent', label: 'D&A % of revenue', percent: true },
+  { key: 'nwc_percent', label: 'Working capital % of revenue', percent: true },
+  { key: 'wacc', label: 'WACC', percent: true },
+  { key: 'terminal_growth', label: 'Terminal growth', percent: true },
+  { key: 'years', label: 'Projection years', percent: false },
+];
+
+const toDisplay = (value: number, percent: boolean) =>
+  percent ? String(Math.round(value * 10_000) / 100) : String(value);
+
+interface AssumptionInputProps {
+  label: string;
+  value: number;
+  percent: boolean;
+  onChange: (value: number) => void;
+}
+
+/** Keeps the typed text locally so partial input such as `-` or `` is not thrown away. */
+const AssumptionInput: React.FC<AssumptionInputProps> = ({ label, value, percent, onChange }) => {
+  const [text, setText] = useState(toDisplay(value, percent));
+
+  useEffect(() => {
+    setText(toDisplay(value, percent));
+  }, [value, percent]);
+
+  return (
+    <label className="space-y-1 text-sm">
+      <span className="text-gray-500">{label}</span>
+      <div className="relative">
+        <Input
+          type="number"
+          step={percent ? 0.1 : 1}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            const parsed = Number(e.target.value);
+            if (e.target.value !== '' && Number.isFinite(parsed)) {
+              onChange(percent ? parsed / 100 : Math.round(parsed));
+            }
+          }}
+          className={cn(percent && 'pr-8')}
+        />
+        {percent && <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400">%</span>}
+      </div>
+    </label>
+  );
+};
+
+const SummaryItem: React.FC<{ label: string; value: string; emphasis?: boolean }> = ({ label, value, emphasis }) => (
+  <div>
+    <div className="text-sm text-gray-500">{label}</div>
+    <div className={cn('font-medium tabular-nums', emphasis && 'text-lg font-bold')}>{value}</div>
+  </div>
+);
+
+interface DcfPanelProps {
+  data: FinancialData;
+  /** Formats amounts in the reporting currency. */
+  displayFormat?: DisplayFormat;
+  /** Saved set to open with, e.g. from a shared link. Only read on mount. */
+  initialSetId?: string | null;
+  /** Called when the user opens, saves or leaves a saved set. */
+  onSetChange?: (id: string | null) => void;
+}
+
+const DcfPanel: React.FC<DcfPanelProps> = ({
+  data,
+  displayFormat = DEFAULT_DISPLAY_FORMAT,
+  initialSetId,
+  onSetChange,
+}) => {
+  const annual = data.financial_statements.annual;
+  const seeded = useMemo(() => seedAssumptions(annual), [annual]);
+  const base = useMemo(() => getDcfBase(annual), [annual]);
+
+  const [assumptions, setAssumptions] = useState<DcfAssumptions>(seeded);
+  const [sets, setSets] = useState<AssumptionSet[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [requestedSetId] = useState(initialSetId);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const endpoint = `/api/dcf/${encodeURIComponent(data.symbol)}`;
+
+  const applySet = useCallback((set: AssumptionSet) => {
+    setAssumptions(set.assumptions);
+    setSelectedId(set.id);
+    setName(set.name);
+  }, []);
+
+  useEffect(() => {
+    setAssumptions(seeded);
+    setSelectedId(null);
+  }, [seeded]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch(endpoint, { signal: controller.signal })
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || 'Failed to load saved assumptions');
+        const loaded = (body as { sets: AssumptionSet[] }).sets;
+        setSets(loaded);
+
+        const shared = requestedSetId ? loaded.find((set) => set.id === requestedSetId) : undefined;
+        if (shared) {
+          applySet(shared);
+        } else if (requestedSetId) {
+          setMessage('The shared assumption set no longer exists.');
+        }
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setMessage(err instanceof Error ? err.message : 'Failed to load saved assumptions');
+      });
+    return () => controller.abort();
+  }, [applySet, endpoint, requestedSetId]);
+
+  const result = useMemo(() => runDcf(base, assumptions), [base, assumptions]);
+  const grid = useMemo(() => sensitivityGrid(base, assumptions), [base, assumptions]);
+
+  const select = (id: string | null) => {
+    setSelectedId(id);
+    onSetChange?.(id);
+  };
+
+  const update = (key: AssumptionKey, value: number) => {
+    setAssumptions((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    setMessage(null);
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, assumptions }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        const issues = (body.issues as { path: string; message: string }[] | undefined)
+          ?.map((issue) => `${issue.path}: ${issue.message}`)
+          .join('; ');
+        throw new Error(issues ? `${body.error} (${issues})` : body.error || 'Failed to save');
+      }
+      const saved = body as AssumptionSet;
+      setSets((current) => [...current, saved]);
+      select(saved.id);
+      setMessage(`Saved "${saved.name}".`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to save');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) return;
+    setMessage(null);
+    const response = await fetch(`${endpoint}/${selectedId}`, { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) {
+      setMessage('Failed to delete the assumption set.');
+      return;
+    }
+    setSets((current) => current.filter((set) => set.id !== selectedId));
+    select(null);
+  };
+
+  const handleCopyLink = async () => {
+    if (!selectedId) return;
+    const url = new URL(companyPath(data.symbol, { view: 'dcf', dcf: selectedId }), window.location.origin);
+    await navigator.clipboard.writeText(url.toString());
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const money = (value: number | null) => formatCurrency(value, displayFormat);
+
+  if (base.revenue === null) {
+    return <p className="text-sm text-gray-500">Annual revenue is needed to build a DCF.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-2">
+        <select
+          value={selectedId ?? ''}
+          onChange={(e) => {
+            const set = sets.find((entry) => entry.id === e.target.value);
+            if (set) applySet(set);
+            select(set?.id ?? null);
+          }}
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          aria-label="Saved assumption sets"
+        >
+          <option value="">Unsaved assumptions</option>
+          {sets.map((set) => (
+            <option key={set.id} value={set.id}>
+              {set.name}
+            </option>
+          ))}
+        </select>
+        <Input
+          placeholder="Name this set"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="h-9 w-48"
+        />
+        <Button variant="outline" size="sm" onClick={handleSave} disabled={!name.trim()}>
+          <Save className="h-4 w-4 mr-1" />
+          Save
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleCopyLink} disabled={!selectedId}>
+          {copied ? <Check className="h-4 w-4 mr-1" /> : <Link className="h-4 w-4 mr-1" />}
+          {copied ? 'Copied' : 'Copy link'}
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleDelete} disabled={!selectedId}>
+          <Trash2 className="h-4 w-4 mr-1" />
+          Delete
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setAssumptions(seeded);
+            select(null);
+          }}
+        >
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Reset to statements
+        </Button>
+        {message && <span className="text-xs text-gray-500">{message}</span>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-3 lg:grid-cols-5">
+        {FIELDS.map((field) => (
+          <AssumptionInput
+            key={field.key}
+            label={field.label}
+            value={assumptions[field.key]}
+            percent={field.percent}
+            onChange={(value) => update(field.key, value)}
+          />
+        ))}
+      </div>
+
+      {!result ? (
+        <p className="text-sm text-red-700">WACC must be greater than the terminal growth rate.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-3 lg:grid-cols-6">
+            <SummaryItem label="PV of cash flows" value={money(result.pv_of_cash_flows)} />
+            <SummaryItem label="PV of terminal value" value={money(result.pv_of_terminal_value)} />
+            <SummaryItem label="Enterprise value" value={money(result.enterprise_value)} />
+            <SummaryItem label="Net debt" value={money(base.net_debt)} />
+            <SummaryItem label="Equity value" value={money(result.equity_value)} />
+            <SummaryItem
+              label="Value per share"
+              value={formatPerShare(result.value_per_share, displayFormat)}
+              emphasis
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            Projected from fiscal year ending {base.fiscal_year_end ? formatPeriodDate(base.fiscal_year_end) : 'N/A'}{' '}
+            with {formatCount(base.shares, displayFormat)} diluted shares.
+          </p>
+
+          <div className="overflow-auto rounded-md border">
+            <table className="w-full border-separate border-spacing-0 text-sm">
+              <thead>
+                <tr>
+                  <th className="border-b bg-background px-3 py-2 text-left font-medium">Year</th>
+                  {result.projections.map((year) => (
+                    <th key={year.year} className="border-b bg-background px-3 py-2 text-right font-medium">
+                      {year.year}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {(
+                  [
+                    ['Revenue', 'revenue'],
+                    ['Operating income', 'operating_income'],
+                    ['NOPAT', 'nopat'],
+                    ['D&A', 'depreciation'],
+                    ['Capex', 'capex'],
+                    ['Change in working capital', 'nwc_change'],
+                    ['Free cash flow', 'free_cash_flow'],
+                    ['Present value', 'present_value'],
+                  ] as const
+                ).map(([label, key]) => (
+                  <tr key={key} className="hover:bg-muted/30">
+                    <td className="border-b px-3 py-2 whitespace-nowrap">{label}</td>
+                    {result.projections.map((year) => (
+                      <td key={year.year} className="border-b px-3 py-2 text-right tabular-nums whitespace-nowrap">
+                        {money(year[key])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h3 className="font-medium mb-2">Value per share sensitivity</h3>
+            <div className="overflow-auto rounded-md border">
+              <table className="w-full border-separate border-spacing-0 text-sm">
+                <thead>
+                  <tr>
+                    <th className="border-b bg-background px-3 py-2 text-left font-medium">WACC \ Terminal growth</th>
+                    {grid.terminalGrowths.map((growth) => (
+                      <th key={growth} className="border-b bg-background px-3 py-2 text-right font-medium">
+                        {formatPercentage(growth, displayFormat)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {grid.waccs.map((wacc, row) => (
+                    <tr key={wacc}>
+                      <td className="border-b px-3 py-2 font-medium">{formatPercentage(wacc, displayFormat)}</td>
+                      {grid.values[row].map((value, column) => (
+                        <td
+                          key={grid.terminalGrowths[column]}
+                          className={cn(
+                            'border-b px-3 py-2 text-right tabular-nums',
+                            wacc === assumptions.wacc &&
+                              grid.terminalGrowths[column] === assumptions.terminal_growth &&
+                              'bg-muted font-bold'
+                          )}
+                        >
+                          {formatPerShare(value, displayFormat)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DcfPanel;
@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import { LOCALES, UNIT_SCALES, formatMetricName, isUnitScale, type UnitScale } from '@/lib/format';
+
+export const DISPLAY_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'CNY', 'HKD', 'INR'];
+
+export interface DisplaySettings {
+  locale: string;
+  scale: UnitScale;
+  /** Currency to convert into, or null to show figures as reported. */
+  currency: string | null;
+}
+
+interface DisplayControlsProps {
+  settings: DisplaySettings;
+  reportingCurrency: string;
+  onChange: (settings: DisplaySettings) => void;
+  /** Shown while exchange rates for the chosen currency are loading or failed. */
+  status?: string | null;
+}
+
+const selectClass = 'h-9 rounded-md border border-input bg-background px-2 text-sm';
+
+const DisplayControls: React.FC<DisplayControlsProps> = ({ settings, reportingCurrency, onChange, status }) => (
+  <div className="flex flex-wrap items-center gap-2 text-sm">
+    <select
+      value={settings.locale}
+      onChange={(e) => onChange({ ...settings, locale: e.target.value })}
+      className={selectClass}
+      aria-label="Number locale"
+    >
+      {LOCALES.map((locale) => (
+        <option key={locale} value={locale}>
+          {locale}
+        </option>
+      ))}
+    </select>
+    <select
+      value={settings.scale}
+      onChange={(e) => {
+        if (isUnitScale(e.target.value)) {
+          onChange({ ...settings, scale: e.target.value });
+        }
+      }}
+      className={selectClass}
+      aria-label="Unit scale"
+    >
+      {UNIT_SCALES.map((scale) => (
+        <option key={scale} value={scale}>
+          {scale === 'auto' ? 'Auto scale' : formatMetricName(scale)}
+        </option>
+      ))}
+    </select>
+    <select
+      value={settings.currency ?? ''}
+      onChange={(e) => onChange({ ...settings, currency: e.target.value || null })}
+      className={selectClass}
+      aria-label="Display currency"
+    >
+      <option value="">As reported ({reportingCurrency})</option>
+      {DISPLAY_CURRENCIES.filter((currency) => currency !== reportingCurrency).map((currency) => (
+        <option key={currency} value={currency}>
+          {currency}
+        </option>
+      ))}
+    </select>
+    {status && <span className="text-xs text-gray-500">{status}</span>}
+  </div>
+);
+
+export default DisplayControls;
@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { buildExport, type ExportOptions } from '@/lib/export';
+import { formatMetricName } from '@/lib/format';
+import { STATEMENT_TYPES, type FinancialData, type Periodicity } from '@/lib/schema';
+
+const downloadFile = (filename: string, contentType: string, body: string) => {
+  const url = URL.createObjectURL(new Blob([body], { type: contentType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface ExportMenuProps {
+  data: FinancialData;
+  periodicity: Periodicity;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ data, periodicity }) => {
+  const handleExport = (options: Omit<ExportOptions, 'periodicity'>) => {
+    const file = buildExport(data, { ...options, periodicity });
+    downloadFile(file.filename, file.contentType, file.body);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel>CSV</DropdownMenuLabel>
+        {STATEMENT_TYPES.map((statement) => (
+          <DropdownMenuItem key={statement} onSelect={() => handleExport({ format: 'csv', statement })}>
+            {formatMetricName(statement)}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuItem onSelect={() => handleExport({ format: 'csv' })}>
+          All statements (long format)
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => handleExport({ format: 'xls' })}>
+          Excel workbook
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport({ format: 'json' })}>
+          JSON
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport({ format: 'markdown' })}>
+          Markdown
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -1,186 +1,171 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Copy, Check } from 'lucide-react';
-
-interface FinancialStatement {
-  [metric: string]: number | null;
-}
-
-interface StatementCollection {
-  [date: string]: FinancialStatement;
-}
-
-interface FinancialStatements {
-  income_statement: StatementCollection;
-  balance_sheet: StatementCollection;
-  cash_flow: StatementCollection;
-}
-
-interface CompanyInfo {
-  name: string;
-  sector: string | null;
-  industry: string | null;
-  employees: number | null;
-  exchange: string | null;
-  description: string | null;
-  website: string | null;
-  country: string | null;
-}
-
-interface Metrics {
-  [category: string]: {
-    [metric: string]: number | null;
-  };
-}
-
-interface FinancialData {
-  company_info: CompanyInfo;
-  financial_statements: {
-    quarterly: FinancialStatements;
-    annual: FinancialStatements;
-  };
-  metrics: Metrics;
-}
+import ChartPanel from '@/components/ChartPanel';
+import DcfPanel from '@/components/DcfPanel';
+import DisplayControls, { type DisplaySettings } from '@/components/DisplayControls';
+import ExportMenu from '@/components/ExportMenu';
+import HistoryPanel from '@/components/HistoryPanel';
+import PriceChart from '@/components/PriceChart';
+import RatiosTable from '@/components/RatiosTable';
+import SectionNotice from '@/components/SectionNotice';
+import StatementTable from '@/components/StatementTable';
+import { formatMetricName, type DisplayFormat, type UnitScale } from '@/lib/format';
+import { formatMetric, getLineItemDefinition, getMetricDefinition } from '@/lib/metrics';
+import { enrichFinancialData } from '@/lib/enrich';
+import type { FxRate } from '@/lib/fx/types';
+import { alignStatement, lineItemsOf } from '@/lib/periods';
+import { isPeriodicity, STATEMENT_TYPES, type DataSection, type FinancialData } from '@/lib/schema';
+import { hasSectionData } from '@/lib/sections';
+import { isView, type ViewState } from '@/lib/view-state';
 
 interface FinancialViewerProps {
   data: FinancialData;
+  /** Periodicity, tab and statement, typically read from the URL. */
+  viewState: ViewState;
+  onViewStateChange: (state: ViewState) => void;
+  /** Refetches one section; without it, missing sections are marked but not retryable. */
+  onRetrySection?: (section: DataSection) => void;
+  retryingSection?: DataSection | null;
 }
 
-const formatCurrency = (value: number | null) => {
-  if (value === null) return 'N/A';
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-    notation: value > 1e9 ? 'compact' : 'standard'
-  }).format(value);
-};
-
-const formatPercentage = (value: number | null) => {
-  if (value === null) return 'N/A';
-  return `${(value * 100).toFixed(2)}%`;
-};
-
-const formatMetricName = (key: string): string => {
-  return key
-    .split('_')
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
-};
-
-interface StatementViewerProps {
-  data: FinancialData;
-  periodicity: 'quarterly' | 'annual';
-}
-
-const StatementViewer: React.FC<StatementViewerProps> = ({ data, periodicity }) => {
-  if (!data?.financial_statements?.[periodicity]) return null;
-  
-  const statements = data.financial_statements[periodicity];
-  const getFormattedText = () => {
-    let text = '';
-    
-    for (const [statementType, statement] of Object.entries(statements)) {
-      text += `\n${statementType.toUpperCase()}\n`;
-      text += '='.repeat(40) + '\n';
-      
-      const dates = Object.keys(statement).sort().reverse();
-      const metrics = Object.keys(statement[dates[0]] || {}).sort();
-      
-      // Header
-      text += 'Metric'.padEnd(30) + '|';
-      dates.forEach(date => {
-        const formattedDate = new Date(date).toLocaleDateString('en-US', {
-          year: 'numeric',
-          month: 'short'
-        });
-        text += ` ${formattedDate.padEnd(15)}|`;
-      });
-      text += '\n' + '-'.repeat(30 + (dates.length * 16)) + '\n';
-      
-      // Data rows
-      metrics.forEach(metric => {
-        const formattedMetric = formatMetricName(metric).padEnd(30);
-        
-        text += formattedMetric + '|';
-        dates.forEach(date => {
-          const value = statement[date]?.[metric];
-          const formattedValue = formatCurrency(value).padEnd(15);
-          text += ` ${formattedValue}|`;
-        });
-        text += '\n';
-      });
-      
-      text += '\n\n';
-    }
-    
-    return text;
-  };
-
-  return (
-    <pre className="whitespace-pre-wrap font-mono text-sm overflow-x-auto">
-      {getFormattedText()}
-    </pre>
-  );
-};
-
 interface MetricsCardProps {
   title: string;
   metrics: Record<string, number | null>;
+  format: DisplayFormat;
 }
 
-const MetricsCard: React.FC<MetricsCardProps> = ({ title, metrics }) => (
+const MetricsCard: React.FC<MetricsCardProps> = ({ title, metrics, format }) => (
   <Card>
     <CardContent className="p-4">
       <h3 className="font-bold mb-3">{title}</h3>
       <div className="grid grid-cols-2 gap-3">
-        {Object.entries(metrics).map(([key, value]) => (
-          <div key={key}>
-            <div className="text-sm text-gray-500">
-              {formatMetricName(key)}
-            </div>
-            <div className="font-medium">
-              {key.includes('margin') || key.includes('growth') || 
-               key.includes('return') || key.includes('yield')
-                ? formatPercentage(value)
-                : formatCurrency(value)}
+        {Object.entries(metrics).map(([key, value]) => {
+          const definition = getMetricDefinition(key);
+          return (
+            <div key={key}>
+              <div className="text-sm text-gray-500" title={definition.description || undefined}>
+                {definition.label}
+              </div>
+              <div className="font-medium">
+                {formatMetric(definition, value, format)}
+              </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </CardContent>
   </Card>
 );
 
-const FinancialViewer: React.FC<FinancialViewerProps> = ({ data }) => {
-  const [periodicity, setPeriodicity] = useState<'quarterly' | 'annual'>('quarterly');
+const FinancialViewer: React.FC<FinancialViewerProps> = ({
+  data,
+  viewState,
+  onViewStateChange,
+  onRetrySection,
+  retryingSection = null,
+}) => {
+  const { periodicity, view } = viewState;
+  const update = (changes: Partial<ViewState>) => onViewStateChange({ ...viewState, ...changes });
   const [copied, setCopied] = useState(false);
 
+  const [display, setDisplay] = useState<DisplaySettings>({ locale: 'en-US', scale: 'auto', currency: null });
+  const [rates, setRates] = useState<Record<string, FxRate>>({});
+  const [fxError, setFxError] = useState<string | null>(null);
+
+  const { ratios, ttm, growth, periods, quality, sections } = useMemo(() => enrichFinancialData(data), [data]);
+
+  const notice = (section: DataSection, className?: string) => (
+    <SectionNotice
+      section={section}
+      status={sections[section]}
+      onRetry={onRetrySection}
+      retrying={retryingSection === section}
+      className={className}
+    />
+  );
+
+  // Statements are in the reporting currency; price-based metrics in the trading currency.
+  const reportingCurrency = data.company_info.reporting_currency ?? data.company_info.trading_currency ?? 'USD';
+  const tradingCurrency = data.company_info.trading_currency ?? reportingCurrency;
+
+  useEffect(() => {
+    const target = display.currency;
+    if (!target) return;
+
+    const missing = Array.from(new Set([reportingCurrency, tradingCurrency])).filter(
+      (from) => from !== target && !rates[`${from}:${target}`]
+    );
+    if (missing.length === 0) return;
+
+    const controller = new AbortController();
+    Promise.all(
+      missing.map(async (from) => {
+        const response = await fetch(`/api/fx?from=${from}&to=${target}`, { signal: controller.signal });
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || 'Failed to fetch exchange rate');
+        return body as FxRate;
+      })
+    )
+      .then((fetched) =>
+        setRates((current) => ({
+          ...current,
+          ...Object.fromEntries(fetched.map((rate) => [`${rate.from}:${rate.to}`, rate])),
+        }))
+      )
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setFxError(err instanceof Error ? err.message : 'Failed to fetch exchange rate');
+      });
+
+    return () => controller.abort();
+  }, [display.currency, rates, reportingCurrency, tradingCurrency]);
+
+  const rateFrom = (from: string): FxRate | null | undefined =>
+    display.currency === null || display.currency === from ? null : rates[`${from}:${display.currency}`];
+
+  // Until a rate arrives, values stay in (and are labelled with) their own currency.
+  const displayFormatFor = (from: string, scale: UnitScale): DisplayFormat => {
+    const rate = rateFrom(from);
+    return rate
+      ? { locale: display.locale, currency: rate.to, scale, rate: rate.rate }
+      : { locale: display.locale, currency: from, scale, rate: 1 };
+  };
+
+  const statementFormat = displayFormatFor(reportingCurrency, display.scale);
+  // Prices and per-share figures would vanish at a fixed scale, so metrics always auto-scale.
+  const marketFormat = displayFormatFor(tradingCurrency, 'auto');
+
+  const statementRate = rateFrom(reportingCurrency);
+  const displayStatus = fxError
+    ? fxError
+    : statementRate === undefined
+      ? 'Loading exchange rates…'
+      : statementRate
+        ? `1 ${statementRate.from} = ${statementRate.rate.toFixed(4)} ${statementRate.to} (${statementRate.source}, ${statementRate.as_of})`
+        : null;
+
   const getFormattedText = () => {
     if (!data?.financial_statements?.[periodicity]) return '';
     
     let text = `${data.company_info.name} - Financial Statements (${periodicity.toUpperCase()})\n\n`;
     
-    for (const [statementType, statement] of Object.entries(data.financial_statements[periodicity])) {
+    for (const statementType of STATEMENT_TYPES) {
       text += `${statementType.toUpperCase()}\n`;
       text += '='.repeat(40) + '\n';
       
-      const dates = Object.keys(statement).sort().reverse();
-      const metrics = Object.keys(statement[dates[0]] || {}).sort();
+      const statement = alignStatement(data.financial_statements[periodicity][statementType], periods[periodicity]);
+      const dates = periods[periodicity].map((period) => period.date);
+      const metrics = lineItemsOf(statement).sort();
       
       // Header
       text += 'Metric'.padEnd(30) + '|';
-      dates.forEach(date => {
-        const formattedDate = new Date(date).toLocaleDateString('en-US', {
-          year: 'numeric',
-          month: 'short'
-        });
-        text += ` ${formattedDate.padEnd(15)}|`;
+      periods[periodicity].forEach(period => {
+        text += ` ${period.label.padEnd(15)}|`;
       });
       text += '\n' + '-'.repeat(30 + (dates.length * 16)) + '\n';
       
@@ -191,7 +176,7 @@ const FinancialViewer: React.FC<FinancialViewerProps> = ({ data }) => {
         text += formattedMetric + '|';
         dates.forEach(date => {
           const value = statement[date]?.[metric];
-          const formattedValue = formatCurrency(value).padEnd(15);
+          const formattedValue = formatMetric(getLineItemDefinition(metric), value, statementFormat).padEnd(15);
           text += ` ${formattedValue}|`;
         });
         text += '\n';
@@ -214,7 +199,19 @@ const FinancialViewer: React.FC<FinancialViewerProps> = ({ data }) => {
       {/* Company Info */}
       <Card>
         <CardContent className="p-4">
-          <h2 className="text-xl font-bold mb-4">{data.company_info.name}</h2>
+          <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+            <h2 className="text-xl font-bold">{data.company_info.name}</h2>
+            {data.cached_at && (
+              // Rendered on the server too, where the time zone differs from the browser's.
+              <span className="text-xs text-gray-500" suppressHydrationWarning>
+                Data as of {new Date(data.cached_at).toLocaleString('en-US', {
+                  dateStyle: 'medium',
+                  timeStyle: 'short'
+                })}
+              </span>
+            )}
+          </div>
+          {notice('company_info', 'mb-4')}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
             <div>
               <div className="text-sm text-gray-500">Sector</div>
@@ -240,43 +237,50 @@ const FinancialViewer: React.FC<FinancialViewerProps> = ({ data }) => {
       </Card>
 
       {/* Metrics */}
-      <div className="grid md:grid-cols-2 gap-4">
-        {Object.entries(data.metrics).map(([category, metrics]) => (
-          <MetricsCard
-            key={category}
-            title={formatMetricName(category)}
-            metrics={metrics}
-          />
-        ))}
-      </div>
+      {notice('metrics')}
+      {hasSectionData(sections.metrics) && (
+        <div className="grid md:grid-cols-2 gap-4">
+          {Object.entries(data.metrics).map(([category, metrics]) => (
+            <MetricsCard
+              key={category}
+              title={formatMetricName(category)}
+              metrics={metrics}
+              format={marketFormat}
+            />
+          ))}
+        </div>
+      )}
 
       {/* Financial Statements */}
       <div className="space-y-4">
         <div className="flex justify-between items-center">
-          <Button 
-            variant="outline" 
-            size="sm"
-            onClick={handleCopy}
-            className="flex items-center gap-2"
-          >
-            {copied ? (
-              <>
-                <Check className="h-4 w-4" />
-                Copied
-              </>
-            ) : (
-              <>
-                <Copy className="h-4 w-4" />
-                Copy All
-              </>
-            )}
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button 
+              variant="outline" 
+              size="sm"
+              onClick={handleCopy}
+              className="flex items-center gap-2"
+            >
+              {copied ? (
+                <>
+                  <Check className="h-4 w-4" />
+                  Copied
+                </>
+              ) : (
+                <>
+                  <Copy className="h-4 w-4" />
+                  Copy All
+                </>
+              )}
+            </Button>
+            <ExportMenu data={data} periodicity={periodicity} />
+          </div>
           
           <Tabs 
             value={periodicity} 
             onValueChange={(value: string) => {
-              if (value === 'quarterly' || value === 'annual') {
-                setPeriodicity(value);
+              if (isPeriodicity(value)) {
+                update({ periodicity: value });
               }
             }} 
             className="w-[400px]"
@@ -288,9 +292,78 @@ const FinancialViewer: React.FC<FinancialViewerProps> = ({ data }) => {
           </Tabs>
         </div>
 
+        <DisplayControls
+          settings={display}
+          reportingCurrency={reportingCurrency}
+          onChange={(settings) => {
+            setFxError(null);
+            setDisplay(settings);
+          }}
+          status={displayStatus}
+        />
+
         <Card>
           <CardContent className="p-4">
-            <StatementViewer data={data} periodicity={periodicity} />
+            <Tabs
+              value={view}
+              onValueChange={(value: string) => {
+                if (isView(value)) {
+                  update({ view: value });
+                }
+              }}
+            >
+              <TabsList className="mb-4">
+                <TabsTrigger value="statements">Statements</TabsTrigger>
+                <TabsTrigger value="ratios">Ratios</TabsTrigger>
+                <TabsTrigger value="charts">Charts</TabsTrigger>
+                <TabsTrigger value="price">Price</TabsTrigger>
+                <TabsTrigger value="dcf">DCF</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+              </TabsList>
+              <TabsContent value="statements">
+                {notice(viewState.statement, 'mb-4')}
+                <StatementTable
+                  statements={data.financial_statements[periodicity]}
+                  periods={periods[periodicity]}
+                  periodicity={periodicity}
+                  statementType={viewState.statement}
+                  onStatementTypeChange={(statement) => update({ statement })}
+                  ttm={periodicity === 'quarterly' ? ttm : null}
+                  growth={growth[periodicity]}
+                  flags={quality[periodicity]}
+                  displayFormat={statementFormat}
+                />
+              </TabsContent>
+              <TabsContent value="ratios">
+                <RatiosTable series={ratios[periodicity]} displayFormat={statementFormat} />
+              </TabsContent>
+              <TabsContent value="charts">
+                <ChartPanel
+                  statements={data.financial_statements[periodicity]}
+                  ratios={ratios[periodicity]}
+                  displayFormat={statementFormat}
+                />
+              </TabsContent>
+              <TabsContent value="price">
+                <PriceChart data={data} periodicity={periodicity} displayFormat={marketFormat} />
+              </TabsContent>
+              <TabsContent value="dcf">
+                <DcfPanel
+                  data={data}
+                  displayFormat={statementFormat}
+                  initialSetId={viewState.dcf}
+                  onSetChange={(dcf) => update({ dcf })}
+                />
+              </TabsContent>
+              <TabsContent value="history">
+                <HistoryPanel
+                  symbol={data.symbol}
+                  periodicity={periodicity}
+                  fetchedAt={data.cached_at}
+                  displayFormat={statementFormat}
+                />
+              </TabsContent>
+            </Tabs>
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,229 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_DISPLAY_FORMAT,
+  formatMetricName,
+  formatPercentage,
+  formatPeriodDate,
+  type DisplayFormat,
+} from '@/lib/format';
+import type { LineChangeKind, PeriodChange, SnapshotDiff } from '@/lib/history/diff';
+import type { SnapshotSummary } from '@/lib/history/store';
+import { formatMetric, getLineItemDefinition } from '@/lib/metrics';
+import type { Periodicity } from '@/lib/schema';
+
+const KIND_CLASSES: Record<LineChangeKind, string> = {
+  changed: 'bg-amber-50',
+  added: 'bg-green-50',
+  removed: 'bg-red-50 text-gray-500 line-through',
+};
+
+const describePeriods = (periods: PeriodChange[]) =>
+  Array.from(new Set(periods.map((period) => period.date))).join(', ');
+
+interface HistoryPanelProps {
+  symbol: string;
+  periodicity: Periodicity;
+  /** When the viewer's data was fetched; a new value can mean a new snapshot to list. */
+  fetchedAt?: string;
+  /** Formats amounts in the reporting currency. */
+  displayFormat?: DisplayFormat;
+}
+
+/**
+ * Lists the stored snapshots of a company and highlights the statement line
+ * items that changed between two of them, with when and by how much.
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  symbol,
+  periodicity,
+  fetchedAt,
+  displayFormat = DEFAULT_DISPLAY_FORMAT,
+}) => {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[] | null>(null);
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const endpoint = `/api/financial/history?symbol=${encodeURIComponent(symbol)}`;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch(endpoint, { signal: controller.signal })
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || 'Failed to load snapshots');
+        const listed = (body as { snapshots: SnapshotSummary[] }).snapshots;
+        setSnapshots(listed);
+        // Newest first: compare the latest snapshot with the one before it.
+        setTo(listed[0]?.version ?? null);
+        setFrom(listed[1]?.version ?? null);
+      })
+      .catch((err: unknown) => {
+        if (!controller.signal.aborted) setError(err instanceof Error ? err.message : 'Failed to load snapshots');
+      });
+    return () => controller.abort();
+  }, [endpoint, fetchedAt]);
+
+  useEffect(() => {
+    if (from === null || to === null || from >= to) {
+      setDiff(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    fetch(`${endpoint}&from=${from}&to=${to}`, { signal: controller.signal })
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || 'Failed to compare snapshots');
+        setDiff(body as SnapshotDiff);
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setDiff(null);
+        setError(err instanceof Error ? err.message : 'Failed to compare snapshots');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [endpoint, from, to]);
+
+  const formatTime = (timestamp: string) => new Date(timestamp).toLocaleString(displayFormat.locale);
+  const snapshotLabel = (snapshot: SnapshotSummary) => `v${snapshot.version} · ${formatTime(snapshot.fetched_at)}`;
+
+  if (error && !snapshots) return <p className="text-sm text-red-700">{error}</p>;
+  if (!snapshots) return <p className="text-sm text-gray-500">Loading snapshots…</p>;
+  if (snapshots.length < 2) {
+    return (
+      <p className="text-sm text-gray-500">
+        {snapshots.length === 0 ? 'No snapshots stored yet.' : 'Only one snapshot so far.'} A snapshot is stored every
+        time the data is fetched and differs from the last one, so changes appear here after a refetch.
+      </p>
+    );
+  }
+
+  const changes = diff?.changes.filter((change) => change.periodicity === periodicity) ?? [];
+  const addedPeriods = diff?.added_periods.filter((period) => period.periodicity === periodicity) ?? [];
+  const removedPeriods = diff?.removed_periods.filter((period) => period.periodicity === periodicity) ?? [];
+  const selectClass = 'h-9 rounded-md border border-input bg-background px-2 text-sm';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-500">Compare</span>
+        <select
+          value={from ?? ''}
+          onChange={(e) => {
+            const version = Number(e.target.value);
+            setFrom(version);
+            if (to !== null && to <= version) setTo(snapshots[0].version);
+          }}
+          className={selectClass}
+          aria-label="Earlier snapshot"
+        >
+          {snapshots.slice(1).map((snapshot) => (
+            <option key={snapshot.version} value={snapshot.version}>
+              {snapshotLabel(snapshot)}
+            </option>
+          ))}
+        </select>
+        <span className="text-gray-500">with</span>
+        <select
+          value={to ?? ''}
+          onChange={(e) => setTo(Number(e.target.value))}
+          className={selectClass}
+          aria-label="Later snapshot"
+        >
+          {snapshots
+            .filter((snapshot) => from === null || snapshot.version > from)
+            .map((snapshot) => (
+              <option key={snapshot.version} value={snapshot.version}>
+                {snapshotLabel(snapshot)}
+              </option>
+            ))}
+        </select>
+        {loading && <span className="text-gray-500">Comparing…</span>}
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {diff && (
+        <>
+          <p className="text-sm text-gray-600">
+            {changes.length} changed {changes.length === 1 ? 'line item' : 'line items'} in {periodicity} statements
+            {addedPeriods.length > 0 && ` · new periods: ${describePeriods(addedPeriods)}`}
+            {removedPeriods.length > 0 && ` · no longer reported: ${describePeriods(removedPeriods)}`}
+          </p>
+
+          {changes.length > 0 && (
+            <div className="max-h-[70vh] overflow-auto rounded-md border">
+              <table className="w-full border-separate border-spacing-0 text-sm">
+                <thead>
+                  <tr>
+                    {['Period', 'Statement', 'Line item', 'Before', 'After', 'Change', '%', 'Changed'].map(
+                      (heading, index) => (
+                        <th
+                          key={heading}
+                          className={cn(
+                            'sticky top-0 border-b bg-background px-3 py-2 font-medium whitespace-nowrap',
+                            index < 3 ? 'text-left' : 'text-right'
+                          )}
+                        >
+                          {heading}
+                        </th>
+                      )
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.map((change) => {
+                    const definition = getLineItemDefinition(change.line_item);
+                    const valueClass = 'border-b px-3 py-2 text-right tabular-nums whitespace-nowrap';
+                    return (
+                      <tr
+                        key={`${change.statement}-${change.date}-${change.line_item}`}
+                        className={KIND_CLASSES[change.kind]}
+                      >
+                        <td className="border-b px-3 py-2 whitespace-nowrap">
+                          {formatPeriodDate(change.date, displayFormat.locale)}
+                        </td>
+                        <td className="border-b px-3 py-2 whitespace-nowrap">{formatMetricName(change.statement)}</td>
+                        <td className="border-b px-3 py-2">{change.line_item}</td>
+                        <td className={valueClass}>{formatMetric(definition, change.before, displayFormat)}</td>
+                        <td className={valueClass}>{formatMetric(definition, change.after, displayFormat)}</td>
+                        <td
+                          className={cn(
+                            valueClass,
+                            change.change !== null && change.change > 0 && 'text-green-700',
+                            change.change !== null && change.change < 0 && 'text-red-700'
+                          )}
+                        >
+                          {change.change === null ? '' : formatMetric(definition, change.change, displayFormat)}
+                        </td>
+                        <td className={valueClass}>
+                          {change.change_percent === null ? '' : formatPercentage(change.change_percent, displayFormat)}
+                        </td>
+                        <td className={cn(valueClass, 'text-gray-500')} title={`Snapshot v${change.changed_in}`}>
+                          {formatTime(change.changed_at)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
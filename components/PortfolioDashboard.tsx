@@ -0,0 +1,497 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Plus, RefreshCw, Trash2, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_DISPLAY_FORMAT,
+  formatCount,
+  formatCurrency,
+  formatMultiple,
+  formatNumber,
+  formatPercentage,
+  formatPerShare,
+  type DisplayFormat,
+} from '@/lib/format';
+import type { Portfolio } from '@/lib/portfolio/store';
+import type { Exposure, PortfolioSummary, WeightedMetric } from '@/lib/portfolio/summary';
+import type { Holding, PortfolioInput } from '@/lib/schema';
+import { companyPath } from '@/lib/view-state';
+
+interface HoldingForm {
+  symbol: string;
+  shares: string;
+  cost_basis: string;
+  acquired_on: string;
+}
+
+const EMPTY_HOLDING: HoldingForm = { symbol: '', shares: '', cost_basis: '', acquired_on: '' };
+
+const SAMPLE_CSV = 'symbol,shares,cost_basis,acquired_on\nAAPL,10,1500,2023-01-15';
+
+const toInput = (portfolio: Portfolio, holdings: Holding[]): PortfolioInput => ({
+  name: portfolio.name,
+  currency: portfolio.currency,
+  holdings,
+});
+
+async function request<T>(url: string, init?: RequestInit & { contentType?: string }): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': init.contentType ?? 'application/json' } : undefined,
+  });
+  if (response.status === 204) return undefined as T;
+
+  const body = await response.json();
+  if (!response.ok) {
+    const issues = Array.isArray(body.issues)
+      ? `: ${body.issues.map((issue: { path: string; message: string }) => `${issue.path} ${issue.message}`).join('; ')}`
+      : '';
+    throw new Error(`${body.error || 'Portfolio request failed'}${issues}`);
+  }
+  return body as T;
+}
+
+const pnlClass = (value: number | null) =>
+  value === null || value === 0 ? undefined : value > 0 ? 'text-green-700' : 'text-red-700';
+
+const Stat: React.FC<{ label: string; value: string; detail?: string; className?: string }> = ({
+  label,
+  value,
+  detail,
+  className,
+}) => (
+  <div className="rounded-md border px-3 py-2">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className={cn('text-lg font-semibold', className)}>{value}</div>
+    {detail && <div className="text-xs text-gray-500">{detail}</div>}
+  </div>
+);
+
+const coverage = (metric: WeightedMetric) => `${formatPercentage(metric.coverage)} of value covered`;
+
+const ExposureList: React.FC<{ title: string; exposures: Exposure[]; format: DisplayFormat }> = ({
+  title,
+  exposures,
+  format,
+}) => (
+  <div className="space-y-2">
+    <h3 className="font-semibold">{title}</h3>
+    {exposures.length === 0 ? (
+      <p className="text-sm text-gray-500">Nothing valued yet.</p>
+    ) : (
+      <ul className="space-y-1 text-sm">
+        {exposures.map((exposure) => (
+          <li key={exposure.name}>
+            <div className="flex justify-between gap-2">
+              <span>{exposure.name}</span>
+              <span className="text-gray-500">
+                {formatCurrency(exposure.market_value, format)} · {formatPercentage(exposure.weight)}
+              </span>
+            </div>
+            <div className="h-1.5 rounded bg-gray-100">
+              <div className="h-1.5 rounded bg-blue-500" style={{ width: `${exposure.weight * 100}%` }} />
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/**
+ * Manages portfolios and their lots, imports lots from CSV, and shows each
+ * position valued at its latest close alongside the portfolio's weighted
+ * fundamentals and exposures.
+ */
+const PortfolioDashboard: React.FC = () => {
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [summary, setSummary] = useState<PortfolioSummary | null>(null);
+  const [loadingSummary, setLoadingSummary] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [newName, setNewName] = useState('');
+  const [newCurrency, setNewCurrency] = useState('USD');
+  const [holding, setHolding] = useState<HoldingForm>(EMPTY_HOLDING);
+  const [csv, setCsv] = useState('');
+  const [replaceOnImport, setReplaceOnImport] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = portfolios.find((portfolio) => portfolio.id === selectedId) ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+    request<{ portfolios: Portfolio[] }>('/api/portfolios')
+      .then(({ portfolios: loaded }) => {
+        if (cancelled) return;
+        setPortfolios(loaded);
+        setSelectedId((current) => current ?? loaded[0]?.id ?? null);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load portfolios');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setSummary(null);
+      return;
+    }
+    let cancelled = false;
+    setLoadingSummary(true);
+    request<PortfolioSummary>(`/api/portfolios/${selectedId}/summary`)
+      .then((loaded) => {
+        if (!cancelled) setSummary(loaded);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to value the portfolio');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingSummary(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, refreshKey]);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Portfolio update failed');
+    }
+  };
+
+  const replace = (portfolio: Portfolio) => {
+    setPortfolios((current) => current.map((entry) => (entry.id === portfolio.id ? portfolio : entry)));
+    setRefreshKey((key) => key + 1);
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      const created = await request<Portfolio>('/api/portfolios', {
+        method: 'POST',
+        body: JSON.stringify({ name: newName.trim(), currency: newCurrency.trim().toUpperCase(), holdings: [] }),
+      });
+      setPortfolios((current) => [...current, created]);
+      setSelectedId(created.id);
+      setNewName('');
+    });
+
+  const handleDelete = (portfolio: Portfolio) =>
+    run(async () => {
+      await request(`/api/portfolios/${portfolio.id}`, { method: 'DELETE' });
+      const remaining = portfolios.filter((entry) => entry.id !== portfolio.id);
+      setPortfolios(remaining);
+      setSelectedId(remaining[0]?.id ?? null);
+    });
+
+  const saveHoldings = (portfolio: Portfolio, holdings: Holding[]) =>
+    request<Portfolio>(`/api/portfolios/${portfolio.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(toInput(portfolio, holdings)),
+    });
+
+  const handleAddHolding = (portfolio: Portfolio) =>
+    run(async () => {
+      const lot: Holding = {
+        symbol: holding.symbol.trim().toUpperCase(),
+        shares: Number(holding.shares),
+        cost_basis: Number(holding.cost_basis),
+        acquired_on: holding.acquired_on,
+      };
+      replace(await saveHoldings(portfolio, [...portfolio.holdings, lot]));
+      setHolding(EMPTY_HOLDING);
+    });
+
+  const handleRemoveHolding = (portfolio: Portfolio, index: number) =>
+    run(async () => {
+      replace(await saveHoldings(portfolio, portfolio.holdings.toSpliced(index, 1)));
+    });
+
+  const handleImport = (portfolio: Portfolio) =>
+    run(async () => {
+      replace(
+        await request<Portfolio>(
+          `/api/portfolios/${portfolio.id}/import?mode=${replaceOnImport ? 'replace' : 'append'}`,
+          {
+            method: 'POST',
+            body: csv,
+            contentType: 'text/csv',
+          }
+        )
+      );
+      setCsv('');
+    });
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(setCsv, () => setError(`Could not read ${file.name}`));
+  };
+
+  const format: DisplayFormat = { ...DEFAULT_DISPLAY_FORMAT, currency: summary?.currency ?? 'USD' };
+  const updateHolding = (changes: Partial<HoldingForm>) => setHolding((current) => ({ ...current, ...changes }));
+  const selectClass = 'h-9 rounded-md border border-input bg-background px-2 text-sm';
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <Card>
+        <CardContent className="p-4 flex flex-wrap items-center gap-2">
+          <select
+            value={selectedId ?? ''}
+            onChange={(e) => setSelectedId(e.target.value || null)}
+            className={selectClass}
+            aria-label="Portfolio"
+            disabled={portfolios.length === 0}
+          >
+            {portfolios.length === 0 && <option value="">No portfolios</option>}
+            {portfolios.map((portfolio) => (
+              <option key={portfolio.id} value={portfolio.id}>
+                {portfolio.name} ({portfolio.currency})
+              </option>
+            ))}
+          </select>
+          {selected && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setRefreshKey((key) => key + 1)}
+                disabled={loadingSummary}
+                aria-label="Refresh prices"
+              >
+                <RefreshCw className={cn('h-4 w-4', loadingSummary && 'animate-spin')} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(selected)}
+                aria-label={`Delete ${selected.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          <div className="ml-auto flex items-center gap-2">
+            <Input
+              placeholder="New portfolio"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="h-9 w-44"
+            />
+            <Input
+              value={newCurrency}
+              onChange={(e) => setNewCurrency(e.target.value)}
+              className="h-9 w-20"
+              maxLength={3}
+              aria-label="Currency"
+            />
+            <Button size="sm" onClick={handleCreate} disabled={!newName.trim() || newCurrency.trim().length !== 3}>
+              <Plus className="h-4 w-4 mr-1" />
+              Create
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {selected && summary?.id === selected.id && (
+        <>
+          <div className="grid grid-cols-2 gap-2 md:grid-cols-3 lg:grid-cols-6">
+            <Stat label="Market value" value={formatCurrency(summary.market_value, format)} />
+            <Stat label="Cost basis" value={formatCurrency(summary.cost_basis, format)} />
+            <Stat
+              label="Unrealized P&L"
+              value={formatCurrency(summary.unrealized_pnl, format)}
+              detail={formatPercentage(summary.unrealized_pnl_percent)}
+              className={pnlClass(summary.unrealized_pnl)}
+            />
+            <Stat label="P/E" value={formatMultiple(summary.pe_ratio.value)} detail={coverage(summary.pe_ratio)} />
+            <Stat
+              label="Dividend yield"
+              value={formatPercentage(summary.dividend_yield.value)}
+              detail={coverage(summary.dividend_yield)}
+            />
+            <Stat label="Beta" value={formatNumber(summary.beta.value)} detail={coverage(summary.beta)} />
+          </div>
+
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              <h2 className="text-lg font-bold">Positions</h2>
+              {summary.positions.length === 0 ? (
+                <p className="text-sm text-gray-500">No holdings yet. Add a lot or import a CSV below.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-500">
+                        <th className="py-2 pr-3">Symbol</th>
+                        <th className="py-2 pr-3 text-right">Shares</th>
+                        <th className="py-2 pr-3 text-right">Price</th>
+                        <th className="py-2 pr-3 text-right">Market value</th>
+                        <th className="py-2 pr-3 text-right">Cost basis</th>
+                        <th className="py-2 pr-3 text-right">Unrealized P&L</th>
+                        <th className="py-2 pr-3 text-right">Weight</th>
+                        <th className="py-2 pr-3 text-right">P/E</th>
+                        <th className="py-2 pr-3 text-right">Yield</th>
+                        <th className="py-2 text-right">Beta</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {summary.positions.map((position) => (
+                        <tr key={position.symbol} className="border-b last:border-0 align-top">
+                          <td className="py-2 pr-3">
+                            <Link href={companyPath(position.symbol)} className="font-medium hover:underline">
+                              {position.symbol}
+                            </Link>
+                            <div className="text-xs text-gray-500">
+                              {position.name ?? ''}
+                              {position.lots > 1 && ` · ${position.lots} lots`}
+                            </div>
+                            {position.error && <div className="text-xs text-red-700">{position.error}</div>}
+                          </td>
+                          <td className="py-2 pr-3 text-right">{formatCount(position.shares)}</td>
+                          <td className="py-2 pr-3 text-right" title={position.price_date ?? undefined}>
+                            {formatPerShare(position.price, { ...DEFAULT_DISPLAY_FORMAT, currency: position.currency })}
+                          </td>
+                          <td className="py-2 pr-3 text-right">{formatCurrency(position.market_value, format)}</td>
+                          <td className="py-2 pr-3 text-right">{formatCurrency(position.cost_basis, format)}</td>
+                          <td className={cn('py-2 pr-3 text-right', pnlClass(position.unrealized_pnl))}>
+                            {formatCurrency(position.unrealized_pnl, format)}
+                            <div className="text-xs">{formatPercentage(position.unrealized_pnl_percent)}</div>
+                          </td>
+                          <td className="py-2 pr-3 text-right">{formatPercentage(position.weight)}</td>
+                          <td className="py-2 pr-3 text-right">{formatMultiple(position.pe_ratio)}</td>
+                          <td className="py-2 pr-3 text-right">{formatPercentage(position.dividend_yield)}</td>
+                          <td className="py-2 text-right">{formatNumber(position.beta)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                Valued at the latest close as of {new Date(summary.as_of).toLocaleString()}; amounts in{' '}
+                {summary.currency}.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-4 grid gap-6 md:grid-cols-2">
+              <ExposureList title="Sector exposure" exposures={summary.sectors} format={format} />
+              <ExposureList title="Industry exposure" exposures={summary.industries} format={format} />
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {selected && (
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            <div className="space-y-2">
+              <h2 className="text-lg font-bold">Lots</h2>
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  placeholder="Symbol"
+                  value={holding.symbol}
+                  onChange={(e) => updateHolding({ symbol: e.target.value })}
+                  className="h-9 w-28"
+                />
+                <Input
+                  placeholder="Shares"
+                  value={holding.shares}
+                  onChange={(e) => updateHolding({ shares: e.target.value })}
+                  className="h-9 w-28"
+                  inputMode="decimal"
+                />
+                <Input
+                  placeholder="Total cost"
+                  value={holding.cost_basis}
+                  onChange={(e) => updateHolding({ cost_basis: e.target.value })}
+                  className="h-9 w-32"
+                  inputMode="decimal"
+                />
+                <Input
+                  type="date"
+                  value={holding.acquired_on}
+                  onChange={(e) => updateHolding({ acquired_on: e.target.value })}
+                  className="h-9 w-40"
+                  aria-label="Acquired on"
+                />
+                <Button
+                  size="sm"
+                  onClick={() => handleAddHolding(selected)}
+                  disabled={
+                    !holding.symbol.trim() || !holding.shares || !holding.cost_basis.trim() || !holding.acquired_on
+                  }
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add lot
+                </Button>
+              </div>
+              {selected.holdings.length > 0 && (
+                <ul className="divide-y rounded-md border text-sm">
+                  {selected.holdings.map((lot, index) => (
+                    <li key={index} className="flex items-center gap-3 px-3 py-1.5">
+                      <span className="w-20 font-medium">{lot.symbol}</span>
+                      <span className="w-28 text-right">{formatCount(lot.shares)} shares</span>
+                      <span className="w-36 text-right">{formatNumber(lot.cost_basis)} total cost</span>
+                      <span className="mr-auto text-gray-500">acquired {lot.acquired_on}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveHolding(selected, index)}
+                        aria-label={`Remove ${lot.symbol} lot`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Import CSV</h3>
+              <textarea
+                value={csv}
+                onChange={(e) => setCsv(e.target.value)}
+                placeholder={SAMPLE_CSV}
+                rows={4}
+                className="w-full rounded-md border border-input bg-background p-2 font-mono text-xs"
+                aria-label="Holdings CSV"
+              />
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <input type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={replaceOnImport}
+                    onChange={(e) => setReplaceOnImport(e.target.checked)}
+                  />
+                  Replace existing lots
+                </label>
+                <Button size="sm" onClick={() => handleImport(selected)} disabled={!csv.trim()}>
+                  <Upload className="h-4 w-4 mr-1" />
+                  Import
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioDashboard;
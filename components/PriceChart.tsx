@@ -0,0 +1,222 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import {
+  DEFAULT_DISPLAY_FORMAT,
+  formatMultiple,
+  formatPerShare,
+  formatPeriodDate,
+  type DisplayFormat,
+} from '@/lib/format';
+import { computeValuationSeries } from '@/lib/valuation';
+import { isPriceRange, type FinancialData, type Periodicity, type PriceHistory, type PriceRange } from '@/lib/schema';
+
+const RANGES: PriceRange[] = ['1y', '2y', '5y', 'max'];
+
+const MULTIPLES = [
+  { key: 'pe', label: 'P/E', color: 'hsl(var(--chart-1))' },
+  { key: 'ps', label: 'P/S', color: 'hsl(var(--chart-2))' },
+  { key: 'ev_ebitda', label: 'EV/EBITDA', color: 'hsl(var(--chart-3))' },
+] as const;
+
+const toTime = (date: string) => new Date(date).getTime();
+
+interface PriceChartProps {
+  data: FinancialData;
+  periodicity: Periodicity;
+  /** Formats prices; its `rate` should convert from the trading currency. */
+  displayFormat?: DisplayFormat;
+}
+
+/**
+ * Price history with a marker at every fiscal period end, plus valuation
+ * multiples derived from the same bars and the statements.
+ */
+const PriceChart: React.FC<PriceChartProps> = ({ data, periodicity, displayFormat = DEFAULT_DISPLAY_FORMAT }) => {
+  const [range, setRange] = useState<PriceRange>('5y');
+  const [history, setHistory] = useState<PriceHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    fetch(`/api/prices?symbol=${encodeURIComponent(data.symbol)}&range=${range}`, { signal: controller.signal })
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || 'Failed to fetch price history');
+        setHistory(body as PriceHistory);
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setHistory(null);
+        setError(err instanceof Error ? err.message : 'Failed to fetch price history');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [data.symbol, range]);
+
+  const reportingCurrency = data.company_info.reporting_currency ?? null;
+  // Multiples divide a price by statement figures, which only works in one currency.
+  const currenciesMatch =
+    !history?.currency || !reportingCurrency || history.currency === reportingCurrency;
+
+  const rows = useMemo(() => {
+    if (!history) return [];
+    const valuation = new Map(
+      computeValuationSeries(history.bars, data.financial_statements).map((point) => [point.date, point])
+    );
+    return history.bars
+      .filter((bar) => bar.close !== null)
+      .map((bar) => {
+        const point = currenciesMatch ? valuation.get(bar.date) : undefined;
+        return {
+          time: toTime(bar.date),
+          close: bar.close,
+          pe: point?.pe ?? null,
+          ps: point?.ps ?? null,
+          ev_ebitda: point?.ev_ebitda ?? null,
+        };
+      });
+  }, [currenciesMatch, data.financial_statements, history]);
+
+  const periodEnds = useMemo(() => {
+    if (rows.length === 0) return [];
+    const first = rows[0].time;
+    const last = rows[rows.length - 1].time;
+    return Object.keys(data.financial_statements[periodicity].income_statement)
+      .map(toTime)
+      .filter((time) => time >= first && time <= last);
+  }, [data.financial_statements, periodicity, rows]);
+
+  const hasMultiples = rows.some((row) => row.pe !== null || row.ps !== null || row.ev_ebitda !== null);
+  const formatTime = (time: number) => formatPeriodDate(new Date(time).toISOString(), displayFormat.locale);
+
+  const xAxis = (
+    <XAxis
+      dataKey="time"
+      type="number"
+      scale="time"
+      domain={['dataMin', 'dataMax']}
+      tickFormatter={formatTime}
+      fontSize={12}
+    />
+  );
+  const markers = periodEnds.map((time) => (
+    <ReferenceLine key={time} x={time} stroke="hsl(var(--muted-foreground))" strokeDasharray="2 4" />
+  ));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">
+          Dashed lines mark {periodicity === 'quarterly' ? 'fiscal quarter' : 'fiscal year'} ends.
+        </p>
+        <select
+          value={range}
+          onChange={(e) => {
+            if (isPriceRange(e.target.value)) {
+              setRange(e.target.value);
+            }
+          }}
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          aria-label="Price range"
+        >
+          {RANGES.map((option) => (
+            <option key={option} value={option}>
+              {option === 'max' ? 'Max' : option.toUpperCase()}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-700">{error}</p>
+      ) : loading && !history ? (
+        <p className="text-sm text-gray-500">Loading price history…</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No price history available.</p>
+      ) : (
+        <>
+          <div className="h-[320px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={rows} margin={{ top: 8, right: 8, bottom: 8, left: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                {xAxis}
+                <YAxis
+                  tickFormatter={(value: number) => formatPerShare(value, displayFormat)}
+                  domain={['auto', 'auto']}
+                  fontSize={12}
+                  width={80}
+                />
+                <Tooltip
+                  labelFormatter={(time: number) => formatTime(time)}
+                  formatter={(value) => (typeof value === 'number' ? formatPerShare(value, displayFormat) : value)}
+                />
+                {markers}
+                <Line dataKey="close" name="Close" stroke="hsl(var(--chart-1))" dot={false} strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {!currenciesMatch ? (
+            <p className="text-sm text-gray-500">
+              Valuation multiples are unavailable: prices are in {history?.currency} but statements are
+              reported in {reportingCurrency}.
+            </p>
+          ) : hasMultiples ? (
+            <div className="h-[260px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={rows} margin={{ top: 8, right: 8, bottom: 8, left: 8 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  {xAxis}
+                  <YAxis
+                    tickFormatter={(value: number) => formatMultiple(value, displayFormat)}
+                    fontSize={12}
+                    width={80}
+                  />
+                  <Tooltip
+                    labelFormatter={(time: number) => formatTime(time)}
+                    formatter={(value) => (typeof value === 'number' ? formatMultiple(value, displayFormat) : value)}
+                  />
+                  <Legend />
+                  {markers}
+                  {MULTIPLES.map((multiple) => (
+                    <Line
+                      key={multiple.key}
+                      dataKey={multiple.key}
+                      name={multiple.label}
+                      stroke={multiple.color}
+                      dot={false}
+                      strokeWidth={2}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Not enough statement history to compute valuation multiples.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PriceChart;
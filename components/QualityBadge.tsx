@@ -0,0 +1,34 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { QUALITY_CHECK_LABELS } from '@/lib/quality';
+import type { QualityFlag } from '@/lib/schema';
+
+interface QualityBadgeProps {
+  flags: QualityFlag[];
+  className?: string;
+}
+
+/**
+ * Inline marker for data-quality flags on a cell or column, red when any flag
+ * is an error. The explanations are in its tooltip. Renders nothing without flags.
+ */
+const QualityBadge: React.FC<QualityBadgeProps> = ({ flags, className }) => {
+  if (flags.length === 0) return null;
+  const error = flags.some((flag) => flag.severity === 'error');
+  const Icon = error ? AlertCircle : AlertTriangle;
+  const explanation = flags.map((flag) => `${QUALITY_CHECK_LABELS[flag.check]}: ${flag.message}`).join('\n');
+
+  return (
+    <span
+      role="img"
+      aria-label={explanation}
+      title={explanation}
+      className={cn('inline-flex shrink-0 align-text-bottom', error ? 'text-red-600' : 'text-amber-600', className)}
+    >
+      <Icon className="h-3.5 w-3.5" />
+    </span>
+  );
+};
+
+export default QualityBadge;
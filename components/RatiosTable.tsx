@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import { DEFAULT_DISPLAY_FORMAT, formatPeriodDate, type DisplayFormat } from '@/lib/format';
+import { formatMetric } from '@/lib/metrics';
+import { RATIO_DEFINITIONS, type RatioSeries } from '@/lib/ratios';
+
+const categories = Array.from(new Set(RATIO_DEFINITIONS.map((definition) => definition.category)));
+
+interface RatiosTableProps {
+  series: RatioSeries;
+  displayFormat?: DisplayFormat;
+}
+
+const RatiosTable: React.FC<RatiosTableProps> = ({ series, displayFormat = DEFAULT_DISPLAY_FORMAT }) => {
+  const dates = Object.keys(series).sort().reverse();
+
+  if (dates.length === 0) {
+    return <p className="text-sm text-gray-500">Not enough statement data to compute ratios.</p>;
+  }
+
+  return (
+    <div className="max-h-[70vh] overflow-auto rounded-md border">
+      <table className="w-full border-separate border-spacing-0 text-sm">
+        <thead>
+          <tr>
+            <th className="sticky left-0 top-0 z-20 border-b bg-background px-3 py-2 text-left font-medium">
+              Ratio
+            </th>
+            {dates.map((date) => (
+              <th
+                key={date}
+                className="sticky top-0 z-10 border-b bg-background px-3 py-2 text-right font-medium whitespace-nowrap"
+              >
+                {formatPeriodDate(date, displayFormat.locale)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {categories.map((category) => (
+            <React.Fragment key={category}>
+              <tr className="font-medium">
+                <td className="sticky left-0 border-b bg-muted px-3 py-2">{category}</td>
+                <td colSpan={dates.length} className="border-b bg-muted" />
+              </tr>
+              {RATIO_DEFINITIONS.filter((definition) => definition.category === category).map((definition) => (
+                <tr key={definition.key} className="hover:bg-muted/30">
+                  <td
+                    className="sticky left-0 border-b bg-background px-3 py-2 pl-8 whitespace-nowrap"
+                    title={definition.description}
+                  >
+                    {definition.label}
+                  </td>
+                  {dates.map((date) => (
+                    <td key={date} className="border-b px-3 py-2 text-right tabular-nums whitespace-nowrap">
+                      {formatMetric(definition, series[date]?.[definition.key] ?? null, displayFormat)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default RatiosTable;
@@ -0,0 +1,289 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Save, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { formatScreenerValue, getScreenerField, SCREENER_FIELDS } from '@/lib/screener/fields';
+import type { SavedScreen, ScreenResult } from '@/lib/screener';
+import { companyPath } from '@/lib/view-state';
+
+const PAGE_SIZE = 25;
+
+const EXAMPLE_SCREEN = 'gross_margin > 0.4 AND debt_to_equity < 50 AND sector = Technology';
+
+interface Query {
+  expression: string;
+  sort: string;
+  descending: boolean;
+  page: number;
+}
+
+const Screener: React.FC = () => {
+  const [expression, setExpression] = useState(EXAMPLE_SCREEN);
+  const [query, setQuery] = useState<Query | null>(null);
+  const [result, setResult] = useState<ScreenResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [screens, setScreens] = useState<SavedScreen[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch('/api/screens', { signal: controller.signal })
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || 'Failed to load saved screens');
+        setScreens((body as { screens: SavedScreen[] }).screens);
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Failed to load saved screens');
+      });
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    if (!query) return;
+    const controller = new AbortController();
+    const params = new URLSearchParams({
+      q: query.expression,
+      sort: query.sort,
+      order: query.descending ? 'desc' : 'asc',
+      page: String(query.page),
+      page_size: String(PAGE_SIZE),
+    });
+    setLoading(true);
+    setError(null);
+
+    fetch(`/api/screen?${params}`, { signal: controller.signal })
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          const at = typeof body.position === 'number' ? ` (at character ${body.position + 1})` : '';
+          throw new Error(`${body.error || 'Failed to run screen'}${at}`);
+        }
+        setResult(body as ScreenResult);
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setResult(null);
+        setError(err instanceof Error ? err.message : 'Failed to run screen');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [query]);
+
+  const run = (nextExpression = expression) =>
+    setQuery((current) => ({
+      expression: nextExpression,
+      sort: current?.sort ?? 'market_cap',
+      descending: current?.descending ?? true,
+      page: 1,
+    }));
+
+  const toggleSort = (key: string) =>
+    setQuery((current) =>
+      current && {
+        ...current,
+        sort: key,
+        descending: current.sort === key ? !current.descending : key !== 'symbol' && key !== 'name',
+        page: 1,
+      }
+    );
+
+  const handleSave = async () => {
+    setError(null);
+    try {
+      const response = await fetch('/api/screens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, expression }),
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || 'Failed to save screen');
+      const saved = body as SavedScreen;
+      setScreens((current) => [...current, saved]);
+      setSelectedId(saved.id);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save screen');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) return;
+    const response = await fetch(`/api/screens/${selectedId}`, { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) {
+      setError('Failed to delete the screen.');
+      return;
+    }
+    setScreens((current) => current.filter((screen) => screen.id !== selectedId));
+    setSelectedId(null);
+  };
+
+  const pageCount = result ? Math.max(1, Math.ceil(result.total / result.page_size)) : 1;
+  const columns = (result?.columns ?? []).flatMap((key) => getScreenerField(key) ?? []);
+
+  const header = (key: string, label: string, align: 'left' | 'right') => (
+    <th
+      key={key}
+      className={cn(
+        'border-b bg-background px-3 py-2 font-medium whitespace-nowrap',
+        align === 'right' ? 'text-right' : 'text-left'
+      )}
+    >
+      <button type="button" onClick={() => toggleSort(key)} className="inline-flex items-center gap-1 hover:underline">
+        {label}
+        {query?.sort === key &&
+          (query.descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          run();
+        }}
+      >
+        <Input
+          value={expression}
+          onChange={(e) => setExpression(e.target.value)}
+          placeholder={EXAMPLE_SCREEN}
+          className="font-mono"
+          aria-label="Screen expression"
+        />
+        <Button type="submit" disabled={!expression.trim() || loading}>
+          <Search className="h-4 w-4 mr-1" />
+          Screen
+        </Button>
+      </form>
+
+      <details className="text-xs text-gray-500">
+        <summary className="cursor-pointer">Fields and syntax</summary>
+        <p className="mt-2">
+          Combine comparisons (<code>= != &lt; &lt;= &gt; &gt;=</code>) with AND, OR, NOT and parentheses. Numbers
+          accept K, M, B and T suffixes; text values may be quoted. Ratios use the latest fiscal year.
+        </p>
+        <p className="mt-2 font-mono">{SCREENER_FIELDS.map((field) => field.key).join(', ')}</p>
+      </details>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedId ?? ''}
+          onChange={(e) => {
+            const screen = screens.find((entry) => entry.id === e.target.value);
+            setSelectedId(screen?.id ?? null);
+            if (screen) {
+              setExpression(screen.expression);
+              run(screen.expression);
+            }
+          }}
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          aria-label="Saved screens"
+        >
+          <option value="">Saved screens…</option>
+          {screens.map((screen) => (
+            <option key={screen.id} value={screen.id}>
+              {screen.name}
+            </option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" onClick={handleDelete} disabled={!selectedId}>
+          <Trash2 className="h-4 w-4 mr-1" />
+          Delete
+        </Button>
+        <Input
+          placeholder="Name this screen"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="h-9 w-48"
+        />
+        <Button variant="outline" size="sm" onClick={handleSave} disabled={!name.trim() || !expression.trim()}>
+          <Save className="h-4 w-4 mr-1" />
+          Save
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {result && (
+        <>
+          <p className="text-xs text-gray-500">
+            {result.total} of {result.universe_size} stored tickers match. The universe grows as tickers are
+            fetched in the viewer.
+          </p>
+          {result.rows.length > 0 && (
+            <div className="overflow-auto rounded-md border">
+              <table className="w-full border-separate border-spacing-0 text-sm">
+                <thead>
+                  <tr>
+                    {header('symbol', 'Symbol', 'left')}
+                    {columns.map((field) => header(field.key, field.label, field.type === 'text' ? 'left' : 'right'))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.map((row) => (
+                    <tr key={row.symbol} className="hover:bg-muted/30">
+                      <td className="border-b px-3 py-2 whitespace-nowrap">
+                        <Link href={companyPath(row.symbol)} className="font-medium hover:underline">
+                          {row.symbol}
+                        </Link>
+                      </td>
+                      {columns.map((field) => (
+                        <td
+                          key={field.key}
+                          className={cn(
+                            'border-b px-3 py-2 whitespace-nowrap',
+                            field.type === 'number' && 'text-right tabular-nums'
+                          )}
+                        >
+                          {formatScreenerValue(field, row.values)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {pageCount > 1 && (
+            <div className="flex items-center justify-end gap-2 text-sm">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={result.page <= 1 || loading}
+                onClick={() => setQuery((current) => current && { ...current, page: current.page - 1 })}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span>
+                Page {result.page} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={result.page >= pageCount || loading}
+                onClick={() => setQuery((current) => current && { ...current, page: current.page + 1 })}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Screener;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { DataSection, SectionStatus } from '@/lib/schema';
+import { hasSectionData, SECTION_LABELS } from '@/lib/sections';
+
+interface SectionNoticeProps {
+  section: DataSection;
+  status: SectionStatus;
+  onRetry?: (section: DataSection) => void;
+  retrying?: boolean;
+  className?: string;
+}
+
+const HEADINGS: Record<SectionStatus['status'], string> = {
+  ok: '',
+  partial: 'incomplete',
+  stale: 'not refreshed',
+  empty: 'unavailable',
+  error: 'failed to load',
+};
+
+/**
+ * Marks a section that is missing or incomplete, with a retry button when the
+ * page can refetch it. Renders nothing for sections that loaded fine.
+ */
+const SectionNotice: React.FC<SectionNoticeProps> = ({ section, status, onRetry, retrying, className }) => {
+  if (status.status === 'ok') return null;
+  const missing = !hasSectionData(status);
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        'flex flex-wrap items-center gap-2 rounded-md border px-3 py-2 text-sm',
+        missing ? 'border-red-200 bg-red-50 text-red-800' : 'border-amber-200 bg-amber-50 text-amber-800',
+        className
+      )}
+    >
+      <AlertTriangle className="h-4 w-4 shrink-0" />
+      <span className="font-medium">
+        {SECTION_LABELS[section]} {HEADINGS[status.status]}
+      </span>
+      {status.message && <span className="text-xs">{status.message}</span>}
+      {onRetry && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto h-7 bg-background"
+          onClick={() => onRetry(section)}
+          disabled={retrying}
+        >
+          <RefreshCw className={cn('h-3 w-3 mr-1', retrying && 'animate-spin')} />
+          {retrying ? 'Retrying…' : 'Retry'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SectionNotice;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface SparklineProps {
+  /** Oldest first; nulls break the line. */
+  values: (number | null)[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+/** Tiny inline trend line. Plain SVG, so it is cheap enough to render on every table row. */
+const Sparkline: React.FC<SparklineProps> = ({ values, width = 64, height = 18, className }) => {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length < 2) return <span className={cn('inline-block', className)} style={{ width, height }} />;
+
+  const min = Math.min(...present);
+  const max = Math.max(...present);
+  const range = max - min || 1;
+  const padding = 2;
+  const step = values.length > 1 ? (width - padding * 2) / (values.length - 1) : 0;
+
+  const x = (index: number) => padding + index * step;
+  const y = (value: number) => height - padding - ((value - min) / range) * (height - padding * 2);
+
+  // Each run of consecutive non-null values becomes its own segment.
+  const segments: string[] = [];
+  let current: string[] = [];
+  values.forEach((value, index) => {
+    if (value === null) {
+      if (current.length > 0) segments.push(current.join(' '));
+      current = [];
+    } else {
+      current.push(`${x(index).toFixed(1)},${y(value).toFixed(1)}`);
+    }
+  });
+  if (current.length > 0) segments.push(current.join(' '));
+
+  const first = present[0];
+  const last = present[present.length - 1];
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={cn(last >= first ? 'text-green-600' : 'text-red-600', className)}
+      aria-hidden="true"
+    >
+      {segments.map((points, index) =>
+        points.includes(' ') ? (
+          <polyline key={index} points={points} fill="none" stroke="currentColor" strokeWidth={1.5} />
+        ) : (
+          <circle key={index} cx={points.split(',')[0]} cy={points.split(',')[1]} r={1} fill="currentColor" />
+        )
+      )}
+    </svg>
+  );
+};
+
+export default Sparkline;
@@ -0,0 +1,580 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronDown,
+  ChevronRight,
+  Search,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_DISPLAY_FORMAT,
+  formatMetricName,
+  formatPercentage,
+  formatPeriodDate,
+  type DisplayFormat,
+} from '@/lib/format';
+import { formatMetric, getLineItemDefinition, type MetricDefinition } from '@/lib/metrics';
+import { CHART_OF_ACCOUNTS } from '@/lib/chart-of-accounts';
+import { getNormalizedLineDefinition, normalizeStatement, type NormalizedLine } from '@/lib/normalize';
+import { alignStatement, lineItemsOf } from '@/lib/periods';
+import { OTHER_GROUP_ID, STATEMENT_GROUPS } from '@/lib/statement-groups';
+import { Button } from '@/components/ui/button';
+import QualityBadge from '@/components/QualityBadge';
+import Sparkline from '@/components/Sparkline';
+import {
+  STATEMENT_TYPES,
+  isStatementType,
+  type FinancialStatements,
+  type FiscalPeriod,
+  type Periodicity,
+  type QualityFlag,
+  type StatementCollection,
+  type StatementGrowth,
+  type StatementType,
+  type Ttm,
+} from '@/lib/schema';
+
+type SortDirection = 'asc' | 'desc';
+
+interface SortState {
+  /** `metric` sorts by line-item name, anything else is a period date. */
+  column: string;
+  direction: SortDirection;
+}
+
+/** Raw shows line items as the provider names them; normalized maps them onto the chart of accounts. */
+type LineMode = 'raw' | 'normalized';
+
+type TableRow =
+  | { kind: 'group'; id: string; label: string; total: string | null; expanded: boolean }
+  | { kind: 'item'; key: string; depth: number };
+
+/** A period, or a placeholder for fiscal periods no statement reports. */
+type Column = { kind: 'period'; period: FiscalPeriod } | { kind: 'gap'; missing: string[] };
+
+interface GroupedItem {
+  key: string;
+  /** 1 directly under a group, deeper for sub-accounts of a normalized line. */
+  depth: number;
+}
+
+interface GroupedItems {
+  id: string;
+  label: string;
+  total: string | null;
+  items: GroupedItem[];
+}
+
+const otherGroup = (items: string[]): GroupedItems[] =>
+  items.length > 0
+    ? [{ id: OTHER_GROUP_ID, label: 'Other', total: null, items: items.sort().map((key) => ({ key, depth: 1 })) }]
+    : [];
+
+const groupLineItems = (statementType: StatementType, lineItems: string[]): GroupedItems[] => {
+  const remaining = new Set(lineItems);
+  const groups: GroupedItems[] = [];
+
+  for (const group of STATEMENT_GROUPS[statementType]) {
+    const total = remaining.delete(group.total) ? group.total : null;
+    const items = group.items.filter((item) => remaining.delete(item));
+    if (total || items.length > 0) {
+      groups.push({ id: group.id, label: group.label, total, items: items.map((key) => ({ key, depth: 1 })) });
+    }
+  }
+
+  return [...groups, ...otherGroup(Array.from(remaining))];
+};
+
+// Every top-level account heads a group, with its sub-accounts nested by depth.
+const groupNormalizedLines = (statementType: StatementType, lines: NormalizedLine[]): GroupedItems[] => {
+  const groups = CHART_OF_ACCOUNTS[statementType]
+    .filter((account) => account.parent === null)
+    .flatMap((account): GroupedItems[] => {
+      const members = lines.filter((line) => line.group === account.key);
+      if (members.length === 0) return [];
+      return [
+        {
+          id: account.key,
+          label: account.label,
+          total: members.some((line) => line.key === account.key) ? account.key : null,
+          items: members
+            .filter((line) => line.key !== account.key)
+            .map((line) => ({ key: line.key, depth: line.depth })),
+        },
+      ];
+    });
+
+  return [...groups, ...otherGroup(lines.filter((line) => !line.mapped).map((line) => line.key))];
+};
+
+// Static classes so Tailwind keeps them; deeper levels share the last indent.
+const INDENT_CLASSES = ['', 'pl-8', 'pl-12', 'pl-16'];
+
+const SortIcon: React.FC<{ direction: SortDirection | null }> = ({ direction }) => {
+  if (direction === null) return <ArrowUpDown className="h-3 w-3 opacity-50" />;
+  return direction === 'desc' ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />;
+};
+
+const matchesQuery = (text: string, query: string, label = formatMetricName(text)) =>
+  text.toLowerCase().includes(query) || label.toLowerCase().includes(query);
+
+const periodTitle = (period: FiscalPeriod, statementType: StatementType): string =>
+  [
+    `Period ended ${period.date}`,
+    period.restated && `Restated: reported as ${period.reported_dates.join(', ')}; the latest figures are shown`,
+    !period.statements.includes(statementType) && `No ${formatMetricName(statementType).toLowerCase()} for this period`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+const cellKey = (date: string, key: string | null) => `${date}|${key ?? ''}`;
+
+interface GrowthCellProps {
+  value: number | null;
+  format: DisplayFormat;
+  className?: string;
+}
+
+const GrowthCell: React.FC<GrowthCellProps> = ({ value, format, className }) => (
+  <td
+    className={cn(
+      'px-3 py-2 text-right tabular-nums whitespace-nowrap',
+      value !== null && value > 0 && 'text-green-700',
+      value !== null && value < 0 && 'text-red-700',
+      className
+    )}
+  >
+    {formatPercentage(value, format)}
+  </td>
+);
+
+interface StatementTableProps {
+  statements: FinancialStatements;
+  /** Periods across all three statements, newest first, so every statement shares the same columns. */
+  periods: FiscalPeriod[];
+  periodicity: Periodicity;
+  statementType: StatementType;
+  onStatementTypeChange: (statementType: StatementType) => void;
+  /** Trailing-twelve-month column, only meaningful alongside quarterly data. */
+  ttm?: Ttm | null;
+  growth?: Record<StatementType, StatementGrowth>;
+  /** Data-quality flags for this periodicity, shown as badges on the cells they concern. */
+  flags?: QualityFlag[];
+  displayFormat?: DisplayFormat;
+}
+
+const StatementTable: React.FC<StatementTableProps> = ({
+  statements,
+  periods,
+  periodicity,
+  statementType,
+  onStatementTypeChange,
+  ttm,
+  growth,
+  flags,
+  displayFormat = DEFAULT_DISPLAY_FORMAT,
+}) => {
+  const [query, setQuery] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [showSynthetic, setShowSynthetic] = useState(false);
+  const [mode, setMode] = useState<LineMode>('raw');
+  const [showFlags, setShowFlags] = useState(false);
+
+  const showTtm = showSynthetic && !!ttm;
+  const showGrowth = showSynthetic && !!growth;
+  const growthColumns = periodicity === 'quarterly' ? ['YoY', 'QoQ', 'CAGR'] : ['YoY', 'CAGR'];
+
+  const aligned = useMemo(
+    () => alignStatement(statements[statementType], periods),
+    [periods, statements, statementType]
+  );
+  const normalized = useMemo(
+    () => (mode === 'normalized' ? normalizeStatement(aligned, statementType) : null),
+    [aligned, mode, statementType]
+  );
+  const linesByKey = useMemo(
+    () => new Map((normalized?.lines ?? []).map((line) => [line.key, line])),
+    [normalized]
+  );
+
+  const statement: StatementCollection = normalized ? normalized.values : aligned;
+  const dates = useMemo(() => periods.map((period) => period.date), [periods]);
+  const columns = useMemo(
+    () =>
+      periods.flatMap((period): Column[] => [
+        { kind: 'period', period },
+        ...(period.missing_before.length > 0 ? [{ kind: 'gap' as const, missing: period.missing_before }] : []),
+      ]),
+    [periods]
+  );
+  const lineItems = useMemo(
+    () => (normalized ? normalized.lines.map((line) => line.key) : lineItemsOf(aligned)),
+    [aligned, normalized]
+  );
+
+  const statementFlags = useMemo(
+    () => (flags ?? []).filter((flag) => flag.statement === statementType),
+    [flags, statementType]
+  );
+  const periodByDate = useMemo(
+    () => new Map(periods.flatMap((period) => period.reported_dates.map((date) => [date, period]))),
+    [periods]
+  );
+  // Flags are keyed by column and row; those without a row of their own sit on the column header.
+  const flagsByCell = useMemo(() => {
+    const rowKeys = new Set(lineItems);
+    const cells = new Map<string, QualityFlag[]>();
+    for (const flag of statementFlags) {
+      const item = flag.line_item;
+      const row = item && normalized ? normalized.lines.find((line) => line.raw_keys.includes(item))?.key : item;
+      const cell = cellKey(periodByDate.get(flag.date)?.date ?? flag.date, row && rowKeys.has(row) ? row : null);
+      cells.set(cell, [...(cells.get(cell) ?? []), flag]);
+    }
+    return cells;
+  }, [lineItems, normalized, periodByDate, statementFlags]);
+  const flagsAt = (date: string, key: string | null) => flagsByCell.get(cellKey(date, key)) ?? [];
+
+  const ttmStatement = useMemo(() => {
+    if (!ttm) return null;
+    if (!normalized) return ttm[statementType];
+    return normalizeStatement({ [ttm.period_end]: ttm[statementType] }, statementType).values[ttm.period_end];
+  }, [normalized, statementType, ttm]);
+
+  const definitionOf = (key: string): MetricDefinition => {
+    const line = linesByKey.get(key);
+    return line ? getNormalizedLineDefinition(line) : getLineItemDefinition(key);
+  };
+  const labelOf = (key: string) => {
+    const line = linesByKey.get(key);
+    return line?.mapped ? line.label : formatMetricName(key);
+  };
+  // Growth is computed on raw line items; a normalized line reads the item it came from.
+  const growthKey = (key: string) => linesByKey.get(key)?.raw_keys[0] ?? key;
+
+  const normalizedQuery = query.trim().toLowerCase();
+
+  const rows = useMemo((): TableRow[] => {
+    const labelFor = (item: string) => linesByKey.get(item)?.label;
+    const visibleItems = normalizedQuery
+      ? lineItems.filter((item) => matchesQuery(item, normalizedQuery, labelFor(item)))
+      : lineItems;
+
+    if (sort) {
+      const direction = sort.direction === 'asc' ? 1 : -1;
+      const sorted = [...visibleItems].sort((a, b) => {
+        if (sort.column === 'metric') return (labelFor(a) ?? a).localeCompare(labelFor(b) ?? b) * direction;
+        const left = statement[sort.column]?.[a] ?? null;
+        const right = statement[sort.column]?.[b] ?? null;
+        // Missing values always sink to the bottom, whichever way we sort.
+        if (left === null) return right === null ? 0 : 1;
+        if (right === null) return -1;
+        return (left - right) * direction;
+      });
+      return sorted.map((key) => ({ kind: 'item', key, depth: 0 }));
+    }
+
+    const visible = new Set(visibleItems);
+    const groups = normalized
+      ? groupNormalizedLines(statementType, normalized.lines)
+      : groupLineItems(statementType, lineItems);
+    return groups.flatMap((group): TableRow[] => {
+      const groupMatches = normalizedQuery !== '' && matchesQuery(group.label, normalizedQuery);
+      const items = groupMatches ? group.items : group.items.filter((item) => visible.has(item.key));
+      const totalVisible = group.total !== null && (groupMatches || visible.has(group.total));
+      if (!totalVisible && items.length === 0 && !groupMatches) return [];
+
+      // While searching, expand every group so matches are never hidden.
+      const expanded = normalizedQuery !== '' || !collapsed.has(group.id);
+      return [
+        { kind: 'group', id: group.id, label: group.label, total: group.total, expanded },
+        ...(expanded ? items.map(({ key, depth }): TableRow => ({ kind: 'item', key, depth })) : []),
+      ];
+    });
+  }, [collapsed, lineItems, linesByKey, normalized, normalizedQuery, sort, statement, statementType]);
+
+  const toggleGroup = (id: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Cycles descending -> ascending -> statement order.
+  const toggleSort = (column: string) => {
+    setSort((current) => {
+      if (current?.column !== column) return { column, direction: 'desc' };
+      if (current.direction === 'desc') return { column, direction: 'asc' };
+      return null;
+    });
+  };
+
+  const trend = (key: string) => [...dates].reverse().map((date) => statement[date]?.[key] ?? null);
+
+  const sortDirection = (column: string) => (sort?.column === column ? sort.direction : null);
+
+  const formatItem = (item: string, value: number | null) => formatMetric(definitionOf(item), value, displayFormat);
+
+  const renderValues = (key: string | null, className?: string) => {
+    const valueClass = cn('px-3 py-2 text-right tabular-nums whitespace-nowrap', className);
+    const lineGrowth = key ? growth?.[statementType]?.[growthKey(key)] : undefined;
+
+    return (
+      <>
+        {showTtm && (
+          <td className={cn(valueClass, 'font-medium')}>
+            {key ? formatItem(key, ttmStatement?.[key] ?? null) : ''}
+          </td>
+        )}
+        {columns.map((column) =>
+          column.kind === 'gap' ? (
+            <td key={`gap-${column.missing[0]}`} className={cn(valueClass, 'bg-amber-50')} />
+          ) : (
+            <td key={column.period.date} className={valueClass}>
+              {key && <QualityBadge flags={flagsAt(column.period.date, key)} className="mr-1" />}
+              {key ? formatItem(key, statement[column.period.date]?.[key] ?? null) : ''}
+            </td>
+          )
+        )}
+        {showGrowth && (
+          <>
+            <GrowthCell value={lineGrowth?.yoy ?? null} format={displayFormat} className={className} />
+            {periodicity === 'quarterly' && (
+              <GrowthCell value={lineGrowth?.qoq ?? null} format={displayFormat} className={className} />
+            )}
+            <GrowthCell value={lineGrowth?.cagr ?? null} format={displayFormat} className={className} />
+          </>
+        )}
+      </>
+    );
+  };
+
+  const syntheticHeaderClass =
+    'sticky top-0 z-10 border-b bg-background px-3 py-2 text-right font-medium whitespace-nowrap';
+  const columnCount = columns.length + 1 + (showTtm ? 1 : 0) + (showGrowth ? growthColumns.length : 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <Tabs
+          value={statementType}
+          onValueChange={(value: string) => {
+            if (isStatementType(value)) {
+              onStatementTypeChange(value);
+            }
+          }}
+        >
+          <TabsList>
+            {STATEMENT_TYPES.map((type) => (
+              <TabsTrigger key={type} value={type}>
+                {formatMetricName(type)}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="flex items-center gap-2">
+          <Tabs
+            value={mode}
+            onValueChange={(value: string) => {
+              if (value === 'raw' || value === 'normalized') {
+                setMode(value);
+                setCollapsed(new Set());
+              }
+            }}
+          >
+            <TabsList>
+              <TabsTrigger value="raw" title="Line items as the provider reports them">
+                Raw
+              </TabsTrigger>
+              <TabsTrigger value="normalized" title="Line items mapped onto a standard chart of accounts">
+                Normalized
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Button
+            variant={showSynthetic ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setShowSynthetic((current) => !current)}
+            aria-pressed={showSynthetic}
+          >
+            {periodicity === 'quarterly' ? 'TTM & Growth' : 'Growth'}
+          </Button>
+          <div className="relative md:w-64">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <Input
+              placeholder="Filter line items"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+        </div>
+      </div>
+
+      {statementFlags.length > 0 && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          <button
+            type="button"
+            onClick={() => setShowFlags((current) => !current)}
+            aria-expanded={showFlags}
+            className="flex items-center gap-2 font-medium"
+          >
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {statementFlags.length} data-quality {statementFlags.length === 1 ? 'flag' : 'flags'}
+            {showFlags ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          </button>
+          {showFlags && (
+            <ul className="mt-2 space-y-1 text-xs">
+              {statementFlags.map((flag, index) => (
+                <li key={index} className="flex gap-2">
+                  <QualityBadge flags={[flag]} />
+                  <span className="font-medium whitespace-nowrap">
+                    {periodByDate.get(flag.date)?.label ?? flag.date}
+                  </span>
+                  <span>{flag.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {Object.keys(aligned).length === 0 ? (
+        <p className="text-sm text-gray-500">No data available for this statement.</p>
+      ) : (
+        <div className="max-h-[70vh] overflow-auto rounded-md border">
+          <table className="w-full border-separate border-spacing-0 text-sm">
+            <thead>
+              <tr>
+                <th className="sticky left-0 top-0 z-20 border-b bg-background px-3 py-2 text-left font-medium">
+                  <button
+                    type="button"
+                    onClick={() => toggleSort('metric')}
+                    className="flex items-center gap-1"
+                  >
+                    Metric
+                    <SortIcon direction={sortDirection('metric')} />
+                  </button>
+                </th>
+                {showTtm && (
+                  <th className={syntheticHeaderClass} title={`Trailing twelve months to ${ttm?.period_end}`}>
+                    TTM
+                  </th>
+                )}
+                {columns.map((column) =>
+                  column.kind === 'gap' ? (
+                    <th
+                      key={`gap-${column.missing[0]}`}
+                      className="sticky top-0 z-10 border-b bg-amber-50 px-2 py-2 text-center text-xs font-medium text-amber-800 whitespace-nowrap"
+                      title={`Not reported: ${column.missing.join(', ')}`}
+                    >
+                      Gap
+                    </th>
+                  ) : (
+                    <th
+                      key={column.period.date}
+                      className="sticky top-0 z-10 border-b bg-background px-3 py-2 text-right font-medium whitespace-nowrap"
+                      title={periodTitle(column.period, statementType)}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => toggleSort(column.period.date)}
+                        className={cn(
+                          'ml-auto flex items-center gap-1',
+                          !column.period.statements.includes(statementType) && 'text-gray-400'
+                        )}
+                      >
+                        {column.period.restated && (
+                          <span className="rounded bg-amber-100 px-1 text-[10px] font-medium text-amber-800">R</span>
+                        )}
+                        {column.period.label}
+                        <SortIcon direction={sortDirection(column.period.date)} />
+                      </button>
+                      <div className="flex items-center justify-end gap-1 text-xs font-normal text-gray-500">
+                        <QualityBadge flags={flagsAt(column.period.date, null)} />
+                        {formatPeriodDate(column.period.date, displayFormat.locale)}
+                      </div>
+                    </th>
+                  )
+                )}
+                {showGrowth &&
+                  growthColumns.map((column) => (
+                    <th key={column} className={syntheticHeaderClass}>
+                      {column}
+                    </th>
+                  ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) =>
+                row.kind === 'group' ? (
+                  <tr key={`group-${row.id}`} className="bg-muted/50 font-medium">
+                    <td className="sticky left-0 border-b bg-muted px-3 py-2">
+                      <div className="flex items-center gap-3">
+                        <button
+                          type="button"
+                          onClick={() => toggleGroup(row.id)}
+                          aria-expanded={row.expanded}
+                          className="flex items-center gap-1 text-left"
+                        >
+                          {row.expanded ? (
+                            <ChevronDown className="h-4 w-4 shrink-0" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4 shrink-0" />
+                          )}
+                          {row.label}
+                        </button>
+                        {row.total && <Sparkline values={trend(row.total)} className="ml-auto" />}
+                      </div>
+                    </td>
+                    {renderValues(row.total, 'border-b')}
+                  </tr>
+                ) : (
+                  <tr key={row.key} className="hover:bg-muted/30">
+                    <td
+                      className={cn(
+                        'sticky left-0 border-b bg-background px-3 py-2 whitespace-nowrap',
+                        INDENT_CLASSES[Math.min(row.depth, INDENT_CLASSES.length - 1)]
+                      )}
+                    >
+                      <span
+                        className="flex items-center justify-between gap-3"
+                        title={definitionOf(row.key).description || undefined}
+                      >
+                        {labelOf(row.key)}
+                        <Sparkline values={trend(row.key)} />
+                      </span>
+                    </td>
+                    {renderValues(row.key, 'border-b')}
+                  </tr>
+                )
+              )}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={columnCount} className="px-3 py-6 text-center text-gray-500">
+                    No line items match &ldquo;{query}&rdquo;.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatementTable;
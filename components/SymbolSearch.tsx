@@ -0,0 +1,229 @@
+'use client';
+
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { Clock, Loader2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import type { SearchMatch, SearchResults } from '@/lib/schema';
+import { MAX_SEARCH_QUERY_LENGTH } from '@/lib/search';
+import { isValidSymbol } from '@/lib/symbols';
+
+const RECENT_STORAGE_KEY = 'financial-viewer:recent-searches';
+const MAX_RECENT = 8;
+const DEBOUNCE_MS = 250;
+
+const isSearchMatch = (value: unknown): value is SearchMatch =>
+  typeof value === 'object' && value !== null && typeof (value as { symbol?: unknown }).symbol === 'string';
+
+function readRecent(): SearchMatch[] {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(RECENT_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isSearchMatch).slice(0, MAX_RECENT) : [];
+  } catch {
+    return [];
+  }
+}
+
+function rememberRecent(match: SearchMatch): SearchMatch[] {
+  const recent = [match, ...readRecent().filter((entry) => entry.symbol !== match.symbol)].slice(0, MAX_RECENT);
+  try {
+    window.localStorage.setItem(RECENT_STORAGE_KEY, JSON.stringify(recent));
+  } catch {
+    // Storage can be full or disabled; recents are a convenience only.
+  }
+  return recent;
+}
+
+interface SymbolSearchProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called with the chosen match's symbol, or the raw input when nothing is highlighted. */
+  onSubmit: (symbol: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * A ticker box that suggests listings from `/api/search` as you type. Arrow
+ * keys move through the suggestions, Enter opens the highlighted one (or the
+ * text as typed) and Escape closes the list. With an empty box the list shows
+ * recent searches instead.
+ */
+const SymbolSearch: React.FC<SymbolSearchProps> = ({
+  value,
+  onChange,
+  onSubmit,
+  placeholder = 'Search by symbol, company or ISIN',
+  disabled,
+  className,
+}) => {
+  const listboxId = useId();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [open, setOpen] = useState(false);
+  const [matches, setMatches] = useState<SearchMatch[]>([]);
+  const [recent, setRecent] = useState<SearchMatch[]>([]);
+  const [highlighted, setHighlighted] = useState(-1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setRecent(readRecent()), []);
+
+  const query = value.trim();
+  useEffect(() => {
+    if (!query || query.length > MAX_SEARCH_QUERY_LENGTH) {
+      setMatches([]);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setLoading(true);
+      fetch(`/api/search?q=${encodeURIComponent(query)}`, { signal: controller.signal })
+        .then(async (response) => {
+          const body = await response.json();
+          if (!response.ok) throw new Error(body.error || 'Search failed');
+          setMatches((body as SearchResults).matches);
+          setError(null);
+        })
+        .catch((err: unknown) => {
+          if (controller.signal.aborted) return;
+          setMatches([]);
+          setError(err instanceof Error ? err.message : 'Search failed');
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setLoading(false);
+        });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const showingRecent = !query;
+  const options = showingRecent ? recent : matches;
+  const expanded = open && (options.length > 0 || (!showingRecent && (loading || error !== null)));
+
+  useEffect(() => setHighlighted(-1), [options]);
+
+  const choose = (symbol: string, match?: SearchMatch) => {
+    const chosen = symbol.trim().toUpperCase();
+    if (!chosen) return;
+    if (isValidSymbol(chosen)) {
+      setRecent(rememberRecent(match ?? { symbol: chosen, name: null, exchange: null, type: null }));
+    }
+    setOpen(false);
+    onChange(chosen);
+    onSubmit(chosen);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setOpen(true);
+        setHighlighted((current) => (options.length === 0 ? -1 : (current + 1) % options.length));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setOpen(true);
+        setHighlighted((current) => (options.length === 0 ? -1 : current <= 0 ? options.length - 1 : current - 1));
+        break;
+      case 'Enter': {
+        event.preventDefault();
+        const match = expanded ? options[highlighted] : undefined;
+        if (match) choose(match.symbol, match);
+        else choose(value);
+        break;
+      }
+      case 'Escape':
+        if (expanded) {
+          event.preventDefault();
+          setOpen(false);
+        }
+        break;
+    }
+  };
+
+  const optionId = (index: number) => `${listboxId}-option-${index}`;
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn('relative flex-1', className)}
+      onBlur={(e) => {
+        if (!containerRef.current?.contains(e.relatedTarget)) setOpen(false);
+      }}
+    >
+      <Input
+        role="combobox"
+        aria-expanded={expanded}
+        aria-controls={listboxId}
+        aria-autocomplete="list"
+        aria-activedescendant={expanded && highlighted >= 0 ? optionId(highlighted) : undefined}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+        autoComplete="off"
+        spellCheck={false}
+      />
+      {loading && <Loader2 className="absolute right-2 top-2.5 h-4 w-4 animate-spin text-gray-400" />}
+
+      <ul
+        id={listboxId}
+        role="listbox"
+        aria-label={showingRecent ? 'Recent searches' : 'Matching symbols'}
+        className={cn(
+          'absolute z-20 mt-1 max-h-80 w-full overflow-auto rounded-md border bg-background py-1 text-sm shadow-md',
+          !expanded && 'hidden'
+        )}
+      >
+        {showingRecent && options.length > 0 && (
+          <li role="presentation" className="px-3 py-1 text-xs text-gray-500">
+            Recent searches
+          </li>
+        )}
+        {options.map((match, index) => (
+          <li
+            key={match.symbol}
+            id={optionId(index)}
+            role="option"
+            aria-selected={index === highlighted}
+            // Keep focus in the input so the blur handler does not close the list first.
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => choose(match.symbol, match)}
+            onMouseEnter={() => setHighlighted(index)}
+            className={cn(
+              'flex cursor-pointer items-center gap-2 px-3 py-1.5',
+              index === highlighted && 'bg-muted'
+            )}
+          >
+            {showingRecent && <Clock className="h-3 w-3 shrink-0 text-gray-400" />}
+            <span className="font-medium">{match.symbol}</span>
+            <span className="truncate text-gray-500">{match.name}</span>
+            <span className="ml-auto shrink-0 text-xs text-gray-400">
+              {[match.exchange, match.type].filter(Boolean).join(' · ')}
+            </span>
+          </li>
+        ))}
+        {!showingRecent && !loading && error && (
+          <li role="presentation" className="px-3 py-1.5 text-red-700">
+            {error}
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default SymbolSearch;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+
+/** Placeholder with the layout of FinancialViewer while a company loads. */
+const ViewerSkeleton: React.FC = () => (
+  <div className="space-y-6" aria-busy="true" aria-label="Loading financial data">
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <Skeleton className="h-7 w-64" />
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {Array.from({ length: 4 }, (_, index) => (
+            <div key={index} className="space-y-2">
+              <Skeleton className="h-4 w-16" />
+              <Skeleton className="h-5 w-28" />
+            </div>
+          ))}
+        </div>
+        <Skeleton className="h-12 w-full" />
+      </CardContent>
+    </Card>
+
+    <div className="grid md:grid-cols-2 gap-4">
+      {Array.from({ length: 4 }, (_, index) => (
+        <Card key={index}>
+          <CardContent className="p-4 space-y-3">
+            <Skeleton className="h-5 w-32" />
+            <div className="grid grid-cols-2 gap-3">
+              {Array.from({ length: 4 }, (_, cell) => (
+                <Skeleton key={cell} className="h-9 w-full" />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+
+    <Card>
+      <CardContent className="p-4 space-y-2">
+        <Skeleton className="h-9 w-80 mb-4" />
+        {Array.from({ length: 8 }, (_, index) => (
+          <Skeleton key={index} className="h-6 w-full" />
+        ))}
+      </CardContent>
+    </Card>
+  </div>
+);
+
+export default ViewerSkeleton;
@@ -0,0 +1,354 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { ArrowDown, ArrowUp, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { DEFAULT_DISPLAY_FORMAT } from '@/lib/format';
+import { formatMetric, getMetricDefinition } from '@/lib/metrics';
+import { connectWatchlistClient, type WatchlistClient } from '@/lib/watchlists/client';
+import type { Watchlist } from '@/lib/watchlists/store';
+import type { BatchResponse, BatchResult } from '@/lib/batch';
+import { companyPath } from '@/lib/view-state';
+
+const METRIC_COLUMNS = [
+  'market_cap',
+  'pe_ratio',
+  'gross_margin',
+  'operating_margin',
+  'profit_margin',
+  'revenue_growth',
+  'earnings_growth',
+].map(getMetricDefinition);
+
+// Matches the batch limit of /api/financial?symbols=.
+const BATCH_SIZE = 6;
+
+interface Sort {
+  /** `symbol`, or a metric key. */
+  key: string;
+  descending: boolean;
+}
+
+const metricValue = (result: BatchResult | undefined, key: string): number | null => {
+  if (result?.status !== 'ok') return null;
+  const group = Object.values(result.data.metrics).find((metrics) => key in metrics);
+  return group?.[key] ?? null;
+};
+
+const chunk = <T,>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+interface SortHeaderProps {
+  sortKey: string;
+  label: string;
+  title?: string;
+  align?: 'left' | 'right';
+  sort: Sort;
+  onSort: (key: string) => void;
+}
+
+const SortHeader: React.FC<SortHeaderProps> = ({ sortKey, label, title, align = 'right', sort, onSort }) => (
+  <th
+    className={cn(
+      'border-b bg-background px-3 py-2 font-medium whitespace-nowrap',
+      align === 'right' ? 'text-right' : 'text-left'
+    )}
+    title={title}
+  >
+    <button type="button" onClick={() => onSort(sortKey)} className="inline-flex items-center gap-1 hover:underline">
+      {label}
+      {sort.key === sortKey && (sort.descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+    </button>
+  </th>
+);
+
+const WatchlistDashboard: React.FC = () => {
+  const [client, setClient] = useState<WatchlistClient | null>(null);
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [results, setResults] = useState<Record<string, BatchResult>>({});
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshedAt, setRefreshedAt] = useState<Date | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newSymbols, setNewSymbols] = useState('');
+  const [sort, setSort] = useState<Sort>({ key: 'market_cap', descending: true });
+  const [error, setError] = useState<string | null>(null);
+  // Symbols fetched or being fetched, so selecting a list only fetches what it adds.
+  const requested = useRef(new Set<string>());
+
+  const selected = watchlists.find((watchlist) => watchlist.id === selectedId) ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+    connectWatchlistClient()
+      .then(async (connected) => {
+        const loaded = await connected.list();
+        if (cancelled) return;
+        setClient(connected);
+        setWatchlists(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load watchlists');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const refresh = useCallback(async (symbols: string[]) => {
+    if (symbols.length === 0) return;
+    symbols.forEach((symbol) => requested.current.add(symbol));
+    const received = new Set<string>();
+    setRefreshing(true);
+    setError(null);
+    try {
+      // Batches run one after another so a long list does not flood the provider queue.
+      for (const batch of chunk(symbols, BATCH_SIZE)) {
+        const response = await fetch(`/api/financial?symbols=${encodeURIComponent(batch.join(','))}`);
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || 'Failed to fetch data');
+        const fetched = (body as BatchResponse).results;
+        fetched.forEach((result) => received.add(result.symbol));
+        setResults((current) => ({
+          ...current,
+          ...Object.fromEntries(fetched.map((result) => [result.symbol, result])),
+        }));
+      }
+      setRefreshedAt(new Date());
+    } catch (err) {
+      // Let the next selection retry whatever never came back.
+      symbols.filter((symbol) => !received.has(symbol)).forEach((symbol) => requested.current.delete(symbol));
+      setError(err instanceof Error ? err.message : 'Failed to fetch data');
+    } finally {
+      setRefreshing(false);
+    }
+  }, []);
+
+  const selectedSymbols = selected?.symbols;
+  useEffect(() => {
+    if (!selectedSymbols) return;
+    const missing = selectedSymbols.filter((symbol) => !requested.current.has(symbol));
+    if (missing.length > 0) refresh(missing);
+  }, [selectedSymbols, refresh]);
+
+  const replace = (watchlist: Watchlist) =>
+    setWatchlists((current) => current.map((entry) => (entry.id === watchlist.id ? watchlist : entry)));
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Watchlist update failed');
+    }
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      if (!client) return;
+      const created = await client.create({ name: newName.trim(), symbols: [] });
+      setWatchlists((current) => [...current, created]);
+      setSelectedId(created.id);
+      setNewName('');
+    });
+
+  const handleDelete = () =>
+    run(async () => {
+      if (!client || !selected) return;
+      await client.delete(selected.id);
+      const remaining = watchlists.filter((watchlist) => watchlist.id !== selected.id);
+      setWatchlists(remaining);
+      setSelectedId(remaining[0]?.id ?? null);
+    });
+
+  const handleAddSymbols = () =>
+    run(async () => {
+      if (!client || !selected) return;
+      const added = newSymbols
+        .split(',')
+        .map((symbol) => symbol.trim().toUpperCase())
+        .filter(Boolean);
+      const symbols = Array.from(new Set([...selected.symbols, ...added]));
+      replace(await client.update(selected.id, { name: selected.name, symbols }));
+      setNewSymbols('');
+    });
+
+  const handleRemoveSymbol = (symbol: string) =>
+    run(async () => {
+      if (!client || !selected) return;
+      const symbols = selected.symbols.filter((entry) => entry !== symbol);
+      replace(await client.update(selected.id, { name: selected.name, symbols }));
+    });
+
+  const rows = useMemo(() => {
+    const symbols = [...(selected?.symbols ?? [])];
+    const direction = sort.descending ? -1 : 1;
+
+    return symbols.sort((a, b) => {
+      if (sort.key === 'symbol') return a.localeCompare(b) * direction;
+      const left = metricValue(results[a], sort.key);
+      const right = metricValue(results[b], sort.key);
+      // Missing values sort last in either direction.
+      if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+      return (left - right) * direction;
+    });
+  }, [results, selected, sort]);
+
+  const toggleSort = (key: string) =>
+    setSort((current) =>
+      current.key === key ? { key, descending: !current.descending } : { key, descending: key !== 'symbol' }
+    );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedId ?? ''}
+          onChange={(e) => setSelectedId(e.target.value || null)}
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          aria-label="Watchlist"
+          disabled={watchlists.length === 0}
+        >
+          {watchlists.length === 0 && <option value="">No watchlists yet</option>}
+          {watchlists.map((watchlist) => (
+            <option key={watchlist.id} value={watchlist.id}>
+              {watchlist.name} ({watchlist.symbols.length})
+            </option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" onClick={handleDelete} disabled={!selected}>
+          <Trash2 className="h-4 w-4 mr-1" />
+          Delete
+        </Button>
+        <Input
+          placeholder="New watchlist name"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          className="h-9 w-48"
+        />
+        <Button variant="outline" size="sm" onClick={handleCreate} disabled={!client || !newName.trim()}>
+          <Plus className="h-4 w-4 mr-1" />
+          Create
+        </Button>
+        {client && (
+          <span className="text-xs text-gray-500">
+            {client.storage === 'server' ? 'Saved on the server' : 'Saved in this browser'}
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {selected && (
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <h2 className="text-lg font-bold mr-auto">{selected.name}</h2>
+              <Input
+                placeholder="Add symbols (e.g. AAPL, MSFT)"
+                value={newSymbols}
+                onChange={(e) => setNewSymbols(e.target.value)}
+                className="h-9 w-64"
+              />
+              <Button variant="outline" size="sm" onClick={handleAddSymbols} disabled={!newSymbols.trim()}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => refresh(selected.symbols)}
+                disabled={refreshing || selected.symbols.length === 0}
+              >
+                <RefreshCw className={cn('h-4 w-4 mr-1', refreshing && 'animate-spin')} />
+                Refresh all
+              </Button>
+            </div>
+            {refreshedAt && (
+              <p className="text-xs text-gray-500">Last refreshed {refreshedAt.toLocaleTimeString()}</p>
+            )}
+
+            {rows.length === 0 ? (
+              <p className="text-sm text-gray-500">Add symbols to start tracking them.</p>
+            ) : (
+              <div className="overflow-auto rounded-md border">
+                <table className="w-full border-separate border-spacing-0 text-sm">
+                  <thead>
+                    <tr>
+                      <SortHeader sortKey="symbol" label="Symbol" align="left" sort={sort} onSort={toggleSort} />
+                      {METRIC_COLUMNS.map((definition) => (
+                        <SortHeader
+                          key={definition.key}
+                          sortKey={definition.key}
+                          label={definition.label}
+                          title={definition.description}
+                          sort={sort}
+                          onSort={toggleSort}
+                        />
+                      ))}
+                      <th className="border-b bg-background px-3 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((symbol) => {
+                      const result = results[symbol];
+                      const format = {
+                        ...DEFAULT_DISPLAY_FORMAT,
+                        currency:
+                          (result?.status === 'ok' && result.data.company_info.trading_currency) || 'USD',
+                      };
+
+                      return (
+                        <tr key={symbol} className="hover:bg-muted/30">
+                          <td className="border-b px-3 py-2 whitespace-nowrap">
+                            <Link href={companyPath(symbol)} className="font-medium hover:underline">
+                              {symbol}
+                            </Link>
+                            {result?.status === 'ok' && (
+                              <span className="ml-2 text-gray-500">{result.data.company_info.name}</span>
+                            )}
+                          </td>
+                          {result?.status === 'error' ? (
+                            <td colSpan={METRIC_COLUMNS.length} className="border-b px-3 py-2 text-red-700">
+                              {result.error.error}
+                            </td>
+                          ) : (
+                            METRIC_COLUMNS.map((definition) => (
+                              <td
+                                key={definition.key}
+                                className="border-b px-3 py-2 text-right tabular-nums whitespace-nowrap"
+                              >
+                                {result ? formatMetric(definition, metricValue(result, definition.key), format) : '…'}
+                              </td>
+                            ))
+                          )}
+                          <td className="border-b px-1 py-2 text-right">
+                            <button
+                              type="button"
+                              onClick={() => handleRemoveSymbol(symbol)}
+                              className="rounded p-1 text-gray-400 hover:text-gray-700"
+                              aria-label={`Remove ${symbol}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default WatchlistDashboard;
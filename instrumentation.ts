@@ -0,0 +1,8 @@
+/** Runs once when the server starts. */
+export async function register() {
+  // The alert schedule needs timers and the file system, so it only runs in the Node.js runtime.
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startAlertSchedule } = await import('@/lib/alerts');
+    startAlertSchedule();
+  }
+}
@@ -0,0 +1,120 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { AlertChannelName } from '@/lib/schema';
+import { processSingleton } from '@/lib/singleton';
+import type { AlertDelivery, AlertNotification } from './store';
+
+/**
+ * A way of delivering notifications. Every notification is in the log
+ * regardless; channels deliver a copy elsewhere. `deliver` throws when
+ * delivery fails and resolves to `skipped` when the channel is not set up.
+ */
+export interface AlertChannel {
+  readonly name: AlertChannelName;
+  /** Where deliveries currently go, for display. */
+  describe(): string;
+  deliver(notification: AlertNotification): Promise<Omit<AlertDelivery, 'channel'>>;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * The local stand-in for webhook and email delivery: writes what would have
+ * been sent to `ALERT_OUTBOX_DIR/<channel>/`, or logs it when that is unset.
+ */
+async function writeToOutbox(channel: AlertChannelName, fileName: string, content: string): Promise<string> {
+  const directory = process.env.ALERT_OUTBOX_DIR;
+  if (!directory) {
+    console.info(`[alerts:${channel}]\n${content}`);
+    return 'Logged to the server console';
+  }
+  const filePath = path.join(directory, channel, fileName);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, content, 'utf8');
+  return `Written to ${filePath}`;
+}
+
+const inAppChannel: AlertChannel = {
+  name: 'in_app',
+  describe: () => 'Notification log',
+  deliver: async () => ({ status: 'sent', detail: 'Added to the notification log' }),
+};
+
+/** POSTs the notification as JSON to `ALERT_WEBHOOK_URL`, or to the outbox without one. */
+const webhookChannel: AlertChannel = {
+  name: 'webhook',
+  describe: () => process.env.ALERT_WEBHOOK_URL || 'Local outbox (ALERT_WEBHOOK_URL is not set)',
+  async deliver(notification) {
+    const body = JSON.stringify(notification, null, 2);
+    const url = process.env.ALERT_WEBHOOK_URL;
+    if (!url) {
+      return { status: 'sent', detail: await writeToOutbox('webhook', `${notification.id}.json`, body) };
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`${url} responded with ${response.status}`);
+    return { status: 'sent', detail: `Posted to ${url}` };
+  },
+};
+
+/**
+ * Renders the notification as a plain-text message to `ALERT_EMAIL_TO`. No
+ * mail transport is built in, so messages go to the outbox as `.eml` files;
+ * register a channel named `email` to send them through SMTP or a mail API.
+ */
+const emailChannel: AlertChannel = {
+  name: 'email',
+  describe: () =>
+    process.env.ALERT_EMAIL_TO ? `Outbox for ${process.env.ALERT_EMAIL_TO}` : 'Not set up (ALERT_EMAIL_TO is not set)',
+  async deliver(notification) {
+    const to = process.env.ALERT_EMAIL_TO;
+    if (!to) return { status: 'skipped', detail: 'ALERT_EMAIL_TO is not set' };
+
+    const message = [
+      `From: ${process.env.ALERT_EMAIL_FROM || 'alerts@localhost'}`,
+      `To: ${to}`,
+      `Subject: ${notification.rule_name}: ${notification.symbol}`,
+      `Date: ${new Date(notification.triggered_at).toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      notification.message,
+      '',
+    ].join('\r\n');
+    return { status: 'sent', detail: await writeToOutbox('email', `${notification.id}.eml`, message) };
+  },
+};
+
+const getChannels = () =>
+  processSingleton(
+    'alert-channels',
+    () =>
+      new Map<AlertChannelName, AlertChannel>(
+        [inAppChannel, webhookChannel, emailChannel].map((channel) => [channel.name, channel])
+      )
+  );
+
+/** Replaces the built-in channel of the same name, e.g. with a real mail transport. */
+export function registerAlertChannel(channel: AlertChannel): void {
+  getChannels().set(channel.name, channel);
+}
+
+export const listAlertChannels = (): AlertChannel[] => Array.from(getChannels().values());
+
+/** Delivers through one channel, recording a failure instead of throwing it. */
+export async function deliverAlert(
+  channelName: AlertChannelName,
+  notification: AlertNotification
+): Promise<AlertDelivery> {
+  const channel = getChannels().get(channelName);
+  if (!channel) return { channel: channelName, status: 'skipped', detail: 'No channel registered' };
+  try {
+    return { channel: channelName, ...(await channel.deliver(notification)) };
+  } catch (error) {
+    return { channel: channelName, status: 'failed', detail: error instanceof Error ? error.message : String(error) };
+  }
+}
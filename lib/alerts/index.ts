@@ -0,0 +1,205 @@
+import { randomUUID } from 'crypto';
+import { fetchInBatches } from '@/lib/batch';
+import { readNumberEnv } from '@/lib/env';
+import { AlertRuleNotFoundError } from '@/lib/errors';
+import { getFinancialDataProvider } from '@/lib/providers';
+import type { AlertChannelName, AlertRuleInput } from '@/lib/schema';
+import { processSingleton } from '@/lib/singleton';
+import { deliverAlert } from './channels';
+import { assertAlertField, evaluateAlertRule } from './rules';
+import {
+  createFileAlertStore,
+  createMemoryAlertStore,
+  type AlertDelivery,
+  type AlertNotification,
+  type AlertRule,
+  type AlertStore,
+} from './store';
+
+export type { AlertChannel } from './channels';
+export { listAlertChannels, registerAlertChannel } from './channels';
+export type {
+  AlertDelivery,
+  AlertDeliveryStatus,
+  AlertNotification,
+  AlertRule,
+  AlertRuleState,
+  AlertStore,
+} from './store';
+export { createFileAlertStore, createMemoryAlertStore } from './store';
+
+const config = {
+  // At least one, or pruning would keep nothing.
+  maxNotifications: Math.max(1, readNumberEnv(process.env.ALERT_MAX_NOTIFICATIONS, 500)),
+  evaluationInterval: readNumberEnv(process.env.ALERT_EVALUATION_INTERVAL, 0),
+};
+
+const getStore = (): AlertStore =>
+  processSingleton('alerts', () => {
+    const directory = process.env.ALERT_STORE_DIR;
+    return directory ? createFileAlertStore(directory) : createMemoryAlertStore();
+  });
+
+export const listAlertRules = () => getStore().listRules();
+
+export async function getAlertRule(id: string): Promise<AlertRule> {
+  const rule = (await getStore().listRules()).find((entry) => entry.id === id);
+  if (!rule) throw new AlertRuleNotFoundError(id);
+  return rule;
+}
+
+export async function createAlertRule(input: AlertRuleInput): Promise<AlertRule> {
+  assertAlertField(input);
+  const now = new Date().toISOString();
+  const rule: AlertRule = { id: randomUUID(), ...input, created_at: now, updated_at: now, state: {} };
+  await getStore().saveRule(rule);
+  return rule;
+}
+
+/**
+ * Replaces a rule's settings. The state of symbols still on the rule is kept
+ * while the field and condition stay the same, so saving an unrelated edit
+ * does not raise the same notifications again.
+ */
+export async function updateAlertRule(id: string, input: AlertRuleInput): Promise<AlertRule> {
+  assertAlertField(input);
+  const current = await getAlertRule(id);
+  const sameCondition =
+    current.field === input.field && JSON.stringify(current.condition) === JSON.stringify(input.condition);
+  const state = sameCondition
+    ? Object.fromEntries(Object.entries(current.state).filter(([symbol]) => input.symbols.includes(symbol)))
+    : {};
+  const rule: AlertRule = { ...current, ...input, state, updated_at: new Date().toISOString() };
+  await getStore().saveRule(rule);
+  return rule;
+}
+
+export async function deleteAlertRule(id: string): Promise<void> {
+  if (!(await getStore().deleteRule(id))) throw new AlertRuleNotFoundError(id);
+}
+
+export async function listAlertNotifications(unreadOnly = false): Promise<AlertNotification[]> {
+  const notifications = await getStore().listNotifications();
+  return unreadOnly ? notifications.filter((notification) => !notification.read) : notifications;
+}
+
+/** Marks the given notifications read, or every one when `ids` is null. */
+export const markAlertNotificationsRead = (ids: string[] | null) => getStore().markRead(ids);
+
+export interface AlertRun {
+  evaluated_at: string;
+  /** Rules that were evaluated. */
+  rules: number;
+  /** Symbols fetched for them. */
+  symbols: number;
+  /** Notifications raised by this run, after delivery. */
+  notifications: AlertNotification[];
+  /** Symbols whose data could not be fetched; their rules keep their previous state. */
+  errors: { symbol: string; error: string }[];
+}
+
+async function deliver(notification: AlertNotification, channels: AlertChannelName[]): Promise<AlertNotification> {
+  const deliveries = await Promise.all(channels.map((channel) => deliverAlert(channel, notification)));
+  return { ...notification, deliveries };
+}
+
+async function runEvaluation(ruleId?: string): Promise<AlertRun> {
+  const store = getStore();
+  const rules = ruleId ? [await getAlertRule(ruleId)] : (await store.listRules()).filter((rule) => rule.enabled);
+  const symbols = Array.from(new Set(rules.flatMap((rule) => rule.symbols)));
+  const evaluatedAt = new Date().toISOString();
+
+  const results = await fetchInBatches(getFinancialDataProvider(), symbols);
+  const bySymbol = new Map(results.map((result) => [result.symbol, result]));
+
+  const raised: AlertNotification[] = [];
+  for (const rule of rules) {
+    const state = { ...rule.state };
+    for (const symbol of rule.symbols) {
+      const result = bySymbol.get(symbol);
+      if (result?.status !== 'ok') continue;
+
+      const evaluation = evaluateAlertRule(rule, result.data);
+      const previous = state[symbol];
+      // Missing data says nothing about the condition, so it does not re-arm the rule.
+      const triggered = evaluation.value === null ? (previous?.triggered ?? false) : evaluation.triggered;
+      state[symbol] = { triggered, value: evaluation.value, evaluated_at: evaluatedAt };
+
+      if (triggered && !previous?.triggered && evaluation.value !== null) {
+        const notification: AlertNotification = {
+          id: randomUUID(),
+          rule_id: rule.id,
+          rule_name: rule.name,
+          symbol,
+          field: rule.field,
+          value: evaluation.value,
+          message: evaluation.message,
+          triggered_at: evaluatedAt,
+          read: false,
+          deliveries: [],
+        };
+        raised.push(await deliver(notification, rule.channels));
+      }
+    }
+    await store.saveRuleState(rule.id, state);
+  }
+
+  if (raised.length > 0) await store.appendNotifications(raised, config.maxNotifications);
+
+  return {
+    evaluated_at: evaluatedAt,
+    rules: rules.length,
+    symbols: symbols.length,
+    notifications: raised,
+    errors: results.flatMap((result) =>
+      result.status === 'error' ? [{ symbol: result.symbol, error: result.error.error }] : []
+    ),
+  };
+}
+
+/**
+ * Evaluates every enabled rule, or only `ruleId` whether enabled or not,
+ * against freshly fetched data. A rule notifies once when a symbol starts
+ * meeting its condition and again only after the symbol has stopped meeting
+ * it. Runs never overlap, so rule states move one run at a time.
+ */
+export function evaluateAlerts(ruleId?: string): Promise<AlertRun> {
+  const runs = processSingleton('alert-runs', () => ({ last: Promise.resolve() as Promise<unknown> }));
+  const run = runs.last.then(() => runEvaluation(ruleId));
+  runs.last = run.catch(() => undefined);
+  return run;
+}
+
+/** Sends a sample notification through one channel, without logging it. */
+export function sendTestAlert(channel: AlertChannelName): Promise<AlertDelivery> {
+  return deliverAlert(channel, {
+    id: `test-${randomUUID()}`,
+    rule_id: 'test',
+    rule_name: 'Test alert',
+    symbol: 'TEST',
+    field: 'debt_to_equity',
+    value: 0,
+    message: 'This is a test notification from the financial viewer.',
+    triggered_at: new Date().toISOString(),
+    read: false,
+    deliveries: [],
+  });
+}
+
+/**
+ * Evaluates all rules every `ALERT_EVALUATION_INTERVAL` seconds; unset or 0
+ * leaves evaluation to `POST /api/alerts/evaluate`. Safe to call more than once.
+ */
+export function startAlertSchedule(): void {
+  if (config.evaluationInterval <= 0) return;
+  processSingleton('alert-schedule', () => {
+    const timer = setInterval(() => {
+      evaluateAlerts().catch((error) => {
+        console.error('Scheduled alert evaluation failed:', error);
+      });
+    }, config.evaluationInterval * 1000);
+    // Never keep the process alive just for alerts.
+    timer.unref?.();
+    return timer;
+  });
+}
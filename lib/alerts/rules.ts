@@ -0,0 +1,150 @@
+import type { EnrichedFinancialData } from '@/lib/enrich';
+import { InvalidAlertRuleError } from '@/lib/errors';
+import { DEFAULT_DISPLAY_FORMAT, type DisplayFormat } from '@/lib/format';
+import { formatMetric, type MetricDefinition } from '@/lib/metrics';
+import { RATIO_DEFINITIONS } from '@/lib/ratios';
+import type { AlertCondition, AlertOperator, AlertRuleInput } from '@/lib/schema';
+import { buildScreenerValues, getScreenerField } from '@/lib/screener/fields';
+
+const OPERATOR_LABELS: Record<AlertOperator, string> = {
+  '>': 'above',
+  '>=': 'at or above',
+  '<': 'below',
+  '<=': 'at or below',
+};
+
+const RELATIVE_CHANGE: MetricDefinition = {
+  key: 'relative_change',
+  label: 'Change',
+  kind: 'percent',
+  description: 'Change as a share of the older value.',
+  higherIsBetter: null,
+};
+
+const ratioDefinitions = new Map(RATIO_DEFINITIONS.map((definition) => [definition.key, definition]));
+
+/**
+ * Definition of the field a rule watches. Thresholds accept any numeric
+ * screener field, so metrics win over ratios of the same name as they do on
+ * the screener; changes need a value per period, which only statement
+ * ratios have.
+ */
+export function getAlertFieldDefinition(field: string, condition: AlertCondition): MetricDefinition | undefined {
+  if (condition.type === 'change') return ratioDefinitions.get(field);
+  const screenerField = getScreenerField(field);
+  return screenerField?.type === 'number' ? screenerField.definition : undefined;
+}
+
+/** Rejects rules on fields the condition cannot be evaluated against. */
+export function assertAlertField(input: AlertRuleInput): void {
+  if (getAlertFieldDefinition(input.field, input.condition)) return;
+  throw new InvalidAlertRuleError(
+    input.condition.type === 'change'
+      ? `"${input.field}" has no per-period values; change rules need a statement ratio`
+      : `Unknown numeric field "${input.field}"`
+  );
+}
+
+const compare = (value: number, operator: AlertOperator, threshold: number) => {
+  switch (operator) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    case '<=':
+      return value <= threshold;
+  }
+};
+
+/**
+ * Reads a condition back as text, e.g. `above 1.50x` or `quarterly change
+ * below -5.00%`. Thresholds are in the units the API reports, so they are
+ * displayed with the definition's scale, as the values are.
+ */
+export function describeCondition(
+  field: string,
+  condition: AlertCondition,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): string {
+  const definition = getAlertFieldDefinition(field, condition);
+  const threshold = definition
+    ? formatMetric(
+        condition.type === 'change' && condition.relative ? RELATIVE_CHANGE : definition,
+        condition.value,
+        format
+      )
+    : String(condition.value);
+  const comparison = `${OPERATOR_LABELS[condition.operator]} ${threshold}`;
+  return condition.type === 'change' ? `${condition.periodicity} change ${comparison}` : comparison;
+}
+
+export interface AlertEvaluation {
+  triggered: boolean;
+  /** The value compared with the threshold; null when the data does not have it. */
+  value: number | null;
+  message: string;
+}
+
+/** Checks one rule against one company's data. */
+export function evaluateAlertRule(rule: AlertRuleInput, data: EnrichedFinancialData): AlertEvaluation {
+  const definition = getAlertFieldDefinition(rule.field, rule.condition);
+  if (!definition) return { triggered: false, value: null, message: `Unknown field "${rule.field}"` };
+  const { condition } = rule;
+  const describe = (format: DisplayFormat) => describeCondition(rule.field, condition, format);
+
+  if (condition.type === 'threshold') {
+    const value = buildScreenerValues(data, data.ratios)[rule.field] ?? null;
+    // Provider metrics are quoted in the trading currency, statement ratios in the reporting one.
+    const metric = getScreenerField(rule.field)?.source === 'metrics';
+    const format: DisplayFormat = {
+      ...DEFAULT_DISPLAY_FORMAT,
+      currency: (metric ? data.company_info.trading_currency : data.company_info.reporting_currency) ?? 'USD',
+    };
+    if (typeof value !== 'number') {
+      return { triggered: false, value: null, message: `${data.symbol} reports no ${definition.label}.` };
+    }
+    return {
+      triggered: compare(value, condition.operator, condition.value),
+      value,
+      message: `${data.symbol} ${definition.label} is ${formatMetric(definition, value, format)}, ${describe(format)}.`,
+    };
+  }
+
+  const format: DisplayFormat = {
+    ...DEFAULT_DISPLAY_FORMAT,
+    currency: data.company_info.reporting_currency ?? 'USD',
+  };
+  const series = data.ratios[condition.periodicity];
+  const reported = Object.keys(series)
+    .sort()
+    .flatMap((date) => {
+      const value = series[date][rule.field] ?? null;
+      return value === null ? [] : [{ date, value }];
+    });
+  const [previous, latest] = reported.slice(-2);
+  if (!latest || !previous) {
+    return {
+      triggered: false,
+      value: null,
+      message: `${data.symbol} reports ${definition.label} for fewer than two ${condition.periodicity} periods.`,
+    };
+  }
+
+  const difference = latest.value - previous.value;
+  const change = condition.relative
+    ? previous.value === 0
+      ? null
+      : difference / Math.abs(previous.value)
+    : difference;
+  const moved = `from ${formatMetric(definition, previous.value, format)} on ${previous.date} to ${formatMetric(definition, latest.value, format)} on ${latest.date}`;
+  if (change === null) {
+    return { triggered: false, value: null, message: `${data.symbol} ${definition.label} moved ${moved}.` };
+  }
+  return {
+    triggered: compare(change, condition.operator, condition.value),
+    value: change,
+    message: `${data.symbol} ${definition.label} moved ${moved}, a change of ${formatMetric(condition.relative ? RELATIVE_CHANGE : definition, change, format)} (${describe(format)}).`,
+  };
+}
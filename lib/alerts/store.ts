@@ -0,0 +1,161 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { writeJsonAtomic } from '@/lib/json-file';
+import type { AlertChannelName, AlertRuleInput } from '@/lib/schema';
+
+/** Outcome of the last evaluation of a rule for one symbol. */
+export interface AlertRuleState {
+  triggered: boolean;
+  /** The value the condition was checked against; null when the data did not have it. */
+  value: number | null;
+  evaluated_at: string;
+}
+
+export type AlertRule = AlertRuleInput & {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  /** By symbol. A notification is only raised when a symbol goes from not triggered to triggered. */
+  state: Record<string, AlertRuleState>;
+};
+
+export type AlertDeliveryStatus = 'sent' | 'skipped' | 'failed';
+
+export interface AlertDelivery {
+  channel: AlertChannelName;
+  status: AlertDeliveryStatus;
+  /** Where the notification went, or why it did not. */
+  detail: string;
+}
+
+export interface AlertNotification {
+  id: string;
+  rule_id: string;
+  rule_name: string;
+  symbol: string;
+  field: string;
+  /** The value that met the condition: the current value, or the change for `change` rules. */
+  value: number;
+  message: string;
+  triggered_at: string;
+  read: boolean;
+  deliveries: AlertDelivery[];
+}
+
+export interface AlertStore {
+  listRules(): Promise<AlertRule[]>;
+  /** Inserts the rule, or replaces the one with the same id. */
+  saveRule(rule: AlertRule): Promise<void>;
+  /** Replaces only the state of a rule, so an edit made during an evaluation is kept. */
+  saveRuleState(id: string, state: AlertRule['state']): Promise<void>;
+  /** Resolves to false when there was nothing to delete. */
+  deleteRule(id: string): Promise<boolean>;
+  /** Newest first. */
+  listNotifications(): Promise<AlertNotification[]>;
+  /** Adds notifications and drops the oldest beyond the newest `keep`. */
+  appendNotifications(notifications: AlertNotification[], keep: number): Promise<void>;
+  /** Marks the given notifications read, or all of them when `ids` is null. Resolves to how many changed. */
+  markRead(ids: string[] | null): Promise<number>;
+}
+
+const upsert = (rules: AlertRule[], rule: AlertRule) =>
+  rules.some((entry) => entry.id === rule.id)
+    ? rules.map((entry) => (entry.id === rule.id ? rule : entry))
+    : [...rules, rule];
+
+const withState = (rules: AlertRule[], id: string, state: AlertRule['state']) =>
+  rules.map((rule) => (rule.id === id ? { ...rule, state } : rule));
+
+const prepend = (notifications: AlertNotification[], added: AlertNotification[], keep: number) =>
+  [...[...added].reverse(), ...notifications].slice(0, keep);
+
+function markNotificationsRead(notifications: AlertNotification[], ids: string[] | null) {
+  const selected = ids && new Set(ids);
+  let changed = 0;
+  const updated = notifications.map((notification) => {
+    if (notification.read || (selected && !selected.has(notification.id))) return notification;
+    changed += 1;
+    return { ...notification, read: true };
+  });
+  return { updated, changed };
+}
+
+export function createMemoryAlertStore(): AlertStore {
+  let rules: AlertRule[] = [];
+  let notifications: AlertNotification[] = [];
+
+  return {
+    listRules: async () => rules,
+    saveRule: async (rule) => {
+      rules = upsert(rules, rule);
+    },
+    saveRuleState: async (id, state) => {
+      rules = withState(rules, id, state);
+    },
+    deleteRule: async (id) => {
+      const remaining = rules.filter((rule) => rule.id !== id);
+      const deleted = remaining.length !== rules.length;
+      rules = remaining;
+      return deleted;
+    },
+    listNotifications: async () => notifications,
+    appendNotifications: async (added, keep) => {
+      notifications = prepend(notifications, added, keep);
+    },
+    markRead: async (ids) => {
+      const { updated, changed } = markNotificationsRead(notifications, ids);
+      notifications = updated;
+      return changed;
+    },
+  };
+}
+
+/** Keeps rules in `rules.json` and the notification log in `notifications.json`. */
+export function createFileAlertStore(directory: string): AlertStore {
+  const rulesPath = path.join(directory, 'rules.json');
+  const notificationsPath = path.join(directory, 'notifications.json');
+  // An evaluation saves rule states and notifications while the API may be editing rules.
+  let writing: Promise<unknown> = Promise.resolve();
+
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const next = writing.then(task);
+    writing = next.catch(() => undefined);
+    return next;
+  };
+
+  const read = async <T>(filePath: string): Promise<T[]> => {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8'));
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (filePath: string, value: unknown) => writeJsonAtomic(filePath, value, 2);
+
+  const readRules = () => read<AlertRule>(rulesPath);
+  const readNotifications = () => read<AlertNotification>(notificationsPath);
+
+  return {
+    listRules: readRules,
+    saveRule: (rule) => serialize(async () => write(rulesPath, upsert(await readRules(), rule))),
+    saveRuleState: (id, state) => serialize(async () => write(rulesPath, withState(await readRules(), id, state))),
+    deleteRule: (id) =>
+      serialize(async () => {
+        const current = await readRules();
+        const remaining = current.filter((rule) => rule.id !== id);
+        if (remaining.length === current.length) return false;
+        await write(rulesPath, remaining);
+        return true;
+      }),
+    listNotifications: readNotifications,
+    appendNotifications: (added, keep) =>
+      serialize(async () => write(notificationsPath, prepend(await readNotifications(), added, keep))),
+    markRead: (ids) =>
+      serialize(async () => {
+        const { updated, changed } = markNotificationsRead(await readNotifications(), ids);
+        if (changed > 0) await write(notificationsPath, updated);
+        return changed;
+      }),
+  };
+}
@@ -0,0 +1,39 @@
+import { randomUUID } from 'crypto';
+import type { AssumptionSetInput } from '@/lib/schema';
+import { processSingleton } from '@/lib/singleton';
+import {
+  createFileAssumptionStore,
+  createMemoryAssumptionStore,
+  type AssumptionSet,
+  type AssumptionStore,
+} from './store';
+
+export type { AssumptionSet, AssumptionStore } from './store';
+export { createFileAssumptionStore, createMemoryAssumptionStore } from './store';
+
+// Saved sets are meant to be shared, so set DCF_STORE_DIR anywhere they must survive a restart.
+const getStore = (): AssumptionStore =>
+  processSingleton('assumptions', () => {
+    const directory = process.env.DCF_STORE_DIR;
+    return directory ? createFileAssumptionStore(directory) : createMemoryAssumptionStore();
+  });
+
+export const listAssumptionSets = (symbol: string) => getStore().list(symbol);
+
+export async function getAssumptionSet(symbol: string, id: string): Promise<AssumptionSet | undefined> {
+  return (await getStore().list(symbol)).find((set) => set.id === id);
+}
+
+export async function saveAssumptionSet(symbol: string, input: AssumptionSetInput): Promise<AssumptionSet> {
+  const set: AssumptionSet = {
+    id: randomUUID(),
+    symbol,
+    name: input.name,
+    assumptions: input.assumptions,
+    created_at: new Date().toISOString(),
+  };
+  await getStore().save(set);
+  return set;
+}
+
+export const deleteAssumptionSet = (symbol: string, id: string) => getStore().delete(symbol, id);
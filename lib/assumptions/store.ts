@@ -0,0 +1,75 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { writeJsonAtomic } from '@/lib/json-file';
+import type { DcfAssumptions } from '@/lib/schema';
+
+export interface AssumptionSet {
+  id: string;
+  symbol: string;
+  name: string;
+  assumptions: DcfAssumptions;
+  created_at: string;
+}
+
+export interface AssumptionStore {
+  list(symbol: string): Promise<AssumptionSet[]>;
+  save(set: AssumptionSet): Promise<void>;
+  /** Resolves to false when there was nothing to delete. */
+  delete(symbol: string, id: string): Promise<boolean>;
+}
+
+export function createMemoryAssumptionStore(): AssumptionStore {
+  const sets = new Map<string, AssumptionSet[]>();
+
+  return {
+    list: async (symbol) => sets.get(symbol) ?? [],
+    save: async (set) => {
+      sets.set(set.symbol, [...(sets.get(set.symbol) ?? []), set]);
+    },
+    delete: async (symbol, id) => {
+      const current = sets.get(symbol) ?? [];
+      const remaining = current.filter((set) => set.id !== id);
+      sets.set(symbol, remaining);
+      return remaining.length !== current.length;
+    },
+  };
+}
+
+/** One JSON file per symbol holding every set saved for it. */
+export function createFileAssumptionStore(directory: string): AssumptionStore {
+  const filePath = (symbol: string) => path.join(directory, `${encodeURIComponent(symbol)}.json`);
+  // Each change reads the symbol's whole file and writes it back, so changes must not interleave.
+  let writing: Promise<unknown> = Promise.resolve();
+
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const next = writing.then(task);
+    writing = next.catch(() => undefined);
+    return next;
+  };
+
+  const read = async (symbol: string): Promise<AssumptionSet[]> => {
+    try {
+      return JSON.parse(await readFile(filePath(symbol), 'utf8'));
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (symbol: string, sets: AssumptionSet[]) => writeJsonAtomic(filePath(symbol), sets, 2);
+
+  return {
+    list: read,
+    save: (set) =>
+      serialize(async () => {
+        await write(set.symbol, [...(await read(set.symbol)), set]);
+      }),
+    delete: (symbol, id) =>
+      serialize(async () => {
+        const current = await read(symbol);
+        const remaining = current.filter((set) => set.id !== id);
+        if (remaining.length === current.length) return false;
+        await write(symbol, remaining);
+        return true;
+      }),
+  };
+}
@@ -0,0 +1,57 @@
+import { getCachedFinancialData } from '@/lib/cache';
+import { enrichFinancialData, type EnrichedFinancialData } from '@/lib/enrich';
+import { toErrorBody, type ErrorBody } from '@/lib/errors';
+import type { FinancialDataProvider } from '@/lib/providers';
+import { normalizeSymbol } from '@/lib/symbols';
+
+export const MAX_BATCH_SYMBOLS = 6;
+
+export type BatchResult =
+  | { symbol: string; status: 'ok'; data: EnrichedFinancialData }
+  | { symbol: string; status: 'error'; error: ErrorBody };
+
+export interface BatchResponse {
+  results: BatchResult[];
+}
+
+/** Splits a comma-separated `symbols` parameter, dropping blanks and duplicates. */
+export const parseSymbolList = (value: string): string[] =>
+  Array.from(
+    new Set(
+      value
+        .split(',')
+        .map((symbol) => symbol.trim().toUpperCase())
+        .filter(Boolean)
+    )
+  );
+
+/**
+ * Fetches every symbol concurrently. A failure for one symbol is reported in
+ * its own result instead of failing the whole batch.
+ */
+export async function fetchBatch(provider: FinancialDataProvider, symbols: string[]): Promise<BatchResult[]> {
+  const settled = await Promise.allSettled(
+    symbols.map(async (symbol) => {
+      const cached = await getCachedFinancialData(provider, normalizeSymbol(symbol));
+      return enrichFinancialData(cached.data);
+    })
+  );
+
+  return settled.map((result, index): BatchResult =>
+    result.status === 'fulfilled'
+      ? { symbol: symbols[index], status: 'ok', data: result.value }
+      : { symbol: symbols[index], status: 'error', error: toErrorBody(result.reason) }
+  );
+}
+
+/**
+ * Fetches any number of symbols, MAX_BATCH_SYMBOLS at a time, so a long list
+ * does not flood the provider queue.
+ */
+export async function fetchInBatches(provider: FinancialDataProvider, symbols: string[]): Promise<BatchResult[]> {
+  const results: BatchResult[] = [];
+  for (let start = 0; start < symbols.length; start += MAX_BATCH_SYMBOLS) {
+    results.push(...(await fetchBatch(provider, symbols.slice(start, start + MAX_BATCH_SYMBOLS))));
+  }
+  return results;
+}
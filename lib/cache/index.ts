@@ -0,0 +1,189 @@
+import { readNumberEnv } from '@/lib/env';
+import { MalformedPayloadError } from '@/lib/errors';
+import type { FinancialDataProvider } from '@/lib/providers';
+import { recordSnapshot } from '@/lib/history';
+import { recordScreenerSnapshot } from '@/lib/screener';
+import {
+  isStatementType,
+  validateCompanyOverview,
+  validateFinancialData,
+  type DataSection,
+  type FinancialData,
+} from '@/lib/schema';
+import { mergeSections } from '@/lib/sections';
+import { processSingleton } from '@/lib/singleton';
+import { createFileStore, createMemoryStore, type CacheEntry, type CacheStore } from './store';
+
+export type { CacheEntry, CacheStore } from './store';
+export { createFileStore, createMemoryStore } from './store';
+export { getCachedPriceHistory, type CachedPriceHistory } from './prices';
+
+export type CacheStatus = 'hit' | 'stale' | 'miss';
+
+export interface CachedFinancialData {
+  data: FinancialData;
+  status: CacheStatus;
+  /** Seconds until the oldest section of `data` goes stale. */
+  maxAge: number;
+  /** Seconds a stale response may still be served while it is refreshed. */
+  staleWhileRevalidate: number;
+}
+
+const config = {
+  // Statements only change when a company files, so they can live much longer
+  // than the price-driven `info` snapshot behind `metrics`.
+  statementsTtl: readNumberEnv(process.env.FINANCIAL_CACHE_STATEMENTS_TTL, 6 * 60 * 60),
+  infoTtl: readNumberEnv(process.env.FINANCIAL_CACHE_INFO_TTL, 15 * 60),
+  staleTtl: readNumberEnv(process.env.FINANCIAL_CACHE_STALE_TTL, 24 * 60 * 60),
+};
+
+// Shared across route bundles so every route reads the same cache and joins the same in-flight fetches.
+const getCache = () =>
+  processSingleton('cache', () => {
+    const directory = process.env.FINANCIAL_CACHE_DIR;
+    return {
+      store: directory ? createFileStore(directory) : createMemoryStore(),
+      inflight: new Map<string, Promise<CacheEntry>>(),
+    };
+  });
+
+const getStore = (): CacheStore => getCache().store;
+
+const cacheKey = (provider: FinancialDataProvider, symbol: string) =>
+  `${provider.name}:${symbol.toUpperCase()}`;
+
+async function fetchEntry(
+  provider: FinancialDataProvider,
+  symbol: string,
+  previous: CacheEntry | undefined
+): Promise<CacheEntry> {
+  const now = Date.now();
+  const statementsFresh =
+    previous && now - previous.statementsFetchedAt < config.statementsTtl * 1000;
+
+  if (previous && statementsFresh && provider.getCompanyOverview) {
+    const validation = validateCompanyOverview(await provider.getCompanyOverview(symbol));
+    if (!validation.success) {
+      throw new MalformedPayloadError(provider.name, validation.issues);
+    }
+    // The overview replaces both sections it covers, so earlier failures for them no longer apply.
+    const { company_info: _info, metrics: _metrics, ...sections } = previous.data.sections ?? {};
+    return {
+      data: { ...previous.data, ...validation.data, sections },
+      statementsFetchedAt: previous.statementsFetchedAt,
+      infoFetchedAt: now,
+    };
+  }
+
+  const validation = validateFinancialData(await provider.getFinancialData(symbol));
+  if (!validation.success) {
+    throw new MalformedPayloadError(provider.name, validation.issues);
+  }
+  return {
+    data: previous ? mergeSections(previous.data, validation.data) : validation.data,
+    statementsFetchedAt: now,
+    infoFetchedAt: now,
+  };
+}
+
+function refresh(
+  provider: FinancialDataProvider,
+  symbol: string,
+  previous: CacheEntry | undefined
+): Promise<CacheEntry> {
+  const key = cacheKey(provider, symbol);
+  const { inflight } = getCache();
+  const pending = inflight.get(key);
+  if (pending) return pending;
+
+  const request = fetchEntry(provider, symbol, previous)
+    .then(async (entry) => {
+      await getStore().set(key, entry);
+      // The screener universe and snapshot history are side effects; a failure there must not fail the fetch.
+      recordScreenerSnapshot(entry.data).catch((error) => {
+        console.error(`Failed to record screener snapshot for ${key}:`, error);
+      });
+      recordSnapshot(provider.name, entry.data).catch((error) => {
+        console.error(`Failed to record history snapshot for ${key}:`, error);
+      });
+      return entry;
+    })
+    .finally(() => inflight.delete(key));
+
+  inflight.set(key, request);
+  return request;
+}
+
+const ageOf = (entry: CacheEntry, now: number) => ({
+  statements: (now - entry.statementsFetchedAt) / 1000,
+  info: (now - entry.infoFetchedAt) / 1000,
+});
+
+function toResult(entry: CacheEntry, status: CacheStatus): CachedFinancialData {
+  const age = ageOf(entry, Date.now());
+  const maxAge = Math.max(
+    0,
+    Math.floor(Math.min(config.statementsTtl - age.statements, config.infoTtl - age.info))
+  );
+
+  return {
+    data: {
+      ...entry.data,
+      cached_at: new Date(Math.min(entry.statementsFetchedAt, entry.infoFetchedAt)).toISOString(),
+    },
+    status,
+    maxAge,
+    staleWhileRevalidate: config.staleTtl,
+  };
+}
+
+/**
+ * Returns validated financial data for `symbol`, fetching through `provider`
+ * only when the cached copy is missing or too old. Entries past their TTL but
+ * within the stale window are served immediately and refreshed in the
+ * background.
+ */
+export async function getCachedFinancialData(
+  provider: FinancialDataProvider,
+  symbol: string
+): Promise<CachedFinancialData> {
+  const entry = await getStore().get(cacheKey(provider, symbol));
+
+  if (!entry) {
+    return toResult(await refresh(provider, symbol, undefined), 'miss');
+  }
+
+  const age = ageOf(entry, Date.now());
+  if (age.statements < config.statementsTtl && age.info < config.infoTtl) {
+    return toResult(entry, 'hit');
+  }
+
+  const withinStaleWindow =
+    age.statements < config.statementsTtl + config.staleTtl &&
+    age.info < config.infoTtl + config.staleTtl;
+
+  if (withinStaleWindow) {
+    refresh(provider, symbol, entry).catch((error) => {
+      console.error(`Background refresh failed for ${cacheKey(provider, symbol)}:`, error);
+    });
+    return toResult(entry, 'stale');
+  }
+
+  return toResult(await refresh(provider, symbol, entry), 'miss');
+}
+
+/**
+ * Refetches `symbol` now to retry one section that failed or came back empty,
+ * regardless of how fresh the cached copy is. Company info and metrics only
+ * need the overview when the provider has one; statements need a full fetch.
+ * Sections that fail again keep their previously cached data.
+ */
+export async function refreshFinancialSection(
+  provider: FinancialDataProvider,
+  symbol: string,
+  section: DataSection
+): Promise<CachedFinancialData> {
+  const entry = await getStore().get(cacheKey(provider, symbol));
+  const previous = entry && isStatementType(section) ? { ...entry, statementsFetchedAt: 0 } : entry;
+  return toResult(await refresh(provider, symbol, previous), 'miss');
+}
@@ -0,0 +1,68 @@
+import { readNumberEnv } from '@/lib/env';
+import { MalformedPayloadError } from '@/lib/errors';
+import type { FinancialDataProvider } from '@/lib/providers';
+import { validatePriceHistory, type PriceHistory, type PriceInterval, type PriceRange } from '@/lib/schema';
+import { processSingleton } from '@/lib/singleton';
+
+export interface CachedPriceHistory {
+  data: PriceHistory;
+  /** Seconds until `data` goes stale. */
+  maxAge: number;
+}
+
+interface PriceEntry {
+  data: PriceHistory;
+  /** Epoch milliseconds when the bars were fetched. */
+  fetchedAt: number;
+}
+
+const ttl = readNumberEnv(process.env.PRICE_CACHE_TTL, 900);
+
+// Shared across route bundles, so the prices route and portfolio summaries reuse each other's fetches.
+const getPriceCache = () =>
+  processSingleton('price-cache', () => ({
+    entries: new Map<string, PriceEntry>(),
+    inflight: new Map<string, Promise<PriceEntry>>(),
+  }));
+
+const priceKey = (provider: FinancialDataProvider, symbol: string, range: PriceRange, interval: PriceInterval) =>
+  `${provider.name}:${symbol.toUpperCase()}:${range}:${interval}`;
+
+const toResult = (entry: PriceEntry): CachedPriceHistory => ({
+  data: entry.data,
+  maxAge: Math.max(0, Math.floor(ttl - (Date.now() - entry.fetchedAt) / 1000)),
+});
+
+/**
+ * Returns validated bars for `symbol`, fetching through `provider` only when
+ * no copy younger than PRICE_CACHE_TTL is held. Concurrent requests for the
+ * same bars join one fetch.
+ */
+export async function getCachedPriceHistory(
+  provider: FinancialDataProvider,
+  symbol: string,
+  range: PriceRange,
+  interval: PriceInterval
+): Promise<CachedPriceHistory> {
+  const key = priceKey(provider, symbol, range, interval);
+  const { entries, inflight } = getPriceCache();
+
+  const entry = entries.get(key);
+  if (entry && Date.now() - entry.fetchedAt < ttl * 1000) return toResult(entry);
+
+  let request = inflight.get(key);
+  if (!request) {
+    request = provider
+      .getPriceHistory(symbol, range, interval)
+      .then((payload) => {
+        const validation = validatePriceHistory(payload);
+        if (!validation.success) throw new MalformedPayloadError(provider.name, validation.issues);
+        const fetched = { data: validation.data, fetchedAt: Date.now() };
+        entries.set(key, fetched);
+        return fetched;
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, request);
+  }
+  return toResult(await request);
+}
@@ -0,0 +1,57 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { writeJsonAtomic } from '@/lib/json-file';
+import type { FinancialData } from '@/lib/schema';
+
+export interface CacheEntry {
+  data: FinancialData;
+  /** Epoch milliseconds when the statements were last fetched. */
+  statementsFetchedAt: number;
+  /** Epoch milliseconds when `company_info` and `metrics` were last fetched. */
+  infoFetchedAt: number;
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+export function createMemoryStore(): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get: async (key) => entries.get(key),
+    set: async (key, entry) => {
+      entries.set(key, entry);
+    },
+  };
+}
+
+/**
+ * Persists one JSON file per key so cached lookups survive a restart. Reads
+ * are served from memory after the first hit.
+ */
+export function createFileStore(directory: string): CacheStore {
+  const memory = createMemoryStore();
+  const filePath = (key: string) => path.join(directory, `${encodeURIComponent(key)}.json`);
+
+  return {
+    async get(key) {
+      const cached = await memory.get(key);
+      if (cached) return cached;
+
+      try {
+        const entry: CacheEntry = JSON.parse(await readFile(filePath(key), 'utf8'));
+        await memory.set(key, entry);
+        return entry;
+      } catch {
+        return undefined;
+      }
+    },
+
+    async set(key, entry) {
+      await memory.set(key, entry);
+      await writeJsonAtomic(filePath(key), entry);
+    },
+  };
+}
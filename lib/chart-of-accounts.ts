@@ -0,0 +1,330 @@
+import type { StatementType } from '@/lib/schema';
+
+/**
+ * `positive` and `negative` accounts are forced to that sign whatever the
+ * provider reported, so a cost is always a positive amount and a cash outflow
+ * always negative. `natural` accounts can legitimately take either sign and
+ * keep the reported value.
+ */
+export type AccountSign = 'positive' | 'negative' | 'natural';
+
+export interface CanonicalAccount {
+  key: string;
+  label: string;
+  /** Account this one rolls up into; top-level accounts head a group in the statement view. */
+  parent: string | null;
+  /**
+   * Raw line-item names that report this account, most specific first. The
+   * first one a period has is used; the others are recorded as duplicates.
+   */
+  aliases: string[];
+  sign: AccountSign;
+}
+
+const account = (
+  key: string,
+  label: string,
+  parent: string | null,
+  aliases: string[],
+  sign: AccountSign = 'natural'
+): CanonicalAccount => ({ key, label, parent, aliases, sign });
+
+/**
+ * The canonical chart of accounts, per statement, in display order with every
+ * parent before its children. Aliases cover the names yfinance and Yahoo's
+ * timeseries use across industries.
+ */
+export const CHART_OF_ACCOUNTS: Record<StatementType, CanonicalAccount[]> = {
+  income_statement: [
+    account('revenue', 'Revenue', null, ['Total Revenue', 'Revenue']),
+    account('operating_revenue', 'Operating Revenue', 'revenue', ['Operating Revenue']),
+    account('gross_profit', 'Gross Profit', null, ['Gross Profit']),
+    account(
+      'cost_of_revenue',
+      'Cost of Revenue',
+      'gross_profit',
+      ['Cost Of Revenue', 'Reconciled Cost Of Revenue'],
+      'positive'
+    ),
+    account('operating_income', 'Operating Income', null, ['Operating Income', 'Total Operating Income As Reported']),
+    account('operating_expense', 'Operating Expenses', 'operating_income', ['Operating Expense'], 'positive'),
+    account(
+      'research_and_development',
+      'Research and Development',
+      'operating_expense',
+      ['Research And Development'],
+      'positive'
+    ),
+    account(
+      'selling_general_and_administrative',
+      'Selling, General and Administrative',
+      'operating_expense',
+      ['Selling General And Administration'],
+      'positive'
+    ),
+    account(
+      'selling_and_marketing',
+      'Selling and Marketing',
+      'selling_general_and_administrative',
+      ['Selling And Marketing Expense'],
+      'positive'
+    ),
+    account(
+      'general_and_administrative',
+      'General and Administrative',
+      'selling_general_and_administrative',
+      ['General And Administrative Expense'],
+      'positive'
+    ),
+    account('other_operating_expenses', 'Other Operating Expenses', 'operating_expense', ['Other Operating Expenses']),
+    account('ebitda', 'EBITDA', 'operating_income', ['EBITDA', 'Normalized EBITDA']),
+    account('ebit', 'EBIT', 'operating_income', ['EBIT']),
+    account(
+      'depreciation_and_amortization',
+      'Depreciation and Amortization',
+      'operating_income',
+      ['Reconciled Depreciation'],
+      'positive'
+    ),
+    account('net_income', 'Net Income', null, [
+      'Net Income',
+      'Net Income Common Stockholders',
+      'Net Income Including Noncontrolling Interests',
+    ]),
+    account('pretax_income', 'Pretax Income', 'net_income', ['Pretax Income']),
+    account(
+      'interest_expense',
+      'Interest Expense',
+      'net_income',
+      ['Interest Expense', 'Interest Expense Non Operating'],
+      'positive'
+    ),
+    account('interest_income', 'Interest Income', 'net_income', ['Interest Income', 'Interest Income Non Operating']),
+    account('net_interest_income', 'Net Interest Income', 'net_income', ['Net Interest Income']),
+    account('other_income_expense', 'Other Income (Expense)', 'net_income', ['Other Income Expense']),
+    account('tax_provision', 'Tax Provision', 'net_income', ['Tax Provision']),
+    account('net_income_common', 'Net Income to Common', 'net_income', ['Net Income Common Stockholders']),
+    account('net_income_continuing', 'Net Income from Continuing Operations', 'net_income', [
+      'Net Income Continuous Operations',
+    ]),
+    account('eps_diluted', 'Diluted EPS', null, ['Diluted EPS']),
+    account('eps_basic', 'Basic EPS', 'eps_diluted', ['Basic EPS']),
+    account('shares_diluted', 'Diluted Average Shares', 'eps_diluted', ['Diluted Average Shares'], 'positive'),
+    account('shares_basic', 'Basic Average Shares', 'eps_diluted', ['Basic Average Shares'], 'positive'),
+    account('tax_rate', 'Effective Tax Rate', null, ['Tax Rate For Calcs']),
+  ],
+  balance_sheet: [
+    account('total_assets', 'Total Assets', null, ['Total Assets'], 'positive'),
+    account('current_assets', 'Current Assets', 'total_assets', ['Current Assets'], 'positive'),
+    account(
+      'cash_and_equivalents',
+      'Cash and Equivalents',
+      'current_assets',
+      ['Cash And Cash Equivalents', 'Cash Financial'],
+      'positive'
+    ),
+    account(
+      'cash_and_short_term_investments',
+      'Cash and Short-Term Investments',
+      'current_assets',
+      ['Cash Cash Equivalents And Short Term Investments'],
+      'positive'
+    ),
+    account(
+      'short_term_investments',
+      'Short-Term Investments',
+      'current_assets',
+      ['Other Short Term Investments'],
+      'positive'
+    ),
+    account(
+      'accounts_receivable',
+      'Accounts Receivable',
+      'current_assets',
+      ['Accounts Receivable', 'Receivables'],
+      'positive'
+    ),
+    account('inventory', 'Inventory', 'current_assets', ['Inventory'], 'positive'),
+    account('non_current_assets', 'Non-Current Assets', 'total_assets', ['Total Non Current Assets'], 'positive'),
+    account('net_ppe', 'Property, Plant and Equipment', 'non_current_assets', ['Net PPE'], 'positive'),
+    account(
+      'goodwill_and_intangibles',
+      'Goodwill and Intangibles',
+      'non_current_assets',
+      ['Goodwill And Other Intangible Assets'],
+      'positive'
+    ),
+    account('goodwill', 'Goodwill', 'goodwill_and_intangibles', ['Goodwill'], 'positive'),
+    account(
+      'long_term_investments',
+      'Long-Term Investments',
+      'non_current_assets',
+      ['Investments And Advances'],
+      'positive'
+    ),
+    account(
+      'total_liabilities',
+      'Total Liabilities',
+      null,
+      ['Total Liabilities Net Minority Interest', 'Total Liabilities'],
+      'positive'
+    ),
+    account('current_liabilities', 'Current Liabilities', 'total_liabilities', ['Current Liabilities'], 'positive'),
+    account(
+      'accounts_payable',
+      'Accounts Payable',
+      'current_liabilities',
+      ['Accounts Payable', 'Payables'],
+      'positive'
+    ),
+    account(
+      'current_debt',
+      'Current Debt',
+      'current_liabilities',
+      ['Current Debt', 'Current Debt And Capital Lease Obligation'],
+      'positive'
+    ),
+    account(
+      'non_current_liabilities',
+      'Non-Current Liabilities',
+      'total_liabilities',
+      ['Total Non Current Liabilities Net Minority Interest'],
+      'positive'
+    ),
+    account(
+      'long_term_debt',
+      'Long-Term Debt',
+      'non_current_liabilities',
+      ['Long Term Debt', 'Long Term Debt And Capital Lease Obligation'],
+      'positive'
+    ),
+    account('total_debt', 'Total Debt', 'total_liabilities', ['Total Debt'], 'positive'),
+    account('net_debt', 'Net Debt', 'total_liabilities', ['Net Debt']),
+    account('total_equity', 'Shareholders’ Equity', null, ['Stockholders Equity', 'Common Stock Equity']),
+    account('common_stock', 'Common Stock', 'total_equity', ['Common Stock']),
+    account('retained_earnings', 'Retained Earnings', 'total_equity', ['Retained Earnings']),
+    account('total_equity_with_minority', 'Equity Including Minority Interest', 'total_equity', [
+      'Total Equity Gross Minority Interest',
+    ]),
+    account('working_capital', 'Working Capital', null, ['Working Capital']),
+    account('invested_capital', 'Invested Capital', null, ['Invested Capital']),
+    account('shares_outstanding', 'Shares Outstanding', null, ['Ordinary Shares Number', 'Share Issued'], 'positive'),
+  ],
+  cash_flow: [
+    account('operating_cash_flow', 'Operating Cash Flow', null, [
+      'Operating Cash Flow',
+      'Cash Flow From Continuing Operating Activities',
+    ]),
+    account('cf_net_income', 'Net Income', 'operating_cash_flow', ['Net Income From Continuing Operations']),
+    account(
+      'depreciation_and_amortization',
+      'Depreciation and Amortization',
+      'operating_cash_flow',
+      ['Depreciation And Amortization', 'Depreciation Amortization Depletion'],
+      'positive'
+    ),
+    account(
+      'stock_based_compensation',
+      'Stock-Based Compensation',
+      'operating_cash_flow',
+      ['Stock Based Compensation'],
+      'positive'
+    ),
+    account('deferred_income_tax', 'Deferred Income Tax', 'operating_cash_flow', [
+      'Deferred Income Tax',
+      'Deferred Tax',
+    ]),
+    account('change_in_working_capital', 'Change in Working Capital', 'operating_cash_flow', [
+      'Change In Working Capital',
+    ]),
+    account('investing_cash_flow', 'Investing Cash Flow', null, [
+      'Investing Cash Flow',
+      'Cash Flow From Continuing Investing Activities',
+    ]),
+    account(
+      'capital_expenditure',
+      'Capital Expenditure',
+      'investing_cash_flow',
+      ['Capital Expenditure', 'Purchase Of PPE'],
+      'negative'
+    ),
+    account(
+      'purchase_of_investments',
+      'Purchase of Investments',
+      'investing_cash_flow',
+      ['Purchase Of Investment'],
+      'negative'
+    ),
+    account('sale_of_investments', 'Sale of Investments', 'investing_cash_flow', ['Sale Of Investment'], 'positive'),
+    account('acquisitions', 'Acquisitions and Disposals', 'investing_cash_flow', ['Net Business Purchase And Sale']),
+    account('financing_cash_flow', 'Financing Cash Flow', null, [
+      'Financing Cash Flow',
+      'Cash Flow From Continuing Financing Activities',
+    ]),
+    account(
+      'dividends_paid',
+      'Dividends Paid',
+      'financing_cash_flow',
+      ['Cash Dividends Paid', 'Common Stock Dividend Paid'],
+      'negative'
+    ),
+    account(
+      'share_repurchases',
+      'Share Repurchases',
+      'financing_cash_flow',
+      ['Repurchase Of Capital Stock', 'Common Stock Payments'],
+      'negative'
+    ),
+    account('share_issuance', 'Share Issuance', 'financing_cash_flow', ['Common Stock Issuance'], 'positive'),
+    account(
+      'debt_issuance',
+      'Debt Issuance',
+      'financing_cash_flow',
+      ['Issuance Of Debt', 'Long Term Debt Issuance'],
+      'positive'
+    ),
+    account(
+      'debt_repayment',
+      'Debt Repayment',
+      'financing_cash_flow',
+      ['Repayment Of Debt', 'Long Term Debt Payments'],
+      'negative'
+    ),
+    account('free_cash_flow', 'Free Cash Flow', null, ['Free Cash Flow']),
+    account('change_in_cash', 'Change in Cash', null, ['Changes In Cash']),
+    account('fx_effect', 'Effect of Exchange Rates', 'change_in_cash', ['Effect Of Exchange Rate Changes']),
+    account('ending_cash', 'Ending Cash', 'change_in_cash', ['End Cash Position'], 'positive'),
+  ],
+};
+
+const accountsByKey = Object.fromEntries(
+  Object.entries(CHART_OF_ACCOUNTS).map(([statementType, accounts]) => [
+    statementType,
+    new Map(accounts.map((entry) => [entry.key, entry])),
+  ])
+) as Record<StatementType, Map<string, CanonicalAccount>>;
+
+export const getCanonicalAccount = (statementType: StatementType, key: string): CanonicalAccount | undefined =>
+  accountsByKey[statementType].get(key);
+
+/** Nesting level of an account: 0 for top-level accounts. */
+export function accountDepth(statementType: StatementType, key: string): number {
+  let depth = 0;
+  let parent = getCanonicalAccount(statementType, key)?.parent ?? null;
+  while (parent !== null) {
+    depth += 1;
+    parent = getCanonicalAccount(statementType, parent)?.parent ?? null;
+  }
+  return depth;
+}
+
+/** The top-level account `key` rolls up into, or `key` itself when it is top-level. */
+export function rootAccount(statementType: StatementType, key: string): string {
+  let current = key;
+  let parent = getCanonicalAccount(statementType, current)?.parent ?? null;
+  while (parent !== null) {
+    current = parent;
+    parent = getCanonicalAccount(statementType, current)?.parent ?? null;
+  }
+  return current;
+}
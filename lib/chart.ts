@@ -0,0 +1,86 @@
+import { formatMetricName } from '@/lib/format';
+import { getLineItemDefinition, type MetricKind } from '@/lib/metrics';
+import { RATIO_DEFINITIONS, type RatioSeries } from '@/lib/ratios';
+import { STATEMENT_TYPES, type FinancialStatements, type StatementCollection, type StatementType } from '@/lib/schema';
+
+export type ChartSource = StatementType | 'ratios';
+
+export interface ChartSeriesOption {
+  /** `source:key`, e.g. `income_statement:Total Revenue` or `ratios:net_margin`. */
+  id: string;
+  source: ChartSource;
+  key: string;
+  label: string;
+  kind: MetricKind;
+}
+
+/** One chart point per period: the period date plus a value per series id. */
+export interface ChartRow {
+  date: string;
+  [seriesId: string]: string | number | null;
+}
+
+export const seriesId = (source: ChartSource, key: string) => `${source}:${key}`;
+
+const collectionFor = (source: ChartSource, statements: FinancialStatements, ratios: RatioSeries) =>
+  source === 'ratios' ? ratios : statements[source];
+
+/** Every line item and ratio that can be plotted, grouped by source in display order. */
+export function chartSeriesOptions(statements: FinancialStatements, ratios: RatioSeries): ChartSeriesOption[] {
+  const options: ChartSeriesOption[] = [];
+
+  for (const statementType of STATEMENT_TYPES) {
+    const items = new Set<string>();
+    Object.values(statements[statementType]).forEach((statement) =>
+      Object.keys(statement).forEach((item) => items.add(item))
+    );
+    for (const item of Array.from(items).sort()) {
+      options.push({
+        id: seriesId(statementType, item),
+        source: statementType,
+        key: item,
+        label: formatMetricName(item),
+        kind: getLineItemDefinition(item).kind,
+      });
+    }
+  }
+
+  if (Object.keys(ratios).length > 0) {
+    for (const definition of RATIO_DEFINITIONS) {
+      options.push({
+        id: seriesId('ratios', definition.key),
+        source: 'ratios',
+        key: definition.key,
+        label: definition.label,
+        kind: definition.kind,
+      });
+    }
+  }
+  return options;
+}
+
+/**
+ * Pivots the date-keyed collections behind `series` into chart rows, oldest
+ * period first. Periods missing from a source are plotted as gaps.
+ */
+export function buildChartRows(
+  series: ChartSeriesOption[],
+  statements: FinancialStatements,
+  ratios: RatioSeries
+): ChartRow[] {
+  const dates = new Set<string>();
+  for (const option of series) {
+    Object.keys(collectionFor(option.source, statements, ratios)).forEach((date) => dates.add(date));
+  }
+
+  return Array.from(dates)
+    .sort()
+    .map((date) => {
+      const row: ChartRow = { date };
+      for (const option of series) {
+        const collection: StatementCollection = collectionFor(option.source, statements, ratios);
+        row[option.id] = collection[date]?.[option.key] ?? null;
+      }
+      return row;
+    });
+}
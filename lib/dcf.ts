@@ -0,0 +1,222 @@
+import { computeStatementGrowth } from '@/lib/growth';
+import type { DcfAssumptions, FinancialStatements, StatementCollection } from '@/lib/schema';
+
+/** Latest-fiscal-year figures the projection starts from. */
+export interface DcfBase {
+  fiscal_year_end: string | null;
+  revenue: number | null;
+  net_debt: number | null;
+  shares: number | null;
+}
+
+export interface DcfProjectionYear {
+  year: number;
+  revenue: number;
+  operating_income: number;
+  nopat: number;
+  depreciation: number;
+  capex: number;
+  nwc_change: number;
+  free_cash_flow: number;
+  discount_factor: number;
+  present_value: number;
+}
+
+export interface DcfResult {
+  projections: DcfProjectionYear[];
+  pv_of_cash_flows: number;
+  terminal_value: number;
+  pv_of_terminal_value: number;
+  enterprise_value: number;
+  equity_value: number | null;
+  value_per_share: number | null;
+}
+
+export const DEFAULT_WACC = 0.09;
+export const DEFAULT_TERMINAL_GROWTH = 0.025;
+export const DEFAULT_PROJECTION_YEARS = 5;
+
+// Used when the statements are too sparse to seed an assumption.
+const FALLBACK_REVENUE_GROWTH = 0.05;
+const FALLBACK_TAX_RATE = 0.21;
+
+type Value = number | null;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const round = (value: number) => Math.round(value * 10_000) / 10_000;
+
+const sortedDates = (collection: StatementCollection) => Object.keys(collection).sort();
+
+const read = (collection: StatementCollection, date: string, item: string): Value =>
+  collection[date]?.[item] ?? null;
+
+const first = (...values: Value[]): Value => values.find((value) => value !== null) ?? null;
+
+const average = (values: Value[]): Value => {
+  const present = values.filter((value): value is number => value !== null && Number.isFinite(value));
+  return present.length === 0 ? null : present.reduce((sum, value) => sum + value, 0) / present.length;
+};
+
+/** Averages `numerator / revenue` over every fiscal year that reports both. */
+const averageShareOfRevenue = (annual: FinancialStatements, numerator: (date: string) => Value): Value =>
+  average(
+    sortedDates(annual.income_statement).map((date) => {
+      const revenue = read(annual.income_statement, date, 'Total Revenue');
+      const value = numerator(date);
+      return revenue && value !== null ? value / revenue : null;
+    })
+  );
+
+export function getDcfBase(annual: FinancialStatements): DcfBase {
+  const date = sortedDates(annual.income_statement).at(-1) ?? null;
+  if (!date) return { fiscal_year_end: null, revenue: null, net_debt: null, shares: null };
+
+  const balance = (item: string) => read(annual.balance_sheet, date, item);
+  const totalDebt = balance('Total Debt');
+  const cash = balance('Cash And Cash Equivalents');
+
+  return {
+    fiscal_year_end: date,
+    revenue: read(annual.income_statement, date, 'Total Revenue'),
+    net_debt: first(balance('Net Debt'), totalDebt !== null && cash !== null ? totalDebt - cash : null),
+    shares: first(
+      read(annual.income_statement, date, 'Diluted Average Shares'),
+      read(annual.income_statement, date, 'Basic Average Shares')
+    ),
+  };
+}
+
+/**
+ * Starting assumptions from the annual income statement, cash flow and balance
+ * sheet: revenue CAGR, and multi-year averages of each driver as a share of revenue.
+ */
+export function seedAssumptions(annual: FinancialStatements): DcfAssumptions {
+  const income = annual.income_statement;
+  const cash = annual.cash_flow;
+  const balance = annual.balance_sheet;
+
+  const revenueCagr = computeStatementGrowth(income, 'annual', income)['Total Revenue']?.cagr ?? null;
+  const operatingMargin = averageShareOfRevenue(annual, (date) => read(income, date, 'Operating Income'));
+  const taxRate = average(
+    sortedDates(income).map((date) => {
+      const pretax = read(income, date, 'Pretax Income');
+      const tax = read(income, date, 'Tax Provision');
+      return pretax && pretax > 0 && tax !== null ? tax / pretax : null;
+    })
+  );
+  // Capital expenditure is reported as a negative outflow.
+  const capex = averageShareOfRevenue(annual, (date) => {
+    const value = read(cash, date, 'Capital Expenditure');
+    return value === null ? null : Math.abs(value);
+  });
+  const depreciation = averageShareOfRevenue(annual, (date) =>
+    first(read(cash, date, 'Depreciation And Amortization'), read(income, date, 'Reconciled Depreciation'))
+  );
+
+  const latest = sortedDates(income).at(-1);
+  const latestRevenue = latest ? read(income, latest, 'Total Revenue') : null;
+  const currentAssets = latest ? read(balance, latest, 'Current Assets') : null;
+  const currentLiabilities = latest ? read(balance, latest, 'Current Liabilities') : null;
+  const workingCapital = latest
+    ? first(
+        read(balance, latest, 'Working Capital'),
+        currentAssets !== null && currentLiabilities !== null ? currentAssets - currentLiabilities : null
+      )
+    : null;
+
+  return {
+    revenue_growth: round(clamp(revenueCagr ?? FALLBACK_REVENUE_GROWTH, -0.5, 1)),
+    operating_margin: round(operatingMargin ?? 0),
+    tax_rate: round(clamp(taxRate ?? FALLBACK_TAX_RATE, 0, 0.5)),
+    capex_percent: round(capex ?? 0),
+    da_percent: round(depreciation ?? 0),
+    nwc_percent: round(latestRevenue && workingCapital !== null ? workingCapital / latestRevenue : 0),
+    wacc: DEFAULT_WACC,
+    terminal_growth: DEFAULT_TERMINAL_GROWTH,
+    years: DEFAULT_PROJECTION_YEARS,
+  };
+}
+
+/**
+ * Unlevered free cash flow projection with end-of-year discounting and a
+ * Gordon growth terminal value. Returns null when the base revenue is missing
+ * or WACC does not exceed terminal growth, where the model has no answer.
+ */
+export function runDcf(base: DcfBase, assumptions: DcfAssumptions): DcfResult | null {
+  const { wacc, terminal_growth: terminalGrowth } = assumptions;
+  if (base.revenue === null || wacc <= terminalGrowth) return null;
+
+  const projections: DcfProjectionYear[] = [];
+  let revenue = base.revenue;
+  let workingCapital = revenue * assumptions.nwc_percent;
+
+  for (let year = 1; year <= assumptions.years; year += 1) {
+    revenue *= 1 + assumptions.revenue_growth;
+    const nextWorkingCapital = revenue * assumptions.nwc_percent;
+    const operatingIncome = revenue * assumptions.operating_margin;
+    const nopat = operatingIncome * (1 - assumptions.tax_rate);
+    const depreciation = revenue * assumptions.da_percent;
+    const capex = revenue * assumptions.capex_percent;
+    const nwcChange = nextWorkingCapital - workingCapital;
+    const freeCashFlow = nopat + depreciation - capex - nwcChange;
+    const discountFactor = 1 / Math.pow(1 + wacc, year);
+
+    projections.push({
+      year,
+      revenue,
+      operating_income: operatingIncome,
+      nopat,
+      depreciation,
+      capex,
+      nwc_change: nwcChange,
+      free_cash_flow: freeCashFlow,
+      discount_factor: discountFactor,
+      present_value: freeCashFlow * discountFactor,
+    });
+    workingCapital = nextWorkingCapital;
+  }
+
+  const last = projections[projections.length - 1];
+  const pvOfCashFlows = projections.reduce((sum, year) => sum + year.present_value, 0);
+  const terminalValue = (last.free_cash_flow * (1 + terminalGrowth)) / (wacc - terminalGrowth);
+  const pvOfTerminalValue = terminalValue * last.discount_factor;
+  const enterpriseValue = pvOfCashFlows + pvOfTerminalValue;
+  const equityValue = base.net_debt === null ? null : enterpriseValue - base.net_debt;
+
+  return {
+    projections,
+    pv_of_cash_flows: pvOfCashFlows,
+    terminal_value: terminalValue,
+    pv_of_terminal_value: pvOfTerminalValue,
+    enterprise_value: enterpriseValue,
+    equity_value: equityValue,
+    value_per_share: equityValue !== null && base.shares ? equityValue / base.shares : null,
+  };
+}
+
+export interface SensitivityGrid {
+  waccs: number[];
+  terminalGrowths: number[];
+  /** `values[i][j]` is the value per share at `waccs[i]` and `terminalGrowths[j]`. */
+  values: (number | null)[][];
+}
+
+const SENSITIVITY_OFFSETS = [-0.01, -0.005, 0, 0.005, 0.01];
+
+/** Value per share across WACC and terminal growth, centred on the current assumptions. */
+export function sensitivityGrid(base: DcfBase, assumptions: DcfAssumptions): SensitivityGrid {
+  const waccs = SENSITIVITY_OFFSETS.map((offset) => round(assumptions.wacc + offset)).filter((wacc) => wacc > 0);
+  const terminalGrowths = SENSITIVITY_OFFSETS.map((offset) => round(assumptions.terminal_growth + offset));
+
+  return {
+    waccs,
+    terminalGrowths,
+    values: waccs.map((wacc) =>
+      terminalGrowths.map(
+        (terminalGrowth) =>
+          runDcf(base, { ...assumptions, wacc, terminal_growth: terminalGrowth })?.value_per_share ?? null
+      )
+    ),
+  };
+}
@@ -0,0 +1,34 @@
+import { computeGrowth, computeTtm } from '@/lib/growth';
+import { computePeriods } from '@/lib/periods';
+import { checkDataQuality } from '@/lib/quality';
+import { computeRatios } from '@/lib/ratios';
+import type { FinancialData, Growth, Periods, Quality, Ratios, SectionStatuses, Ttm } from '@/lib/schema';
+import { resolveSections } from '@/lib/sections';
+
+export type EnrichedFinancialData = FinancialData & {
+  ratios: Ratios;
+  ttm: Ttm | null;
+  growth: Growth;
+  periods: Periods;
+  quality: Quality;
+  sections: Required<SectionStatuses>;
+  warnings: string[];
+};
+
+/**
+ * Adds the fields the API derives from `financial_statements`. Fields that are
+ * already present are kept, and section statuses resolve the same way twice,
+ * so this is safe to call on an API response.
+ */
+export function enrichFinancialData(data: FinancialData): EnrichedFinancialData {
+  const statements = data.financial_statements;
+  return {
+    ...data,
+    ratios: data.ratios ?? computeRatios(statements),
+    ttm: data.ttm === undefined ? computeTtm(statements.quarterly) : data.ttm,
+    growth: data.growth ?? computeGrowth(statements),
+    periods: data.periods ?? computePeriods(data),
+    quality: data.quality ?? checkDataQuality(data),
+    ...resolveSections(data),
+  };
+}
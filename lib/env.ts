@@ -0,0 +1,7 @@
+/** Parses a non-negative numeric environment variable, falling back when unset or invalid. */
+export const readNumberEnv = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+};
@@ -0,0 +1,260 @@
+import type { SchemaIssue } from '@/lib/schema';
+
+export type FinancialDataErrorCode =
+  | 'invalid_symbol'
+  | 'symbol_not_found'
+  | 'queue_full'
+  | 'service_unavailable'
+  | 'timeout'
+  | 'upstream_failure'
+  | 'parse_failure'
+  | 'malformed_payload'
+  | 'unsupported_currency'
+  | 'assumption_set_not_found'
+  | 'watchlist_not_found'
+  | 'invalid_screen'
+  | 'screen_not_found'
+  | 'snapshot_not_found'
+  | 'invalid_alert_rule'
+  | 'alert_rule_not_found'
+  | 'portfolio_not_found';
+
+export interface ErrorBody {
+  error: string;
+  code?: FinancialDataErrorCode;
+  details?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Base class for failures that the API maps onto a specific HTTP status
+ * instead of a generic 500.
+ */
+export abstract class FinancialDataError extends Error {
+  abstract readonly code: FinancialDataErrorCode;
+  abstract readonly status: number;
+
+  toJSON(): ErrorBody {
+    return { error: this.message, code: this.code };
+  }
+}
+
+export class InvalidSymbolError extends FinancialDataError {
+  readonly code = 'invalid_symbol';
+  readonly status = 400;
+
+  constructor(public readonly symbol: string) {
+    super(`"${symbol}" is not a valid ticker symbol`);
+    this.name = 'InvalidSymbolError';
+  }
+}
+
+export class SymbolNotFoundError extends FinancialDataError {
+  readonly code = 'symbol_not_found';
+  readonly status = 404;
+
+  constructor(public readonly symbol: string) {
+    super(`No financial data found for ${symbol}`);
+    this.name = 'SymbolNotFoundError';
+  }
+}
+
+export class QueueFullError extends FinancialDataError {
+  readonly code = 'queue_full';
+  readonly status = 429;
+
+  constructor(public readonly retryAfterSeconds: number) {
+    super('Too many requests are waiting for data, please retry shortly');
+    this.name = 'QueueFullError';
+  }
+}
+
+export class ServiceUnavailableError extends FinancialDataError {
+  readonly code = 'service_unavailable';
+  readonly status = 503;
+
+  constructor(message: string, public readonly retryAfterSeconds: number) {
+    super(message);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+export class ProviderTimeoutError extends FinancialDataError {
+  readonly code = 'timeout';
+  readonly status = 504;
+
+  constructor(public readonly provider: string, public readonly timeoutMs: number) {
+    super(`Data provider "${provider}" did not respond within ${timeoutMs}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+export class UpstreamError extends FinancialDataError {
+  readonly code = 'upstream_failure';
+  readonly status = 502;
+
+  constructor(public readonly provider: string, public readonly details: string) {
+    super(`Data provider "${provider}" failed to fetch stock data`);
+    this.name = 'UpstreamError';
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), details: this.details };
+  }
+}
+
+/** The provider produced output that is not JSON at all. */
+export class ParseError extends FinancialDataError {
+  readonly code = 'parse_failure';
+  readonly status = 500;
+
+  constructor(public readonly provider: string, public readonly details: string) {
+    super(`Failed to parse output from data provider "${provider}"`);
+    this.name = 'ParseError';
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), details: this.details };
+  }
+}
+
+/** The provider produced JSON that does not match FinancialDataSchema. */
+export class MalformedPayloadError extends FinancialDataError {
+  readonly code = 'malformed_payload';
+  readonly status = 502;
+
+  constructor(
+    public readonly provider: string,
+    public readonly issues: SchemaIssue[]
+  ) {
+    super(`Data provider "${provider}" returned malformed financial data`);
+    this.name = 'MalformedPayloadError';
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), provider: this.provider, issues: this.issues };
+  }
+}
+
+export class UnsupportedCurrencyError extends FinancialDataError {
+  readonly code = 'unsupported_currency';
+  readonly status = 400;
+
+  constructor(public readonly currency: string) {
+    super(`No exchange rate is available for "${currency}"`);
+    this.name = 'UnsupportedCurrencyError';
+  }
+}
+
+export class AssumptionSetNotFoundError extends FinancialDataError {
+  readonly code = 'assumption_set_not_found';
+  readonly status = 404;
+
+  constructor(public readonly symbol: string, public readonly id: string) {
+    super(`No saved assumption set "${id}" for ${symbol}`);
+    this.name = 'AssumptionSetNotFoundError';
+  }
+}
+
+export class WatchlistNotFoundError extends FinancialDataError {
+  readonly code = 'watchlist_not_found';
+  readonly status = 404;
+
+  constructor(public readonly id: string) {
+    super(`No watchlist "${id}"`);
+    this.name = 'WatchlistNotFoundError';
+  }
+}
+
+export class ScreenExpressionError extends FinancialDataError {
+  readonly code = 'invalid_screen';
+  readonly status = 400;
+
+  /** `position` is the character offset in the expression where parsing failed. */
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'ScreenExpressionError';
+  }
+
+  toJSON(): ErrorBody {
+    return { ...super.toJSON(), position: this.position };
+  }
+}
+
+export class ScreenNotFoundError extends FinancialDataError {
+  readonly code = 'screen_not_found';
+  readonly status = 404;
+
+  constructor(public readonly id: string) {
+    super(`No saved screen "${id}"`);
+    this.name = 'ScreenNotFoundError';
+  }
+}
+
+export class SnapshotNotFoundError extends FinancialDataError {
+  readonly code = 'snapshot_not_found';
+  readonly status = 404;
+
+  constructor(public readonly symbol: string, public readonly version: number) {
+    super(`No snapshot ${version} for ${symbol}`);
+    this.name = 'SnapshotNotFoundError';
+  }
+}
+
+export class InvalidAlertRuleError extends FinancialDataError {
+  readonly code = 'invalid_alert_rule';
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAlertRuleError';
+  }
+}
+
+export class AlertRuleNotFoundError extends FinancialDataError {
+  readonly code = 'alert_rule_not_found';
+  readonly status = 404;
+
+  constructor(public readonly id: string) {
+    super(`No alert rule "${id}"`);
+    this.name = 'AlertRuleNotFoundError';
+  }
+}
+
+export class PortfolioNotFoundError extends FinancialDataError {
+  readonly code = 'portfolio_not_found';
+  readonly status = 404;
+
+  constructor(public readonly id: string) {
+    super(`No portfolio "${id}"`);
+    this.name = 'PortfolioNotFoundError';
+  }
+}
+
+/** JSON body for any error, falling back to a generic message for unexpected ones. */
+export function toErrorBody(error: unknown): ErrorBody {
+  if (error instanceof FinancialDataError) {
+    return error.toJSON();
+  }
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return { error: 'Failed to fetch stock data', details: errorMessage };
+}
+
+/**
+ * Response for an error an API route caught: a FinancialDataError gets its own
+ * status, with Retry-After when the queue or provider asks clients to back
+ * off; anything else is logged under `label` and becomes a 500.
+ */
+export function errorResponse(error: unknown, label: string): Response {
+  if (error instanceof FinancialDataError) {
+    if (error.status >= 500) console.error(`${label} Error:`, error.message);
+    const headers: Record<string, string> = {};
+    if (error instanceof QueueFullError || error instanceof ServiceUnavailableError) {
+      headers['Retry-After'] = String(error.retryAfterSeconds);
+    }
+    return Response.json(error.toJSON(), { status: error.status, headers });
+  }
+
+  console.error(`${label} Error:`, error);
+  return Response.json(toErrorBody(error), { status: 500 });
+}
@@ -0,0 +1,195 @@
+import { formatMetricName } from '@/lib/format';
+import {
+  STATEMENT_TYPES,
+  type FinancialData,
+  type Periodicity,
+  type StatementCollection,
+  type StatementType,
+} from '@/lib/schema';
+
+export const EXPORT_FORMATS = ['csv', 'xls', 'json', 'markdown'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  periodicity: Periodicity;
+  /**
+   * Restricts CSV output to one statement in wide format. Without it, CSV is a
+   * single long-format file covering every statement.
+   */
+  statement?: StatementType;
+}
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+export const isExportFormat = (value: string): value is ExportFormat =>
+  (EXPORT_FORMATS as readonly string[]).includes(value);
+
+// Exports keep every digit; compact `$1.2B` formatting is for the screen only.
+const formatRawValue = (value: number | null | undefined): string =>
+  value === null || value === undefined ? '' : String(value);
+
+const sortedDates = (collection: StatementCollection) => Object.keys(collection).sort().reverse();
+
+const lineItemsOf = (collection: StatementCollection): string[] => {
+  const items = new Set<string>();
+  for (const statement of Object.values(collection)) {
+    Object.keys(statement).forEach((item) => items.add(item));
+  }
+  return Array.from(items);
+};
+
+/** Line items as rows, periods (newest first) as columns. */
+const toWideRows = (collection: StatementCollection): string[][] => {
+  const dates = sortedDates(collection);
+  return [
+    ['Line Item', ...dates],
+    ...lineItemsOf(collection).map((item) => [
+      item,
+      ...dates.map((date) => formatRawValue(collection[date]?.[item])),
+    ]),
+  ];
+};
+
+const escapeCsv = (field: string): string =>
+  /[",\n\r]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+const toCsv = (rows: string[][]): string =>
+  rows.map((row) => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+
+function buildCsv(data: FinancialData, periodicity: Periodicity, statement?: StatementType): string {
+  const statements = data.financial_statements[periodicity];
+
+  if (statement) {
+    return toCsv(toWideRows(statements[statement]));
+  }
+
+  const rows = [['symbol', 'periodicity', 'statement', 'period', 'line_item', 'value']];
+  for (const statementType of STATEMENT_TYPES) {
+    const collection = statements[statementType];
+    for (const date of sortedDates(collection)) {
+      for (const [item, value] of Object.entries(collection[date])) {
+        rows.push([data.symbol, periodicity, statementType, date, item, formatRawValue(value)]);
+      }
+    }
+  }
+  return toCsv(rows);
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const xmlCell = (value: string, isNumber: boolean) =>
+  isNumber
+    ? `<Cell><Data ss:Type="Number">${value}</Data></Cell>`
+    : `<Cell><Data ss:Type="String">${escapeXml(value)}</Data></Cell>`;
+
+/**
+ * SpreadsheetML 2003 workbook with one worksheet per statement. Excel,
+ * LibreOffice and Numbers all open it natively and keep numbers as numbers.
+ */
+function buildWorkbook(data: FinancialData, periodicity: Periodicity): string {
+  const statements = data.financial_statements[periodicity];
+
+  const worksheets = STATEMENT_TYPES.map((statementType) => {
+    const rows = toWideRows(statements[statementType]).map((row, rowIndex) => {
+      const cells = row.map((value, columnIndex) =>
+        xmlCell(value, rowIndex > 0 && columnIndex > 0 && value !== '')
+      );
+      return `<Row>${cells.join('')}</Row>`;
+    });
+
+    return [
+      `<Worksheet ss:Name="${escapeXml(formatMetricName(statementType))}">`,
+      '<Table>',
+      ...rows,
+      '</Table>',
+      '</Worksheet>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    ...worksheets,
+    '</Workbook>',
+    '',
+  ].join('\n');
+}
+
+const escapeMarkdown = (value: string): string => value.replace(/\|/g, '\\|');
+
+function buildMarkdown(data: FinancialData, periodicity: Periodicity): string {
+  const statements = data.financial_statements[periodicity];
+  const sections = [`# ${data.company_info.name} (${data.symbol}) - ${formatMetricName(periodicity)}`];
+
+  for (const statementType of STATEMENT_TYPES) {
+    const [header, ...rows] = toWideRows(statements[statementType]);
+    sections.push(
+      [
+        `## ${formatMetricName(statementType)}`,
+        '',
+        `| ${header.map(escapeMarkdown).join(' | ')} |`,
+        `| --- |${' ---: |'.repeat(header.length - 1)}`,
+        ...rows.map((row) => `| ${row.map(escapeMarkdown).join(' | ')} |`),
+      ].join('\n')
+    );
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+function buildJson(data: FinancialData, periodicity: Periodicity): string {
+  return JSON.stringify(
+    {
+      symbol: data.symbol,
+      periodicity,
+      company_info: data.company_info,
+      financial_statements: data.financial_statements[periodicity],
+      metrics: data.metrics,
+    },
+    null,
+    2
+  );
+}
+
+/** Serialises the statements for `periodicity` into a downloadable file. */
+export function buildExport(data: FinancialData, { format, periodicity, statement }: ExportOptions): ExportFile {
+  const baseName = `${data.symbol}_${periodicity}`;
+
+  switch (format) {
+    case 'csv':
+      return {
+        filename: `${baseName}_${statement ?? 'statements'}.csv`,
+        contentType: 'text/csv; charset=utf-8',
+        body: buildCsv(data, periodicity, statement),
+      };
+    case 'xls':
+      return {
+        filename: `${baseName}.xls`,
+        contentType: 'application/vnd.ms-excel',
+        body: buildWorkbook(data, periodicity),
+      };
+    case 'json':
+      return {
+        filename: `${baseName}.json`,
+        contentType: 'application/json',
+        body: buildJson(data, periodicity),
+      };
+    case 'markdown':
+      return {
+        filename: `${baseName}.md`,
+        contentType: 'text/markdown; charset=utf-8',
+        body: buildMarkdown(data, periodicity),
+      };
+  }
+}
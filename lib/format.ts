@@ -0,0 +1,165 @@
+import type { MetricKind } from '@/lib/metrics';
+
+export const UNIT_SCALES = ['auto', 'units', 'thousands', 'millions', 'billions'] as const;
+export type UnitScale = (typeof UNIT_SCALES)[number];
+
+export const isUnitScale = (value: string): value is UnitScale =>
+  (UNIT_SCALES as readonly string[]).includes(value);
+
+const SCALE_DIVISORS: Record<Exclude<UnitScale, 'auto'>, { divisor: number; suffix: string }> = {
+  units: { divisor: 1, suffix: '' },
+  thousands: { divisor: 1e3, suffix: 'K' },
+  millions: { divisor: 1e6, suffix: 'M' },
+  billions: { divisor: 1e9, suffix: 'B' },
+};
+
+export const LOCALES = ['en-US', 'en-GB', 'de-DE', 'fr-FR', 'ja-JP'] as const;
+
+/** How numbers are rendered on screen; exports always keep raw values. */
+export interface DisplayFormat {
+  locale: string;
+  /** ISO 4217 code to label currency values with. */
+  currency: string;
+  scale: UnitScale;
+  /**
+   * Multiplier applied to currency values before display, converting them
+   * from the currency they were reported in to `currency`.
+   */
+  rate: number;
+}
+
+export const DEFAULT_DISPLAY_FORMAT: DisplayFormat = {
+  locale: 'en-US',
+  currency: 'USD',
+  scale: 'auto',
+  rate: 1
+};
+
+// Shared by currency amounts and counts, which differ only in the currency symbol.
+const formatScaled = (value: number, format: DisplayFormat, currency: string | null) => {
+  const style: Intl.NumberFormatOptions = currency ? { style: 'currency', currency } : {};
+
+  if (format.scale === 'auto') {
+    return new Intl.NumberFormat(format.locale, {
+      ...style,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+      notation: Math.abs(value) > 1e9 ? 'compact' : 'standard'
+    }).format(value);
+  }
+
+  const { divisor, suffix } = SCALE_DIVISORS[format.scale];
+  const parts = new Intl.NumberFormat(format.locale, {
+    ...style,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: divisor === 1 ? 0 : 1
+  }).formatToParts(value / divisor);
+
+  // The suffix belongs to the number, not the symbol: `383.285,0M €` in de-DE.
+  const lastDigit = parts.map((part) => part.type).findLastIndex((type) => type === 'integer' || type === 'fraction');
+  return parts.map((part, index) => (index === lastDigit ? part.value + suffix : part.value)).join('');
+};
+
+export const formatCurrency = (value: number | null, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT) => {
+  if (value === null) return 'N/A';
+  return formatScaled(value * format.rate, format, format.currency);
+};
+
+/** Share counts and other quantities: scaled like currency, but never converted. */
+export const formatCount = (value: number | null, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT) => {
+  if (value === null) return 'N/A';
+  return formatScaled(value, format, null);
+};
+
+/** Per-share amounts keep their cents and ignore the unit scale. */
+export const formatPerShare = (value: number | null, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT) => {
+  if (value === null) return 'N/A';
+  return new Intl.NumberFormat(format.locale, {
+    style: 'currency',
+    currency: format.currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(value * format.rate);
+};
+
+/** Every digit, for tooltips and other places where the compact form hides too much. */
+export const formatExactCurrency = (value: number | null, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT) => {
+  if (value === null) return 'N/A';
+  return new Intl.NumberFormat(format.locale, {
+    style: 'currency',
+    currency: format.currency,
+    maximumFractionDigits: 2
+  }).format(value * format.rate);
+};
+
+/** Short axis labels such as `$1.2B`, regardless of the chosen unit scale. */
+export const formatCompactCurrency = (value: number | null, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT) => {
+  if (value === null) return 'N/A';
+  return new Intl.NumberFormat(format.locale, {
+    style: 'currency',
+    currency: format.currency,
+    notation: 'compact'
+  }).format(value * format.rate);
+};
+
+export const formatPercentage = (value: number | null, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT) => {
+  if (value === null) return 'N/A';
+  return new Intl.NumberFormat(format.locale, {
+    style: 'percent',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(value);
+};
+
+const formatDecimal = (value: number, digits: number, locale: string) =>
+  new Intl.NumberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+
+export const formatMultiple = (value: number | null, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT) => {
+  if (value === null) return 'N/A';
+  return `${formatDecimal(value, 2, format.locale)}x`;
+};
+
+export const formatDays = (value: number | null, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT) => {
+  if (value === null) return 'N/A';
+  return `${formatDecimal(value, 1, format.locale)} days`;
+};
+
+export const formatNumber = (value: number | null, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT) => {
+  if (value === null) return 'N/A';
+  return formatDecimal(value, 2, format.locale);
+};
+
+/** Formats `value` according to its MetricKind; see lib/metrics.ts. */
+export const formatValue = (value: number | null, kind: MetricKind, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT) => {
+  switch (kind) {
+    case 'currency':
+      return formatCurrency(value, format);
+    case 'per_share':
+      return formatPerShare(value, format);
+    case 'percent':
+      return formatPercentage(value, format);
+    case 'multiple':
+      return formatMultiple(value, format);
+    case 'days':
+      return formatDays(value, format);
+    case 'count':
+      return formatCount(value, format);
+    case 'number':
+      return formatNumber(value, format);
+  }
+};
+
+export const formatMetricName = (key: string): string => {
+  return key
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+export const formatPeriodDate = (date: string, locale = 'en-US'): string => {
+  return new Date(date).toLocaleDateString(locale, {
+    year: 'numeric',
+    month: 'short',
+    timeZone: 'UTC'
+  });
+};
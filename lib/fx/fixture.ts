@@ -0,0 +1,38 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { ParseError, UnsupportedCurrencyError } from '@/lib/errors';
+import type { FxRateSource } from './types';
+
+interface RateTable {
+  base: string;
+  as_of: string;
+  /** Units of each currency per one unit of `base`. */
+  rates: Record<string, number>;
+}
+
+const fixturePath = () =>
+  process.env.FX_FIXTURE_PATH || path.join(process.cwd(), 'fixtures', 'fx', 'rates.json');
+
+async function readRateTable(): Promise<RateTable> {
+  const file = fixturePath();
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as RateTable;
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    throw new ParseError('fx-fixture', `${file}: ${errorMessage}`);
+  }
+}
+
+/** Cross rates derived from a single static table, for offline development and demos. */
+export const fixtureFxSource: FxRateSource = {
+  name: 'fixture',
+  async getRate(from, to) {
+    const table = await readRateTable();
+    const fromRate = table.rates[from];
+    const toRate = table.rates[to];
+    if (!fromRate) throw new UnsupportedCurrencyError(from);
+    if (!toRate) throw new UnsupportedCurrencyError(to);
+
+    return { from, to, rate: toRate / fromRate, as_of: table.as_of, source: 'fixture' };
+  },
+};
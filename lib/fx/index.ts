@@ -0,0 +1,24 @@
+import { fixtureFxSource } from './fixture';
+import type { FxRateSource, FxSourceName } from './types';
+
+export type { FxRate, FxRateSource, FxSourceName } from './types';
+
+const sources: Record<FxSourceName, FxRateSource> = {
+  fixture: fixtureFxSource,
+};
+
+const isFxSourceName = (value: string): value is FxSourceName => value in sources;
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+export const isCurrencyCode = (value: string): boolean => CURRENCY_PATTERN.test(value);
+
+/** Resolves the FX source named by FX_RATE_SOURCE, defaulting to the local fixture. */
+export function getFxRateSource(name = process.env.FX_RATE_SOURCE): FxRateSource {
+  if (!name) return fixtureFxSource;
+
+  if (!isFxSourceName(name)) {
+    throw new Error(`Unknown FX rate source "${name}". Expected one of: ${Object.keys(sources).join(', ')}`);
+  }
+  return sources[name];
+}
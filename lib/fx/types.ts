@@ -0,0 +1,17 @@
+export type FxSourceName = 'fixture';
+
+export interface FxRate {
+  from: string;
+  to: string;
+  /** Units of `to` per one unit of `from`. */
+  rate: number;
+  /** Date the rate was observed, as `YYYY-MM-DD`. */
+  as_of: string;
+  source: FxSourceName;
+}
+
+export interface FxRateSource {
+  name: FxSourceName;
+  /** Rejects with UnsupportedCurrencyError when either currency is unknown. */
+  getRate(from: string, to: string): Promise<FxRate>;
+}
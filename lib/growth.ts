@@ -0,0 +1,164 @@
+import {
+  STATEMENT_TYPES,
+  getLineItemKind,
+  type FinancialStatement,
+  type FinancialStatements,
+  type Growth,
+  type LineGrowth,
+  type Periodicity,
+  type StatementCollection,
+  type StatementGrowth,
+  type StatementType,
+  type Ttm,
+} from '@/lib/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS;
+
+// Period ends drift by a few days between fiscal years (52/53-week calendars),
+// so match comparison periods by approximate distance rather than exact date.
+const findPriorPeriod = (dates: string[], date: string, minDays: number, maxDays: number) =>
+  dates.find((candidate) => {
+    const gap = daysBetween(candidate, date);
+    return gap >= minDays && gap <= maxDays;
+  });
+
+const YEAR_WINDOW: [number, number] = [330, 400];
+const QUARTER_WINDOW: [number, number] = [60, 120];
+
+/** Percentage change measured against the magnitude of the base, so sign flips read sensibly. */
+export const percentChange = (current: number | null, previous: number | null): number | null => {
+  if (current === null || previous === null || previous === 0) return null;
+  return (current - previous) / Math.abs(previous);
+};
+
+const cagr = (collection: StatementCollection, item: string): number | null => {
+  const points = Object.keys(collection)
+    .sort()
+    .map((date) => ({ date, value: collection[date]?.[item] ?? null }))
+    .filter((point): point is { date: string; value: number } => point.value !== null);
+  if (points.length < 2) return null;
+
+  const start = points[0];
+  const end = points[points.length - 1];
+  const years = daysBetween(start.date, end.date) / 365.25;
+  if (years < 1 || start.value <= 0 || end.value <= 0) return null;
+
+  return Math.pow(end.value / start.value, 1 / years) - 1;
+};
+
+const lineItemsOf = (collection: StatementCollection): string[] => {
+  const items = new Set<string>();
+  Object.values(collection).forEach((statement) => Object.keys(statement).forEach((item) => items.add(item)));
+  return Array.from(items);
+};
+
+/**
+ * YoY and QoQ change between the latest period and its comparison period,
+ * plus the compound annual growth rate across the annual history.
+ */
+export function computeStatementGrowth(
+  collection: StatementCollection,
+  periodicity: Periodicity,
+  annualCollection: StatementCollection
+): StatementGrowth {
+  const dates = Object.keys(collection).sort().reverse();
+  const latest = dates[0];
+  if (!latest) return {};
+
+  const yearAgo = findPriorPeriod(dates, latest, ...YEAR_WINDOW);
+  const quarterAgo = periodicity === 'quarterly' ? findPriorPeriod(dates, latest, ...QUARTER_WINDOW) : undefined;
+
+  const growth: StatementGrowth = {};
+  for (const item of lineItemsOf(collection)) {
+    const current = collection[latest]?.[item] ?? null;
+    const line: LineGrowth = {
+      yoy: yearAgo ? percentChange(current, collection[yearAgo]?.[item] ?? null) : null,
+      qoq: quarterAgo ? percentChange(current, collection[quarterAgo]?.[item] ?? null) : null,
+      // CAGR is always taken from annual figures; quarterly history is too short.
+      cagr: cagr(annualCollection, item),
+    };
+    growth[item] = line;
+  }
+  return growth;
+}
+
+export function computeGrowth(financialStatements: Record<Periodicity, FinancialStatements>): Growth {
+  const build = (periodicity: Periodicity) =>
+    Object.fromEntries(
+      STATEMENT_TYPES.map((statementType) => [
+        statementType,
+        computeStatementGrowth(
+          financialStatements[periodicity][statementType],
+          periodicity,
+          financialStatements.annual[statementType]
+        ),
+      ])
+    ) as Record<StatementType, StatementGrowth>;
+
+  return { quarterly: build('quarterly'), annual: build('annual') };
+}
+
+// Three quarter-ends apart, allowing for 52/53-week calendars.
+const TTM_SPAN_WINDOW: [number, number] = [250, 300];
+
+/**
+ * The latest four quarter-end dates, newest first, when they are four
+ * consecutive fiscal quarters; null when fewer are reported or one is missing
+ * in between, since their sum would then span more than a year.
+ */
+const latestFourQuarters = (collection: StatementCollection): string[] | null => {
+  const lastFour = Object.keys(collection).sort().reverse().slice(0, 4);
+  if (lastFour.length < 4) return null;
+
+  const consecutive = lastFour.slice(1).every((date, index) => {
+    const gap = daysBetween(date, lastFour[index]);
+    return gap >= QUARTER_WINDOW[0] && gap <= QUARTER_WINDOW[1];
+  });
+  const span = daysBetween(lastFour[3], lastFour[0]);
+  return consecutive && span >= TTM_SPAN_WINDOW[0] && span <= TTM_SPAN_WINDOW[1] ? lastFour : null;
+};
+
+/**
+ * One statement's TTM over the income statement's quarters `dates` (newest
+ * first), so every statement covers the same window. A line item missing from
+ * any of those quarters has no TTM value.
+ */
+const ttmStatement = (
+  collection: StatementCollection,
+  statementType: StatementType,
+  dates: string[]
+): FinancialStatement => {
+  const ttm: FinancialStatement = {};
+
+  for (const item of lineItemsOf(collection)) {
+    if (getLineItemKind(statementType, item) === 'stock') {
+      ttm[item] = collection[dates[0]]?.[item] ?? null;
+    } else {
+      const values = dates.map((date) => collection[date]?.[item] ?? null);
+      ttm[item] = values.every((value) => value !== null)
+        ? (values as number[]).reduce((sum, value) => sum + value, 0)
+        : null;
+    }
+  }
+  return ttm;
+};
+
+/**
+ * Trailing twelve months built from the income statement's latest four
+ * quarters: flow items are summed, stock items take the balance at the last of
+ * them. Returns null unless those are four consecutive quarters.
+ */
+export function computeTtm(quarterly: FinancialStatements): Ttm | null {
+  const dates = latestFourQuarters(quarterly.income_statement);
+  if (!dates) return null;
+
+  return {
+    period_end: dates[0],
+    income_statement: ttmStatement(quarterly.income_statement, 'income_statement', dates),
+    balance_sheet: ttmStatement(quarterly.balance_sheet, 'balance_sheet', dates),
+    cash_flow: ttmStatement(quarterly.cash_flow, 'cash_flow', dates),
+  };
+}
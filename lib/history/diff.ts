@@ -0,0 +1,112 @@
+import { PERIODICITIES, STATEMENT_TYPES, type FinancialData, type Periodicity, type StatementType } from '@/lib/schema';
+import type { Snapshot, SnapshotSummary } from './store';
+
+/** `added` and `removed` are line items of a period both snapshots report. */
+export type LineChangeKind = 'changed' | 'added' | 'removed';
+
+export interface LineChange {
+  periodicity: Periodicity;
+  statement: StatementType;
+  date: string;
+  line_item: string;
+  kind: LineChangeKind;
+  before: number | null;
+  after: number | null;
+  /** `after - before`; null unless both are numbers. */
+  change: number | null;
+  /** `change` relative to `before`; null when `before` is missing or zero. */
+  change_percent: number | null;
+  /** Snapshot the value took its final form in. */
+  changed_in: number;
+  changed_at: string;
+}
+
+export interface PeriodChange {
+  periodicity: Periodicity;
+  statement: StatementType;
+  date: string;
+}
+
+export interface SnapshotDiff {
+  symbol: string;
+  from: SnapshotSummary;
+  to: SnapshotSummary;
+  /** Periods only the later snapshot reports, typically a new filing. */
+  added_periods: PeriodChange[];
+  /** Periods only the earlier snapshot reports. */
+  removed_periods: PeriodChange[];
+  /** Line items of periods both snapshots report, whose value differs. */
+  changes: LineChange[];
+}
+
+/** Value of one cell: undefined when the line item or period is absent altogether. */
+const valueIn = (data: FinancialData, periodicity: Periodicity, statement: StatementType, date: string, item: string) =>
+  data.financial_statements[periodicity][statement][date]?.[item];
+
+const summarize = ({ data: _data, ...summary }: Snapshot): SnapshotSummary => summary;
+
+/**
+ * Compares the first and last of `snapshots` (oldest first). The snapshots in
+ * between only date the changes: each one is attributed to the snapshot after
+ * which its value no longer moved.
+ */
+export function diffSnapshots(snapshots: Snapshot[]): SnapshotDiff {
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  const diff: SnapshotDiff = {
+    symbol: last.symbol,
+    from: summarize(first),
+    to: summarize(last),
+    added_periods: [],
+    removed_periods: [],
+    changes: [],
+  };
+
+  for (const periodicity of PERIODICITIES) {
+    for (const statement of STATEMENT_TYPES) {
+      const before = first.data.financial_statements[periodicity][statement];
+      const after = last.data.financial_statements[periodicity][statement];
+      const dates = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+        .sort()
+        .reverse();
+
+      for (const date of dates) {
+        if (!(date in before)) {
+          diff.added_periods.push({ periodicity, statement, date });
+          continue;
+        }
+        if (!(date in after)) {
+          diff.removed_periods.push({ periodicity, statement, date });
+          continue;
+        }
+
+        const items = new Set([...Object.keys(before[date]), ...Object.keys(after[date])]);
+        for (const item of items) {
+          const from = before[date][item];
+          const to = after[date][item];
+          if (from === to) continue;
+
+          let settled = snapshots.length - 1;
+          while (settled > 1 && valueIn(snapshots[settled - 1].data, periodicity, statement, date, item) === to) {
+            settled -= 1;
+          }
+          const change = typeof from === 'number' && typeof to === 'number' ? to - from : null;
+          diff.changes.push({
+            periodicity,
+            statement,
+            date,
+            line_item: item,
+            kind: from === undefined ? 'added' : to === undefined ? 'removed' : 'changed',
+            before: from ?? null,
+            after: to ?? null,
+            change,
+            change_percent: change !== null && from ? change / Math.abs(from) : null,
+            changed_in: snapshots[settled].version,
+            changed_at: snapshots[settled].fetched_at,
+          });
+        }
+      }
+    }
+  }
+  return diff;
+}
@@ -0,0 +1,99 @@
+import { createHash } from 'crypto';
+import { readNumberEnv } from '@/lib/env';
+import { SnapshotNotFoundError } from '@/lib/errors';
+import { PERIODICITIES, STATEMENT_TYPES, type FinancialData } from '@/lib/schema';
+import { processSingleton } from '@/lib/singleton';
+import { diffSnapshots, type SnapshotDiff } from './diff';
+import {
+  createFileHistoryStore,
+  createMemoryHistoryStore,
+  type HistoryStore,
+  type Snapshot,
+  type SnapshotSummary,
+} from './store';
+
+export type { LineChange, LineChangeKind, PeriodChange, SnapshotDiff } from './diff';
+export { diffSnapshots } from './diff';
+export type { HistoryStore, Snapshot, SnapshotSummary } from './store';
+export { createFileHistoryStore, createMemoryHistoryStore } from './store';
+
+// At least one snapshot is always kept, or there would be nothing to compare the next fetch with.
+const maxSnapshots = () => Math.max(1, Math.floor(readNumberEnv(process.env.HISTORY_MAX_SNAPSHOTS, 100)));
+
+const getStore = (): HistoryStore =>
+  processSingleton('history', () => {
+    const directory = process.env.HISTORY_STORE_DIR;
+    return directory ? createFileHistoryStore(directory) : createMemoryHistoryStore();
+  });
+
+/**
+ * Hashes what `diffSnapshots` compares: every statement line item per period,
+ * in a fixed order so the provider's key order does not matter. Metrics,
+ * section statuses and warnings are left out, as they change between fetches
+ * without the statements changing.
+ */
+function statementsChecksum(data: FinancialData): string {
+  const cells = PERIODICITIES.flatMap((periodicity) =>
+    STATEMENT_TYPES.flatMap((statement) => {
+      const collection = data.financial_statements[periodicity][statement];
+      return Object.keys(collection)
+        .sort()
+        .flatMap((date) =>
+          Object.keys(collection[date])
+            .sort()
+            .map((item) => [periodicity, statement, date, item, collection[date][item]])
+        );
+    })
+  );
+  return createHash('sha1').update(JSON.stringify(cells)).digest('base64url');
+}
+
+/**
+ * Stores a successfully fetched payload as the symbol's next snapshot, unless
+ * its statements are identical to the latest one's. Resolves to the stored
+ * snapshot's summary, or null when nothing changed.
+ */
+export async function recordSnapshot(provider: string, data: FinancialData): Promise<SnapshotSummary | null> {
+  const { cached_at: _cachedAt, ...payload } = data;
+  const store = getStore();
+
+  const stored = await store.append({
+    symbol: data.symbol,
+    fetched_at: new Date().toISOString(),
+    provider,
+    checksum: statementsChecksum(payload),
+    data: payload,
+  });
+  if (!stored) return null;
+  await store.prune(data.symbol, maxSnapshots());
+  const { data: _data, ...summary } = stored;
+  return summary;
+}
+
+/** Snapshots of `symbol`, newest first. */
+export async function listSnapshots(symbol: string): Promise<SnapshotSummary[]> {
+  return (await getStore().list(symbol)).reverse();
+}
+
+/**
+ * Diffs snapshot `from` against the later snapshot `to`, using the snapshots
+ * in between to tell when each change happened.
+ */
+export async function diffSnapshotVersions(symbol: string, from: number, to: number): Promise<SnapshotDiff> {
+  const store = getStore();
+  const summaries = await store.list(symbol);
+  for (const version of [from, to]) {
+    if (!summaries.some((summary) => summary.version === version)) {
+      throw new SnapshotNotFoundError(symbol, version);
+    }
+  }
+
+  const versions = summaries.map((summary) => summary.version).filter((version) => version >= from && version <= to);
+  const snapshots = (await Promise.all(versions.map((version) => store.get(symbol, version)))).filter(
+    (snapshot): snapshot is Snapshot => snapshot !== undefined
+  );
+  // A prune between listing and loading can remove either end.
+  if (snapshots[0]?.version !== from) throw new SnapshotNotFoundError(symbol, from);
+  if (snapshots.at(-1)?.version !== to) throw new SnapshotNotFoundError(symbol, to);
+  return diffSnapshots(snapshots);
+}
@@ -0,0 +1,113 @@
+import { readFile, rm } from 'fs/promises';
+import path from 'path';
+import { writeJsonAtomic } from '@/lib/json-file';
+import type { FinancialData } from '@/lib/schema';
+
+export interface SnapshotSummary {
+  symbol: string;
+  /** 1 for the first snapshot of a symbol, counting up with every stored fetch. */
+  version: number;
+  fetched_at: string;
+  /** Name of the provider the payload came from. */
+  provider: string;
+  /**
+   * Hash of the statements in `data`, the part snapshots are diffed on, so a
+   * fetch that changes nothing there is not stored again.
+   */
+  checksum: string;
+}
+
+export interface Snapshot extends SnapshotSummary {
+  data: FinancialData;
+}
+
+export interface HistoryStore {
+  /** Oldest first. */
+  list(symbol: string): Promise<SnapshotSummary[]>;
+  get(symbol: string, version: number): Promise<Snapshot | undefined>;
+  /**
+   * Stores `snapshot` under the next version number for its symbol and returns
+   * it with that version, or returns null without storing it when its checksum
+   * matches the latest snapshot's.
+   */
+  append(snapshot: Omit<Snapshot, 'version'>): Promise<Snapshot | null>;
+  /** Drops the oldest snapshots of `symbol` beyond the newest `keep`. */
+  prune(symbol: string, keep: number): Promise<void>;
+}
+
+export function createMemoryHistoryStore(): HistoryStore {
+  const snapshots = new Map<string, Snapshot[]>();
+
+  return {
+    list: async (symbol) => (snapshots.get(symbol) ?? []).map(({ data: _data, ...summary }) => summary),
+    get: async (symbol, version) => snapshots.get(symbol)?.find((snapshot) => snapshot.version === version),
+    append: async (snapshot) => {
+      const current = snapshots.get(snapshot.symbol) ?? [];
+      if (current.at(-1)?.checksum === snapshot.checksum) return null;
+      const stored = { ...snapshot, version: (current.at(-1)?.version ?? 0) + 1 };
+      snapshots.set(snapshot.symbol, [...current, stored]);
+      return stored;
+    },
+    prune: async (symbol, keep) => {
+      snapshots.set(symbol, (snapshots.get(symbol) ?? []).slice(-keep));
+    },
+  };
+}
+
+/**
+ * One directory per symbol, holding `index.json` with the summaries and one
+ * `<version>.json` per snapshot, so listing never reads the payloads.
+ */
+export function createFileHistoryStore(directory: string): HistoryStore {
+  const symbolDirectory = (symbol: string) => path.join(directory, encodeURIComponent(symbol));
+  const indexPath = (symbol: string) => path.join(symbolDirectory(symbol), 'index.json');
+  const snapshotPath = (symbol: string, version: number) => path.join(symbolDirectory(symbol), `${version}.json`);
+  // Version numbers come from the index, so appends and prunes must not interleave.
+  let writing: Promise<unknown> = Promise.resolve();
+
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const next = writing.then(task);
+    writing = next.catch(() => undefined);
+    return next;
+  };
+
+  const read = async (symbol: string): Promise<SnapshotSummary[]> => {
+    try {
+      return JSON.parse(await readFile(indexPath(symbol), 'utf8'));
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    list: read,
+    async get(symbol, version) {
+      if (!(await read(symbol)).some((summary) => summary.version === version)) return undefined;
+      try {
+        return JSON.parse(await readFile(snapshotPath(symbol, version), 'utf8'));
+      } catch {
+        return undefined;
+      }
+    },
+    append: (snapshot) =>
+      serialize(async () => {
+        const summaries = await read(snapshot.symbol);
+        // Checked inside the queue, so concurrent fetches of the same data store it once.
+        if (summaries.at(-1)?.checksum === snapshot.checksum) return null;
+        const stored: Snapshot = { ...snapshot, version: (summaries.at(-1)?.version ?? 0) + 1 };
+        const { data: _data, ...summary } = stored;
+        // The payload goes first: an index entry must never point at a missing file.
+        await writeJsonAtomic(snapshotPath(stored.symbol, stored.version), stored);
+        await writeJsonAtomic(indexPath(stored.symbol), [...summaries, summary]);
+        return stored;
+      }),
+    prune: (symbol, keep) =>
+      serialize(async () => {
+        const summaries = await read(symbol);
+        if (summaries.length <= keep) return;
+        const dropped = summaries.slice(0, summaries.length - keep);
+        await writeJsonAtomic(indexPath(symbol), summaries.slice(-keep));
+        await Promise.all(dropped.map((summary) => rm(snapshotPath(symbol, summary.version), { force: true })));
+      }),
+  };
+}
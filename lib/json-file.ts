@@ -0,0 +1,21 @@
+import { randomUUID } from 'crypto';
+import { mkdir, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * Writes `value` as JSON to a temporary file next to `target`, then renames it
+ * into place, so a crash never leaves a truncated file behind. Every write
+ * gets its own temporary file, so concurrent writers cannot rename each
+ * other's. `space` indents the output as in `JSON.stringify`.
+ */
+export async function writeJsonAtomic(target: string, value: unknown, space?: number): Promise<void> {
+  await mkdir(path.dirname(target), { recursive: true });
+  const temp = `${target}.${process.pid}.${randomUUID()}.tmp`;
+  try {
+    await writeFile(temp, JSON.stringify(value, null, space), 'utf8');
+    await rename(temp, target);
+  } catch (error) {
+    await rm(temp, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,297 @@
+import { DEFAULT_DISPLAY_FORMAT, formatMetricName, formatValue, type DisplayFormat } from '@/lib/format';
+
+export type MetricKind = 'currency' | 'per_share' | 'percent' | 'multiple' | 'days' | 'count' | 'number';
+
+export interface MetricDefinition {
+  key: string;
+  label: string;
+  kind: MetricKind;
+  /** One-sentence definition, shown as a tooltip. */
+  description: string;
+  /** Whether a larger value is the better one, or null when size alone says nothing. */
+  higherIsBetter: boolean | null;
+  /**
+   * Multiplier applied to the provider's raw value before formatting. Yahoo
+   * reports a few percentages as whole numbers (209.06 meaning 209.06%).
+   */
+  scale?: number;
+}
+
+/** The `company_info.metrics` snapshot from the providers, keyed as in get_financial_statements.py. */
+export const METRIC_DEFINITIONS: MetricDefinition[] = [
+  {
+    key: 'market_cap',
+    label: 'Market Cap',
+    kind: 'currency',
+    description: 'Share price multiplied by shares outstanding.',
+    higherIsBetter: null,
+  },
+  {
+    key: 'enterprise_value',
+    label: 'Enterprise Value',
+    kind: 'currency',
+    description: 'Market cap plus debt, minus cash: the price of the whole business.',
+    higherIsBetter: null,
+  },
+  {
+    key: 'pe_ratio',
+    label: 'P/E (TTM)',
+    kind: 'multiple',
+    description: 'Share price divided by trailing twelve-month earnings per share.',
+    higherIsBetter: false,
+  },
+  {
+    key: 'forward_pe',
+    label: 'Forward P/E',
+    kind: 'multiple',
+    description: 'Share price divided by analysts’ expected earnings per share for the next year.',
+    higherIsBetter: false,
+  },
+  {
+    key: 'peg_ratio',
+    label: 'PEG Ratio',
+    kind: 'multiple',
+    description: 'P/E divided by the expected earnings growth rate.',
+    higherIsBetter: false,
+  },
+  {
+    key: 'price_to_book',
+    label: 'Price / Book',
+    kind: 'multiple',
+    description: 'Market cap divided by shareholders’ equity.',
+    higherIsBetter: false,
+  },
+  {
+    key: 'price_to_sales',
+    label: 'Price / Sales (TTM)',
+    kind: 'multiple',
+    description: 'Market cap divided by trailing twelve-month revenue.',
+    higherIsBetter: false,
+  },
+  {
+    key: 'beta',
+    label: 'Beta',
+    kind: 'number',
+    description: 'Volatility relative to the market; 1.0 moves in line with it.',
+    higherIsBetter: false,
+  },
+  {
+    key: 'dividend_yield',
+    label: 'Dividend Yield',
+    kind: 'percent',
+    description: 'Annual dividends per share divided by the share price.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'dividend_rate',
+    label: 'Dividend Rate',
+    kind: 'per_share',
+    description: 'Annual dividend paid per share.',
+    higherIsBetter: null,
+  },
+  {
+    key: 'five_year_avg_dividend_yield',
+    label: '5Y Avg Dividend Yield',
+    kind: 'percent',
+    description: 'Average dividend yield over the last five years.',
+    higherIsBetter: true,
+    scale: 0.01,
+  },
+  {
+    key: 'return_on_equity',
+    label: 'Return on Equity',
+    kind: 'percent',
+    description: 'Net income divided by shareholders’ equity.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'return_on_assets',
+    label: 'Return on Assets',
+    kind: 'percent',
+    description: 'Net income divided by total assets.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'profit_margin',
+    label: 'Profit Margin',
+    kind: 'percent',
+    description: 'Net income as a share of revenue.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'operating_margin',
+    label: 'Operating Margin',
+    kind: 'percent',
+    description: 'Operating income as a share of revenue.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'gross_margin',
+    label: 'Gross Margin',
+    kind: 'percent',
+    description: 'Revenue left after the cost of revenue, as a share of revenue.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'revenue_growth',
+    label: 'Revenue Growth',
+    kind: 'percent',
+    description: 'Year-over-year change in quarterly revenue.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'earnings_growth',
+    label: 'Earnings Growth',
+    kind: 'percent',
+    description: 'Year-over-year change in quarterly earnings per share.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'earnings_quarterly_growth',
+    label: 'Quarterly Earnings Growth',
+    kind: 'percent',
+    description: 'Year-over-year change in quarterly net income.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'debt_to_equity',
+    label: 'Debt / Equity',
+    kind: 'multiple',
+    description: 'Total debt divided by shareholders’ equity.',
+    higherIsBetter: false,
+    scale: 0.01,
+  },
+  {
+    key: 'current_ratio',
+    label: 'Current Ratio',
+    kind: 'multiple',
+    description: 'Current assets divided by current liabilities.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'quick_ratio',
+    label: 'Quick Ratio',
+    kind: 'multiple',
+    description: 'Current assets excluding inventory, divided by current liabilities.',
+    higherIsBetter: true,
+  },
+];
+
+/**
+ * Statement line items whose kind or direction differs from the default of a
+ * currency amount where higher is better. Keyed by the yfinance line-item name.
+ */
+export const LINE_ITEM_DEFINITIONS: MetricDefinition[] = [
+  {
+    key: 'Basic EPS',
+    label: 'Basic EPS',
+    kind: 'per_share',
+    description: 'Net income attributable to common shareholders per basic share.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'Diluted EPS',
+    label: 'Diluted EPS',
+    kind: 'per_share',
+    description: 'Net income per share, counting options and convertibles as exercised.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'Basic Average Shares',
+    label: 'Basic Average Shares',
+    kind: 'count',
+    description: 'Weighted average shares outstanding during the period.',
+    higherIsBetter: false,
+  },
+  {
+    key: 'Diluted Average Shares',
+    label: 'Diluted Average Shares',
+    kind: 'count',
+    description: 'Weighted average shares including the effect of dilutive securities.',
+    higherIsBetter: false,
+  },
+  {
+    key: 'Tax Rate For Calcs',
+    label: 'Tax Rate For Calcs',
+    kind: 'percent',
+    description: 'Effective tax rate used to derive normalized figures.',
+    higherIsBetter: false,
+  },
+  {
+    key: 'Capital Expenditure',
+    label: 'Capital Expenditure',
+    kind: 'currency',
+    description: 'Cash spent on property, plant and equipment; reported as a negative outflow.',
+    higherIsBetter: null,
+  },
+  {
+    key: 'Cash Dividends Paid',
+    label: 'Cash Dividends Paid',
+    kind: 'currency',
+    description: 'Cash returned to shareholders as dividends; reported as a negative outflow.',
+    higherIsBetter: null,
+  },
+  {
+    key: 'Repurchase Of Capital Stock',
+    label: 'Repurchase Of Capital Stock',
+    kind: 'currency',
+    description: 'Cash spent buying back shares; reported as a negative outflow.',
+    higherIsBetter: null,
+  },
+  {
+    key: 'Total Assets',
+    label: 'Total Assets',
+    kind: 'currency',
+    description: 'Everything the company owns or controls at the balance sheet date.',
+    higherIsBetter: null,
+  },
+  {
+    key: 'Net Debt',
+    label: 'Net Debt',
+    kind: 'currency',
+    description: 'Total debt minus cash and cash equivalents.',
+    higherIsBetter: false,
+  },
+];
+
+const metricsByKey = new Map(METRIC_DEFINITIONS.map((definition) => [definition.key, definition]));
+const lineItemsByKey = new Map(LINE_ITEM_DEFINITIONS.map((definition) => [definition.key, definition]));
+
+// Unlisted line items are costs or obligations when their name says so.
+const LOWER_IS_BETTER_LINE = /cost|expense|debt|liabilit/i;
+
+/** Registry entry for a metric key, or a plain-number fallback for keys we do not know. */
+export function getMetricDefinition(key: string): MetricDefinition {
+  return (
+    metricsByKey.get(key) ?? {
+      key,
+      label: formatMetricName(key),
+      kind: 'number',
+      description: '',
+      higherIsBetter: null,
+    }
+  );
+}
+
+/** Registry entry for a statement line item; unlisted items are currency amounts. */
+export function getLineItemDefinition(item: string): MetricDefinition {
+  return (
+    lineItemsByKey.get(item) ?? {
+      key: item,
+      label: item,
+      kind: 'currency',
+      description: '',
+      higherIsBetter: !LOWER_IS_BETTER_LINE.test(item),
+    }
+  );
+}
+
+/** Formats a value using its definition's kind and scale. */
+export function formatMetric(
+  definition: MetricDefinition,
+  value: number | null,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): string {
+  const scaled = value === null || definition.scale === undefined ? value : value * definition.scale;
+  return formatValue(scaled, definition.kind, format);
+}
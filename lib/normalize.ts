@@ -0,0 +1,137 @@
+import { accountDepth, CHART_OF_ACCOUNTS, rootAccount, type AccountSign } from '@/lib/chart-of-accounts';
+import { getLineItemDefinition, type MetricDefinition } from '@/lib/metrics';
+import {
+  STATEMENT_TYPES,
+  type FinancialStatement,
+  type FinancialStatements,
+  type StatementCollection,
+  type StatementType,
+} from '@/lib/schema';
+
+export interface NormalizedLine {
+  /** Canonical account key, or the raw line-item name for unmapped items. */
+  key: string;
+  label: string;
+  /** Top-level account this line is grouped under; null for unmapped items. */
+  group: string | null;
+  depth: number;
+  /** Raw line items behind this line: those a value was taken from, then duplicates of them. */
+  raw_keys: string[];
+  mapped: boolean;
+}
+
+export interface NormalizedStatement {
+  /** Values keyed by period date, then by NormalizedLine key. */
+  values: StatementCollection;
+  /** Canonical accounts in chart order, then unmapped items alphabetically. */
+  lines: NormalizedLine[];
+}
+
+const applySign = (value: number | null, sign: AccountSign): number | null => {
+  if (value === null || sign === 'natural') return value;
+  return sign === 'positive' ? Math.abs(value) : -Math.abs(value);
+};
+
+const aliasOwners = Object.fromEntries(
+  STATEMENT_TYPES.map((statementType) => [
+    statementType,
+    new Map(CHART_OF_ACCOUNTS[statementType].flatMap((entry) => entry.aliases.map((alias) => [alias, entry.key]))),
+  ])
+) as Record<StatementType, Map<string, string>>;
+
+/**
+ * Maps one period's raw line items onto canonical accounts. Each account takes
+ * the first alias with a value that no earlier account has claimed, so a
+ * fallback such as `Net Income Common Stockholders` can stand in for a missing
+ * `Net Income` without also being counted under its own account.
+ */
+function normalizePeriod(statement: FinancialStatement, statementType: StatementType) {
+  const claimed = new Set<string>();
+  const values: FinancialStatement = {};
+  const sources: Record<string, string> = {};
+
+  for (const entry of CHART_OF_ACCOUNTS[statementType]) {
+    const alias = entry.aliases.find((name) => !claimed.has(name) && (statement[name] ?? null) !== null);
+    if (alias) {
+      claimed.add(alias);
+      sources[entry.key] = alias;
+      values[entry.key] = applySign(statement[alias], entry.sign);
+    } else if (entry.aliases.some((name) => name in statement)) {
+      values[entry.key] = null;
+    }
+  }
+  return { values, sources };
+}
+
+/**
+ * Re-keys a statement onto the canonical chart of accounts, applying its sign
+ * conventions. Raw names are kept on every line, and items the chart does not
+ * know are passed through unchanged under their raw name.
+ */
+export function normalizeStatement(collection: StatementCollection, statementType: StatementType): NormalizedStatement {
+  const values: StatementCollection = {};
+  const used = new Map<string, Set<string>>();
+  const rawKeys = new Set<string>();
+
+  for (const [date, statement] of Object.entries(collection)) {
+    Object.keys(statement).forEach((key) => rawKeys.add(key));
+    const period = normalizePeriod(statement, statementType);
+    for (const [key, source] of Object.entries(period.sources)) {
+      used.set(key, (used.get(key) ?? new Set()).add(source));
+    }
+    values[date] = period.values;
+  }
+
+  const sourced = new Set(Array.from(used.values()).flatMap((sources) => Array.from(sources)));
+  const unmapped = Array.from(rawKeys)
+    .filter((key) => !aliasOwners[statementType].has(key))
+    .sort();
+
+  const lines: NormalizedLine[] = CHART_OF_ACCOUNTS[statementType]
+    .filter((entry) => Object.values(values).some((period) => entry.key in period))
+    .map((entry) => {
+      const sources = Array.from(used.get(entry.key) ?? []);
+      // Aliases present but never used (because a preferred one was) are duplicates of this line.
+      const duplicates = entry.aliases.filter((alias) => rawKeys.has(alias) && !sourced.has(alias));
+      return {
+        key: entry.key,
+        label: entry.label,
+        group: rootAccount(statementType, entry.key),
+        depth: accountDepth(statementType, entry.key),
+        raw_keys: [...sources, ...duplicates],
+        mapped: true,
+      };
+    });
+
+  for (const key of unmapped) {
+    for (const [date, statement] of Object.entries(collection)) {
+      if (key in statement) values[date][key] = statement[key];
+    }
+    lines.push({ key, label: key, group: null, depth: 0, raw_keys: [key], mapped: false });
+  }
+
+  return { values, lines };
+}
+
+export const normalizeStatements = (statements: FinancialStatements): Record<StatementType, NormalizedStatement> =>
+  Object.fromEntries(
+    STATEMENT_TYPES.map((statementType) => [
+      statementType,
+      normalizeStatement(statements[statementType], statementType),
+    ])
+  ) as Record<StatementType, NormalizedStatement>;
+
+/**
+ * Display definition for a normalized line: the canonical label with the
+ * kind and direction of the raw item it came from.
+ */
+export function getNormalizedLineDefinition(line: NormalizedLine): MetricDefinition {
+  const definition = getLineItemDefinition(line.raw_keys[0] ?? line.key);
+  if (!line.mapped) return definition;
+  return {
+    ...definition,
+    key: line.key,
+    label: line.label,
+    description: [definition.description, `Reported as ${line.raw_keys.join(', ')}.`].filter(Boolean).join(' '),
+  };
+}
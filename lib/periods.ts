@@ -0,0 +1,141 @@
+import {
+  STATEMENT_TYPES,
+  type CompanyInfo,
+  type FinancialData,
+  type FinancialStatements,
+  type FiscalPeriod,
+  type Periodicity,
+  type Periods,
+  type StatementCollection,
+  type StatementType,
+} from '@/lib/schema';
+
+/**
+ * Calendar month a period-end date belongs to. Companies on 52/53-week years
+ * end periods up to a week into the next month (Apple's FY2023 ended on
+ * 2023-09-30, FY2024 on 2024-09-28, and some December filers end on 01-01),
+ * so the first week of a month counts as the month before.
+ */
+function periodMonth(date: string): { year: number; month: number } {
+  const [year, month, day] = date.split('-').map(Number);
+  if (day > 7) return { year, month };
+  return month === 1 ? { year: year - 1, month: 12 } : { year, month: month - 1 };
+}
+
+/**
+ * Month (1-12) the company's fiscal year ends in: from `fiscal_year_end` when
+ * the provider reports it, otherwise the month most annual periods end in,
+ * otherwise December.
+ */
+export function fiscalYearEndMonth(companyInfo: CompanyInfo, annual: FinancialStatements): number {
+  if (companyInfo.fiscal_year_end) return periodMonth(`2000-${companyInfo.fiscal_year_end}`).month;
+
+  const counts = new Map<number, number>();
+  for (const statementType of STATEMENT_TYPES) {
+    for (const date of Object.keys(annual[statementType])) {
+      const { month } = periodMonth(date);
+      counts.set(month, (counts.get(month) ?? 0) + 1);
+    }
+  }
+  const [mostCommon] = Array.from(counts).sort(([, a], [, b]) => b - a);
+  return mostCommon?.[0] ?? 12;
+}
+
+/**
+ * Sequential number of the fiscal period `date` closes: fiscal quarters or
+ * years since year 0, so consecutive periods differ by exactly one. A fiscal
+ * year is named after the calendar year it ends in.
+ */
+function periodIndex(date: string, periodicity: Periodicity, yearEndMonth: number): number {
+  const { year, month } = periodMonth(date);
+  const monthsSinceYearEnd = year * 12 + month - yearEndMonth;
+  return Math.round(monthsSinceYearEnd / (periodicity === 'quarterly' ? 3 : 12));
+}
+
+function describePeriod(index: number, periodicity: Periodicity) {
+  if (periodicity === 'annual') {
+    return { fiscal_year: index, fiscal_quarter: null, label: `FY ${index}` };
+  }
+  const fiscalYear = Math.ceil(index / 4);
+  const fiscalQuarter = index - (fiscalYear - 1) * 4;
+  return { fiscal_year: fiscalYear, fiscal_quarter: fiscalQuarter, label: `FQ${fiscalQuarter} ${fiscalYear}` };
+}
+
+/**
+ * Merges the period-end dates of all three statements into one list of fiscal
+ * periods, newest first. Dates that fall in the same fiscal period share a
+ * column even when statements disagree on the exact day; a statement that
+ * reports one period under two dates marks it restated, and fiscal periods
+ * skipped between two reported ones are listed as missing.
+ */
+export function buildPeriods(
+  statements: FinancialStatements,
+  periodicity: Periodicity,
+  yearEndMonth: number
+): FiscalPeriod[] {
+  const reported = new Map<number, Map<StatementType, string[]>>();
+  for (const statementType of STATEMENT_TYPES) {
+    for (const date of Object.keys(statements[statementType])) {
+      const index = periodIndex(date, periodicity, yearEndMonth);
+      const byStatement = reported.get(index) ?? new Map<StatementType, string[]>();
+      byStatement.set(statementType, [...(byStatement.get(statementType) ?? []), date]);
+      reported.set(index, byStatement);
+    }
+  }
+
+  const indexes = Array.from(reported.keys()).sort((a, b) => b - a);
+  return indexes.map((index, position) => {
+    const byStatement = reported.get(index)!;
+    const dates = Array.from(new Set(Array.from(byStatement.values()).flat()))
+      .sort()
+      .reverse();
+    const older = indexes[position + 1];
+    const skipped = older === undefined ? 0 : index - older - 1;
+
+    return {
+      date: dates[0],
+      ...describePeriod(index, periodicity),
+      reported_dates: dates,
+      statements: STATEMENT_TYPES.filter((statementType) => byStatement.has(statementType)),
+      restated: Array.from(byStatement.values()).some((statementDates) => statementDates.length > 1),
+      missing_before: Array.from(
+        { length: skipped },
+        (_, offset) => describePeriod(index - offset - 1, periodicity).label
+      ),
+    };
+  });
+}
+
+export function computePeriods(data: FinancialData): Periods {
+  const { quarterly, annual } = data.financial_statements;
+  const yearEndMonth = fiscalYearEndMonth(data.company_info, annual);
+  return {
+    quarterly: buildPeriods(quarterly, 'quarterly', yearEndMonth),
+    annual: buildPeriods(annual, 'annual', yearEndMonth),
+  };
+}
+
+/**
+ * Re-keys a statement by period `date`, so every statement lines up on the
+ * same columns. Where a period was reported under several dates, the figures
+ * of the latest one win.
+ */
+export function alignStatement(collection: StatementCollection, periods: FiscalPeriod[]): StatementCollection {
+  const aligned: StatementCollection = {};
+  for (const period of periods) {
+    const dates = period.reported_dates.filter((date) => date in collection).reverse();
+    if (dates.length > 0) {
+      aligned[period.date] = Object.assign({}, ...dates.map((date) => collection[date]));
+    }
+  }
+  return aligned;
+}
+
+/** Every line item any period reports, in the order the newest periods list them. */
+export function lineItemsOf(collection: StatementCollection): string[] {
+  const items = new Set<string>();
+  for (const date of Object.keys(collection).sort().reverse()) {
+    Object.keys(collection[date]).forEach((item) => items.add(item));
+  }
+  return Array.from(items);
+}
@@ -0,0 +1,159 @@
+import {
+  MAX_PORTFOLIO_HOLDINGS,
+  validateHolding,
+  type Holding,
+  type SchemaIssue,
+  type ValidationResult,
+} from '@/lib/schema';
+
+type Column = keyof Holding | 'cost_per_share';
+
+/** Header names brokers commonly export, compared lower-cased with underscores as spaces. */
+const COLUMN_ALIASES: Record<Column, string[]> = {
+  symbol: ['symbol', 'ticker'],
+  shares: ['shares', 'quantity', 'qty'],
+  cost_basis: ['cost basis', 'cost', 'total cost'],
+  cost_per_share: ['cost per share', 'purchase price', 'average cost'],
+  acquired_on: ['acquired on', 'date', 'purchase date', 'trade date', 'acquired'],
+};
+
+const normalizeHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/[\s_]+/g, ' ')
+    .trim();
+
+/** Splits one CSV line, honouring double-quoted fields with `""` escapes. */
+function splitLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map((value) => value.trim());
+}
+
+const CURRENCY_MARKS = /[$€£¥]|\b[A-Z]{3}\b/gi;
+const PLAIN_NUMBER = /^-?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/;
+
+/**
+ * Reads `1234.5`, `1,234.50`, `$1,234.50` or `USD 1234.5` as a number:
+ * undefined for an empty field, null for anything else, such as `1.234,50`
+ * or `(100)`, rather than guessing at its separators or sign.
+ */
+const parseNumber = (value: string | undefined): number | null | undefined => {
+  if (!value) return undefined;
+  const cleaned = value.replace(CURRENCY_MARKS, '').replace(/\s+/g, '');
+  return PLAIN_NUMBER.test(cleaned) ? Number(cleaned.replace(/,/g, '')) : null;
+};
+
+/** Accepts `YYYY-MM-DD` and US-style `M/D/YYYY`. */
+const parseDate = (value: string | undefined): string | undefined => {
+  const us = value?.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!us) return value;
+  const [, month, day, year] = us;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+/**
+ * Parses holdings from CSV with a header row. Columns are matched by name in
+ * any order; a lot may give its total `cost_basis` or a `cost_per_share` to
+ * multiply by its shares. Any invalid row fails the whole import, with one
+ * issue per problem keyed by line number.
+ */
+export function parseHoldingsCsv(text: string): ValidationResult<Holding[]> {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((line, index) => ({ line, number: index + 1 }))
+    .filter(({ line }) => line.trim() !== '');
+  if (lines.length === 0) return { success: false, issues: [{ path: '(root)', message: 'The CSV is empty' }] };
+
+  const headers = splitLine(lines[0].line).map(normalizeHeader);
+  const columnIndex = (column: Column) => headers.findIndex((header) => COLUMN_ALIASES[column].includes(header));
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as Column[]).map((column) => [column, columnIndex(column)])
+  ) as Record<Column, number>;
+
+  const required: Column[] = ['symbol', 'shares', 'acquired_on'];
+  const missing = required.filter((column) => columns[column] === -1);
+  if (columns.cost_basis === -1 && columns.cost_per_share === -1) missing.push('cost_basis');
+  if (missing.length > 0) {
+    return {
+      success: false,
+      issues: missing.map((column) => ({
+        path: 'line 1',
+        message: `No ${column} column; expected one of: ${COLUMN_ALIASES[column].join(', ')}`,
+      })),
+    };
+  }
+
+  const rows = lines.slice(1);
+  if (rows.length > MAX_PORTFOLIO_HOLDINGS) {
+    return {
+      success: false,
+      issues: [{ path: '(root)', message: `At most ${MAX_PORTFOLIO_HOLDINGS} holdings can be imported at once` }],
+    };
+  }
+
+  const holdings: Holding[] = [];
+  const issues: SchemaIssue[] = [];
+  for (const { line, number } of rows) {
+    const fields = splitLine(line);
+    const read = (column: Column) => (columns[column] === -1 ? undefined : fields[columns[column]]);
+    const numbers = {
+      shares: parseNumber(read('shares')),
+      cost_basis: parseNumber(read('cost_basis')),
+      cost_per_share: parseNumber(read('cost_per_share')),
+    };
+    const unreadable = (Object.keys(numbers) as (keyof typeof numbers)[]).filter((column) => numbers[column] === null);
+    const shares = numbers.shares ?? undefined;
+    const perShare = numbers.cost_per_share ?? undefined;
+    const costBasis =
+      numbers.cost_basis ?? (perShare !== undefined && shares !== undefined ? perShare * shares : undefined);
+
+    const validation = validateHolding({
+      symbol: read('symbol'),
+      shares,
+      cost_basis: costBasis,
+      acquired_on: parseDate(read('acquired_on')),
+    });
+    const rowIssues: SchemaIssue[] = unreadable.map((column) => ({
+      path: column,
+      message: `Expected a plain number such as 1234.50 or 1,234.50, got "${read(column)}"`,
+    }));
+    if (!validation.success) {
+      // A total derived from an unreadable amount is already reported under that amount.
+      const reported = (path: string) =>
+        unreadable.some((column) => column === path || (path === 'cost_basis' && column === 'cost_per_share'));
+      rowIssues.push(...validation.issues.filter((issue) => !reported(issue.path)));
+    }
+
+    if (validation.success && rowIssues.length === 0) {
+      holdings.push(validation.data);
+    } else {
+      issues.push(...rowIssues.map((issue) => ({ path: `line ${number}: ${issue.path}`, message: issue.message })));
+    }
+  }
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, data: holdings };
+}
@@ -0,0 +1,128 @@
+import { randomUUID } from 'crypto';
+import { fetchInBatches, MAX_BATCH_SYMBOLS } from '@/lib/batch';
+import { getCachedPriceHistory } from '@/lib/cache';
+import { PortfolioNotFoundError, toErrorBody } from '@/lib/errors';
+import { getFxRateSource } from '@/lib/fx';
+import { latestClose } from '@/lib/prices';
+import { getFinancialDataProvider, type FinancialDataProvider } from '@/lib/providers';
+import type { PortfolioInput } from '@/lib/schema';
+import { processSingleton } from '@/lib/singleton';
+import { createFilePortfolioStore, createMemoryPortfolioStore, type Portfolio, type PortfolioStore } from './store';
+import { buildPortfolioSummary, type PortfolioSummary, type PositionQuote } from './summary';
+
+export type { Portfolio, PortfolioStore } from './store';
+export { createFilePortfolioStore, createMemoryPortfolioStore } from './store';
+export type { Exposure, PortfolioSummary, PositionSummary, WeightedMetric } from './summary';
+
+const getStore = (): PortfolioStore =>
+  processSingleton('portfolios', () => {
+    const directory = process.env.PORTFOLIO_STORE_DIR;
+    return directory ? createFilePortfolioStore(directory) : createMemoryPortfolioStore();
+  });
+
+export const listPortfolios = () => getStore().list();
+
+export async function getPortfolio(id: string): Promise<Portfolio> {
+  const portfolio = (await getStore().list()).find((entry) => entry.id === id);
+  if (!portfolio) throw new PortfolioNotFoundError(id);
+  return portfolio;
+}
+
+export async function createPortfolio(input: PortfolioInput): Promise<Portfolio> {
+  const now = new Date().toISOString();
+  const portfolio: Portfolio = { id: randomUUID(), ...input, created_at: now, updated_at: now };
+  await getStore().save(portfolio);
+  return portfolio;
+}
+
+export async function updatePortfolio(id: string, input: PortfolioInput): Promise<Portfolio> {
+  const portfolio: Portfolio = { ...(await getPortfolio(id)), ...input, updated_at: new Date().toISOString() };
+  await getStore().save(portfolio);
+  return portfolio;
+}
+
+export async function deletePortfolio(id: string): Promise<void> {
+  if (!(await getStore().delete(id))) throw new PortfolioNotFoundError(id);
+}
+
+async function fetchLatestPrice(provider: FinancialDataProvider, symbol: string) {
+  const { data } = await getCachedPriceHistory(provider, symbol, '1mo', '1d');
+  return { currency: data.currency, latest: latestClose(data.bars) };
+}
+
+/** Latest closes through the price cache, fetched MAX_BATCH_SYMBOLS at a time like the fundamentals. */
+async function fetchLatestPrices(provider: FinancialDataProvider, symbols: string[]) {
+  const settled: PromiseSettledResult<Awaited<ReturnType<typeof fetchLatestPrice>>>[] = [];
+  for (let start = 0; start < symbols.length; start += MAX_BATCH_SYMBOLS) {
+    const batch = symbols.slice(start, start + MAX_BATCH_SYMBOLS);
+    settled.push(...(await Promise.allSettled(batch.map((symbol) => fetchLatestPrice(provider, symbol)))));
+  }
+  return settled;
+}
+
+/**
+ * Values a portfolio at the latest close of each symbol and rolls up its
+ * fundamentals. A symbol whose data, price or exchange rate cannot be fetched
+ * is still listed, with the reason, but left out of the totals.
+ */
+export async function getPortfolioSummary(id: string): Promise<PortfolioSummary> {
+  const portfolio = await getPortfolio(id);
+  const provider = getFinancialDataProvider();
+  const symbols = Array.from(new Set(portfolio.holdings.map((holding) => holding.symbol)));
+
+  const [fundamentals, prices] = await Promise.all([
+    fetchInBatches(provider, symbols),
+    fetchLatestPrices(provider, symbols),
+  ]);
+
+  const rates = new Map<string, Promise<number | null>>();
+  const rateFor = (currency: string) => {
+    if (currency === portfolio.currency) return Promise.resolve(1);
+    if (!rates.has(currency)) {
+      rates.set(
+        currency,
+        getFxRateSource()
+          .getRate(currency, portfolio.currency)
+          .then((fx) => fx.rate)
+          .catch(() => null)
+      );
+    }
+    return rates.get(currency)!;
+  };
+
+  const quotes = await Promise.all(
+    symbols.map(async (symbol, index): Promise<[string, PositionQuote]> => {
+      const result = fundamentals[index];
+      const price = prices[index];
+      const data = result.status === 'ok' ? result.data : null;
+      const currency =
+        data?.company_info.trading_currency ?? (price.status === 'fulfilled' ? price.value.currency : null) ?? 'USD';
+      const latest = price.status === 'fulfilled' ? price.value.latest : null;
+      const rate = await rateFor(currency);
+
+      const error =
+        price.status === 'rejected'
+          ? toErrorBody(price.reason).error
+          : !latest
+            ? 'No recent price'
+            : rate === null
+              ? `No exchange rate from ${currency} to ${portfolio.currency}`
+              : null;
+
+      return [
+        symbol,
+        {
+          company_info: data?.company_info ?? null,
+          metrics: data ? Object.assign({}, ...Object.values(data.metrics)) : null,
+          currency,
+          price: latest?.close ?? null,
+          price_date: latest?.date ?? null,
+          rate,
+          error,
+        },
+      ];
+    })
+  );
+
+  return buildPortfolioSummary(portfolio, Object.fromEntries(quotes), new Date().toISOString());
+}
@@ -0,0 +1,80 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { writeJsonAtomic } from '@/lib/json-file';
+import type { PortfolioInput } from '@/lib/schema';
+
+export type Portfolio = PortfolioInput & {
+  id: string;
+  created_at: string;
+  updated_at: string;
+};
+
+/** Where portfolios live on the server; like watchlists, only whole portfolios are kept by id. */
+export interface PortfolioStore {
+  list(): Promise<Portfolio[]>;
+  /** Inserts the portfolio, or replaces the one with the same id. */
+  save(portfolio: Portfolio): Promise<void>;
+  /** Resolves to false when there was nothing to delete. */
+  delete(id: string): Promise<boolean>;
+}
+
+const upsert = (portfolios: Portfolio[], portfolio: Portfolio) =>
+  portfolios.some((entry) => entry.id === portfolio.id)
+    ? portfolios.map((entry) => (entry.id === portfolio.id ? portfolio : entry))
+    : [...portfolios, portfolio];
+
+export function createMemoryPortfolioStore(): PortfolioStore {
+  let portfolios: Portfolio[] = [];
+
+  return {
+    list: async () => portfolios,
+    save: async (portfolio) => {
+      portfolios = upsert(portfolios, portfolio);
+    },
+    delete: async (id) => {
+      const remaining = portfolios.filter((portfolio) => portfolio.id !== id);
+      const deleted = remaining.length !== portfolios.length;
+      portfolios = remaining;
+      return deleted;
+    },
+  };
+}
+
+/** Every portfolio in one JSON file, rewritten on each change. */
+export function createFilePortfolioStore(directory: string): PortfolioStore {
+  const filePath = path.join(directory, 'portfolios.json');
+  // Each change reads the whole file and writes it back, so changes must not interleave.
+  let writing: Promise<unknown> = Promise.resolve();
+
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const next = writing.then(task);
+    writing = next.catch(() => undefined);
+    return next;
+  };
+
+  const read = async (): Promise<Portfolio[]> => {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8'));
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (portfolios: Portfolio[]) => writeJsonAtomic(filePath, portfolios, 2);
+
+  return {
+    list: read,
+    save: (portfolio) =>
+      serialize(async () => {
+        await write(upsert(await read(), portfolio));
+      }),
+    delete: (id) =>
+      serialize(async () => {
+        const current = await read();
+        const remaining = current.filter((portfolio) => portfolio.id !== id);
+        if (remaining.length === current.length) return false;
+        await write(remaining);
+        return true;
+      }),
+  };
+}
@@ -0,0 +1,196 @@
+import type { CompanyInfo } from '@/lib/schema';
+import type { Portfolio } from './store';
+
+/** What the summary needs to know about one symbol, as fetched for it. */
+export interface PositionQuote {
+  company_info: CompanyInfo | null;
+  /** Provider metrics flattened across groups; null when they could not be fetched. */
+  metrics: Record<string, number | null> | null;
+  /** Currency the symbol trades in, which prices and cost bases are in. */
+  currency: string;
+  /** Latest close, in `currency`. */
+  price: number | null;
+  price_date: string | null;
+  /** Units of the portfolio currency per unit of `currency`; null when no rate is known. */
+  rate: number | null;
+  /** Why the position has no market value, when it has none. */
+  error: string | null;
+}
+
+export interface PositionSummary {
+  symbol: string;
+  name: string | null;
+  sector: string | null;
+  industry: string | null;
+  /** Lots held of this symbol. */
+  lots: number;
+  shares: number;
+  currency: string;
+  price: number | null;
+  price_date: string | null;
+  /** This and the amounts below are in the portfolio currency. */
+  cost_basis: number | null;
+  market_value: number | null;
+  unrealized_pnl: number | null;
+  unrealized_pnl_percent: number | null;
+  /** Share of the portfolio's market value. */
+  weight: number | null;
+  pe_ratio: number | null;
+  dividend_yield: number | null;
+  beta: number | null;
+  error: string | null;
+}
+
+export interface WeightedMetric {
+  value: number | null;
+  /** Share of the portfolio's market value the value is based on. */
+  coverage: number;
+}
+
+export interface Exposure {
+  name: string;
+  market_value: number;
+  weight: number;
+}
+
+export interface PortfolioSummary {
+  id: string;
+  name: string;
+  currency: string;
+  as_of: string;
+  /** Totals cover the positions with a market value. */
+  market_value: number;
+  cost_basis: number;
+  unrealized_pnl: number;
+  unrealized_pnl_percent: number | null;
+  pe_ratio: WeightedMetric;
+  dividend_yield: WeightedMetric;
+  beta: WeightedMetric;
+  sectors: Exposure[];
+  industries: Exposure[];
+  positions: PositionSummary[];
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+function buildPosition(symbol: string, lots: Portfolio['holdings'], quote: PositionQuote | undefined): PositionSummary {
+  const shares = sum(lots.map((lot) => lot.shares));
+  const cost = sum(lots.map((lot) => lot.cost_basis));
+  const rate = quote?.rate ?? null;
+  const price = quote?.price ?? null;
+  const costBasis = rate === null ? null : cost * rate;
+  const marketValue = rate === null || price === null ? null : shares * price * rate;
+  const pnl = marketValue === null || costBasis === null ? null : marketValue - costBasis;
+  const metrics = quote?.metrics ?? null;
+
+  return {
+    symbol,
+    name: quote?.company_info?.name ?? null,
+    sector: quote?.company_info?.sector ?? null,
+    industry: quote?.company_info?.industry ?? null,
+    lots: lots.length,
+    shares,
+    currency: quote?.currency ?? 'USD',
+    price,
+    price_date: quote?.price_date ?? null,
+    cost_basis: costBasis,
+    market_value: marketValue,
+    unrealized_pnl: pnl,
+    unrealized_pnl_percent: pnl === null || !costBasis ? null : pnl / costBasis,
+    weight: null,
+    pe_ratio: metrics?.pe_ratio ?? null,
+    // Providers leave the yield out for companies that pay no dividend, so a
+    // missing yield counts as zero whenever the metrics themselves loaded.
+    dividend_yield: metrics ? (metrics.dividend_yield ?? 0) : null,
+    beta: metrics?.beta ?? null,
+    error: marketValue === null ? (quote?.error ?? 'No price available') : null,
+  };
+}
+
+function weightedAverage(
+  positions: PositionSummary[],
+  value: (position: PositionSummary) => number | null,
+  total: number
+): WeightedMetric {
+  const covered = positions.flatMap((position) => {
+    const metric = value(position);
+    return metric === null || position.market_value === null ? [] : [{ weight: position.market_value, metric }];
+  });
+  const coveredValue = sum(covered.map(({ weight }) => weight));
+  return {
+    value: coveredValue > 0 ? sum(covered.map(({ weight, metric }) => weight * metric)) / coveredValue : null,
+    coverage: total > 0 ? coveredValue / total : 0,
+  };
+}
+
+/**
+ * Portfolio P/E as total market value over total earnings, which weights each
+ * P/E by the earnings behind it. Loss-makers have no meaningful P/E and are
+ * left out.
+ */
+function harmonicPe(positions: PositionSummary[], total: number): WeightedMetric {
+  const covered = positions.filter(
+    (position) => position.market_value !== null && position.pe_ratio !== null && position.pe_ratio > 0
+  );
+  const coveredValue = sum(covered.map((position) => position.market_value!));
+  const earnings = sum(covered.map((position) => position.market_value! / position.pe_ratio!));
+  return { value: earnings > 0 ? coveredValue / earnings : null, coverage: total > 0 ? coveredValue / total : 0 };
+}
+
+function exposure(positions: PositionSummary[], key: 'sector' | 'industry', total: number): Exposure[] {
+  const byName = new Map<string, number>();
+  for (const position of positions) {
+    if (position.market_value === null) continue;
+    const name = position[key] ?? 'Unknown';
+    byName.set(name, (byName.get(name) ?? 0) + position.market_value);
+  }
+  return Array.from(byName, ([name, marketValue]) => ({
+    name,
+    market_value: marketValue,
+    weight: total > 0 ? marketValue / total : 0,
+  })).sort((a, b) => b.market_value - a.market_value);
+}
+
+/**
+ * Rolls a portfolio's lots up into positions, values them at the latest
+ * close, and aggregates fundamentals weighted by market value. Amounts are
+ * converted into the portfolio currency at today's rate, cost bases included.
+ */
+export function buildPortfolioSummary(
+  portfolio: Portfolio,
+  quotes: Record<string, PositionQuote>,
+  asOf: string
+): PortfolioSummary {
+  const lotsBySymbol = new Map<string, Portfolio['holdings']>();
+  for (const holding of portfolio.holdings) {
+    lotsBySymbol.set(holding.symbol, [...(lotsBySymbol.get(holding.symbol) ?? []), holding]);
+  }
+
+  const built = Array.from(lotsBySymbol, ([symbol, lots]) => buildPosition(symbol, lots, quotes[symbol]));
+  const valued = built.filter((position) => position.market_value !== null);
+  const marketValue = sum(valued.map((position) => position.market_value!));
+  const costBasis = sum(valued.map((position) => position.cost_basis!));
+  const positions = built
+    .map((position) => ({
+      ...position,
+      weight: position.market_value === null || marketValue === 0 ? null : position.market_value / marketValue,
+    }))
+    .sort((a, b) => (b.market_value ?? -Infinity) - (a.market_value ?? -Infinity));
+
+  return {
+    id: portfolio.id,
+    name: portfolio.name,
+    currency: portfolio.currency,
+    as_of: asOf,
+    market_value: marketValue,
+    cost_basis: costBasis,
+    unrealized_pnl: marketValue - costBasis,
+    unrealized_pnl_percent: costBasis > 0 ? (marketValue - costBasis) / costBasis : null,
+    pe_ratio: harmonicPe(positions, marketValue),
+    dividend_yield: weightedAverage(positions, (position) => position.dividend_yield, marketValue),
+    beta: weightedAverage(positions, (position) => position.beta, marketValue),
+    sectors: exposure(positions, 'sector', marketValue),
+    industries: exposure(positions, 'industry', marketValue),
+    positions,
+  };
+}
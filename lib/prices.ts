@@ -0,0 +1,39 @@
+import type { PriceBar, PriceRange } from '@/lib/schema';
+
+const RANGE_MONTHS: Record<Exclude<PriceRange, 'max'>, number> = {
+  '1mo': 1,
+  '3mo': 3,
+  '6mo': 6,
+  '1y': 12,
+  '2y': 24,
+  '5y': 60,
+  '10y': 120,
+};
+
+/** First day covered by `range` when it ends at `end`, or null for the full history. */
+export function rangeStart(range: PriceRange, end: Date): Date | null {
+  if (range === 'max') return null;
+  const start = new Date(end);
+  start.setUTCMonth(start.getUTCMonth() - RANGE_MONTHS[range]);
+  return start;
+}
+
+/** Bars within `range` of the latest bar, for sources that hold a fixed history. */
+export function sliceBars(bars: PriceBar[], range: PriceRange): PriceBar[] {
+  const last = bars[bars.length - 1];
+  if (!last) return bars;
+
+  const start = rangeStart(range, new Date(last.date));
+  if (!start) return bars;
+  const startKey = start.toISOString().slice(0, 10);
+  return bars.filter((bar) => bar.date >= startKey);
+}
+
+/** The most recent bar with a close, or null when there is none. */
+export function latestClose(bars: PriceBar[]): { date: string; close: number } | null {
+  for (let index = bars.length - 1; index >= 0; index -= 1) {
+    const { date, close } = bars[index];
+    if (close !== null) return { date, close };
+  }
+  return null;
+}
@@ -0,0 +1,63 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { ParseError, SymbolNotFoundError } from '@/lib/errors';
+import { sliceBars } from '@/lib/prices';
+import { rankSearchEntries, type SearchEntry } from '@/lib/search';
+import { validatePriceHistory } from '@/lib/schema';
+import type { FinancialDataProvider } from './types';
+
+const fixturesDir = () =>
+  process.env.FINANCIAL_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'financial');
+
+const priceFixturesDir = () =>
+  process.env.PRICE_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'prices');
+
+const searchFixturePath = () =>
+  process.env.SEARCH_FIXTURE_PATH || path.join(process.cwd(), 'fixtures', 'search', 'symbols.json');
+
+async function readSearchEntries(): Promise<SearchEntry[]> {
+  const file = searchFixturePath();
+  let entries: unknown;
+  try {
+    entries = JSON.parse(await readFile(file, 'utf8'));
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    throw new ParseError('fixture', `${file}: ${errorMessage}`);
+  }
+  if (!Array.isArray(entries)) {
+    throw new ParseError('fixture', `${file}: expected an array of listings`);
+  }
+  return entries as SearchEntry[];
+}
+
+async function readFixture(symbol: string, dir = fixturesDir()) {
+  const fixturePath = path.join(dir, `${symbol.toUpperCase()}.json`);
+
+  let contents: string;
+  try {
+    contents = await readFile(fixturePath, 'utf8');
+  } catch {
+    throw new SymbolNotFoundError(symbol.toUpperCase());
+  }
+
+  try {
+    return JSON.parse(contents);
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown JSON parse error';
+    throw new ParseError('fixture', `${fixturePath}: ${errorMessage}`);
+  }
+}
+
+export const fixtureProvider: FinancialDataProvider = {
+  name: 'fixture',
+  getFinancialData: (symbol) => readFixture(symbol),
+  // Fixtures hold one fixed history, so only the range is honoured; the
+  // fixture's own interval is reported back unchanged.
+  getPriceHistory: async (symbol, range) => {
+    const payload = await readFixture(symbol, priceFixturesDir());
+    const validation = validatePriceHistory(payload);
+    if (!validation.success) return payload;
+    return { ...validation.data, range, bars: sliceBars(validation.data.bars, range) };
+  },
+  searchSymbols: async (query) => ({ query, matches: rankSearchEntries(await readSearchEntries(), query) }),
+};
@@ -0,0 +1,29 @@
+import { fixtureProvider } from './fixture';
+import { pythonProvider } from './python';
+import type { FinancialDataProvider, ProviderName } from './types';
+import { yahooProvider } from './yahoo';
+
+export type { FinancialDataProvider, ProviderName } from './types';
+
+const providers: Record<ProviderName, FinancialDataProvider> = {
+  python: pythonProvider,
+  yahoo: yahooProvider,
+  fixture: fixtureProvider,
+};
+
+const isProviderName = (value: string): value is ProviderName => value in providers;
+
+/**
+ * Resolves the provider named by FINANCIAL_DATA_PROVIDER, defaulting to the
+ * Python script so existing deployments keep their behaviour.
+ */
+export function getFinancialDataProvider(name = process.env.FINANCIAL_DATA_PROVIDER): FinancialDataProvider {
+  if (!name) return pythonProvider;
+
+  if (!isProviderName(name)) {
+    throw new Error(
+      `Unknown financial data provider "${name}". Expected one of: ${Object.keys(providers).join(', ')}`
+    );
+  }
+  return providers[name];
+}
@@ -0,0 +1,103 @@
+import { spawn } from 'child_process';
+import path from 'path';
+import { readNumberEnv } from '@/lib/env';
+import { ParseError, ProviderTimeoutError, UpstreamError } from '@/lib/errors';
+import { createWorkQueue } from '@/lib/queue';
+import { normalizeSymbol } from '@/lib/symbols';
+import type { FinancialDataProvider } from './types';
+
+const config = {
+  timeoutMs: readNumberEnv(process.env.PYTHON_TIMEOUT_MS, 30_000),
+  concurrency: readNumberEnv(process.env.PYTHON_MAX_CONCURRENCY, 4),
+  maxQueued: readNumberEnv(process.env.PYTHON_MAX_QUEUE, 16),
+  queueTimeoutMs: readNumberEnv(process.env.PYTHON_QUEUE_TIMEOUT_MS, 10_000),
+};
+
+// Every request spawns its own interpreter, so cap how many run at once.
+const queue = createWorkQueue({
+  concurrency: Math.max(1, config.concurrency),
+  maxQueued: config.maxQueued,
+  queueTimeoutMs: config.queueTimeoutMs,
+});
+
+async function runPythonScript(script: string, args: string[]): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const scriptPath = path.join(process.cwd(), 'scripts', script);
+    
+    const pythonProcess = spawn('python3', [scriptPath, ...args], {
+      env: { 
+        ...process.env, 
+        PYTHONPATH: process.env.PYTHONPATH || process.cwd(),
+        PATH: process.env.PATH
+      },
+      cwd: process.cwd()
+    });
+    
+    let dataString = '';
+    let errorString = '';
+    let settled = false;
+
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      fn();
+    };
+
+    const timer = setTimeout(() => {
+      pythonProcess.kill('SIGKILL');
+      settle(() => reject(new ProviderTimeoutError('python', config.timeoutMs)));
+    }, config.timeoutMs);
+
+    pythonProcess.stdout.on('data', (data) => {
+      dataString += data.toString();
+    });
+
+    pythonProcess.stderr.on('data', (data) => {
+      errorString += data.toString();
+      console.error('Python stderr:', data.toString());
+    });
+
+    pythonProcess.on('close', (code) => {
+      if (code !== 0) {
+        return settle(() => reject(
+          new UpstreamError('python', `Python process failed with code ${code}: ${errorString}`)
+        ));
+      }
+
+      let result;
+      try {
+        result = JSON.parse(dataString);
+      } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown JSON parse error';
+        return settle(() => reject(new ParseError('python', errorMessage)));
+      }
+
+      if (result?.status === 'error') {
+        return settle(() => reject(new UpstreamError('python', result.error)));
+      }
+      return settle(() => resolve(result));
+    });
+
+    pythonProcess.on('error', (err) => {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown process error';
+      settle(() => reject(new UpstreamError('python', `Failed to start Python process: ${errorMessage}`)));
+    });
+  });
+}
+
+export const pythonProvider: FinancialDataProvider = {
+  name: 'python',
+  // Validate again here: this is the value that reaches the command line.
+  getFinancialData: (symbol) => {
+    const validSymbol = normalizeSymbol(symbol);
+    return queue.run(() => runPythonScript('get_financial_statements.py', [validSymbol]));
+  },
+  // Range and interval are checked against PRICE_RANGES/PRICE_INTERVALS by the route.
+  getPriceHistory: (symbol, range, interval) => {
+    const validSymbol = normalizeSymbol(symbol);
+    return queue.run(() => runPythonScript('get_price_history.py', [validSymbol, range, interval]));
+  },
+  // The route bounds the query's length; spawn passes it as a single argument without a shell.
+  searchSymbols: (query) => queue.run(() => runPythonScript('search_symbols.py', [query])),
+};
@@ -0,0 +1,27 @@
+import type { PriceInterval, PriceRange } from '@/lib/schema';
+
+export type ProviderName = 'python' | 'yahoo' | 'fixture';
+
+export interface FinancialDataProvider {
+  name: ProviderName;
+  /**
+   * Resolves to the provider's raw payload. It is expected to match
+   * FinancialData but must be checked with validateFinancialData before use.
+   */
+  getFinancialData(symbol: string): Promise<unknown>;
+  /**
+   * Optionally fetches only `company_info` and `metrics`, letting the cache
+   * refresh the short-lived snapshot without refetching every statement.
+   */
+  getCompanyOverview?(symbol: string): Promise<unknown>;
+  /**
+   * Resolves to OHLCV bars for `range`, to be checked with validatePriceHistory.
+   * Providers may return a coarser interval than requested.
+   */
+  getPriceHistory(symbol: string, range: PriceRange, interval: PriceInterval): Promise<unknown>;
+  /**
+   * Resolves a free-text query (symbol, partial symbol, company name or ISIN)
+   * to ranked listings, to be checked with validateSearchResults.
+   */
+  searchSymbols(query: string): Promise<unknown>;
+}
@@ -0,0 +1,249 @@
+import yahooFinance from 'yahoo-finance2';
+import {
+  PERIODICITIES,
+  STATEMENT_TYPES,
+  type CompanyOverview,
+  type FinancialData,
+  type FinancialStatement,
+  type FinancialStatements,
+  type Periodicity,
+  type PriceHistory,
+  type PriceInterval,
+  type PriceRange,
+  type SearchResults,
+  type SectionStatus,
+  type SectionStatuses,
+  type StatementCollection,
+  type StatementType,
+} from '@/lib/schema';
+import { UpstreamError } from '@/lib/errors';
+import { rangeStart } from '@/lib/prices';
+import { MAX_SEARCH_RESULTS } from '@/lib/search';
+import type { FinancialDataProvider } from './types';
+
+type TimeSeriesModule = 'financials' | 'balance-sheet' | 'cash-flow';
+
+const STATEMENT_MODULES: Record<StatementType, TimeSeriesModule> = {
+  income_statement: 'financials',
+  balance_sheet: 'balance-sheet',
+  cash_flow: 'cash-flow',
+};
+
+// yfinance reports the same timeseries fields as title-cased words
+// ("totalRevenue" -> "Total Revenue"), so keep the keys consistent across providers.
+const toLineItemName = (key: string): string =>
+  key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .replace(/^./, (c) => c.toUpperCase());
+
+const toNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+async function fetchStatement(
+  symbol: string,
+  periodicity: Periodicity,
+  module: TimeSeriesModule
+): Promise<StatementCollection> {
+  // Yahoo returns four or five periods at most, so a five-year window is enough.
+  const period1 = new Date();
+  period1.setFullYear(period1.getFullYear() - 5);
+
+  // The library types describe a single row, but the module resolves to one row per period.
+  const rows = (await yahooFinance.fundamentalsTimeSeries(symbol, {
+    period1,
+    type: periodicity,
+    module,
+  })) as unknown as Array<{ date: Date } & Record<string, unknown>>;
+
+  const collection: StatementCollection = {};
+  for (const { date, ...values } of rows) {
+    const statement: FinancialStatement = {};
+    for (const [key, value] of Object.entries(values)) {
+      statement[toLineItemName(key)] = toNumber(value);
+    }
+    if (Object.keys(statement).length > 0) {
+      collection[toDateKey(date)] = statement;
+    }
+  }
+  return collection;
+}
+
+async function getCompanyOverview(symbol: string): Promise<CompanyOverview> {
+  const upperSymbol = symbol.toUpperCase();
+  const summary = await yahooFinance.quoteSummary(upperSymbol, {
+    modules: ['price', 'assetProfile', 'summaryDetail', 'defaultKeyStatistics', 'financialData'],
+  });
+
+  const { price, assetProfile, summaryDetail, defaultKeyStatistics, financialData } = summary;
+
+  return {
+    company_info: {
+      name: price?.longName ?? price?.shortName ?? upperSymbol,
+      sector: assetProfile?.sector ?? null,
+      industry: assetProfile?.industry ?? null,
+      website: assetProfile?.website ?? null,
+      description: assetProfile?.longBusinessSummary ?? null,
+      country: assetProfile?.country ?? null,
+      employees: assetProfile?.fullTimeEmployees ?? null,
+      exchange: price?.exchange ?? null,
+      reporting_currency: financialData?.financialCurrency ?? null,
+      trading_currency: price?.currency ?? null,
+      fiscal_year_end: defaultKeyStatistics?.lastFiscalYearEnd?.toISOString().slice(5, 10) ?? null,
+    },
+    // Mirrors the categories built from ticker.info in get_financial_statements.py.
+    metrics: {
+      key_metrics: {
+        market_cap: toNumber(summaryDetail?.marketCap),
+        enterprise_value: toNumber(defaultKeyStatistics?.enterpriseValue),
+        pe_ratio: toNumber(summaryDetail?.trailingPE),
+        forward_pe: toNumber(summaryDetail?.forwardPE),
+        peg_ratio: toNumber(defaultKeyStatistics?.pegRatio),
+        price_to_book: toNumber(defaultKeyStatistics?.priceToBook),
+        price_to_sales: toNumber(summaryDetail?.priceToSalesTrailing12Months),
+        beta: toNumber(summaryDetail?.beta),
+        dividend_yield: toNumber(summaryDetail?.dividendYield),
+        dividend_rate: toNumber(summaryDetail?.dividendRate),
+        five_year_avg_dividend_yield: toNumber(summaryDetail?.fiveYearAvgDividendYield),
+      },
+      efficiency_metrics: {
+        return_on_equity: toNumber(financialData?.returnOnEquity),
+        return_on_assets: toNumber(financialData?.returnOnAssets),
+        profit_margin: toNumber(financialData?.profitMargins),
+        operating_margin: toNumber(financialData?.operatingMargins),
+        gross_margin: toNumber(financialData?.grossMargins),
+      },
+      growth_metrics: {
+        revenue_growth: toNumber(financialData?.revenueGrowth),
+        earnings_growth: toNumber(financialData?.earningsGrowth),
+        earnings_quarterly_growth: toNumber(defaultKeyStatistics?.earningsQuarterlyGrowth),
+      },
+      debt_metrics: {
+        debt_to_equity: toNumber(financialData?.debtToEquity),
+        current_ratio: toNumber(financialData?.currentRatio),
+        quick_ratio: toNumber(financialData?.quickRatio),
+      },
+    },
+  };
+}
+
+const emptyOverview = (symbol: string): CompanyOverview => ({
+  company_info: {
+    name: symbol,
+    sector: null,
+    industry: null,
+    website: null,
+    description: null,
+    country: null,
+    employees: null,
+    exchange: null,
+  },
+  metrics: {},
+});
+
+const sectionError = (reason: unknown): SectionStatus => ({
+  status: 'error',
+  message: reason instanceof Error ? reason.message : 'Unknown Yahoo Finance error',
+});
+
+async function getFinancialData(symbol: string): Promise<FinancialData> {
+  const upperSymbol = symbol.toUpperCase();
+
+  // Settle every call separately so one failing module only blanks its own section.
+  const [overview, ...statements] = await Promise.allSettled([
+    getCompanyOverview(upperSymbol),
+    ...STATEMENT_TYPES.map((statementType) =>
+      Promise.all(
+        PERIODICITIES.map((periodicity) =>
+          fetchStatement(upperSymbol, periodicity, STATEMENT_MODULES[statementType])
+        )
+      )
+    ),
+  ]);
+
+  if (overview.status === 'rejected' && statements.every((result) => result.status === 'rejected')) {
+    throw overview.reason;
+  }
+
+  const sections: SectionStatuses = {};
+  const quarterly: FinancialStatements = { income_statement: {}, balance_sheet: {}, cash_flow: {} };
+  const annual: FinancialStatements = { income_statement: {}, balance_sheet: {}, cash_flow: {} };
+  STATEMENT_TYPES.forEach((statementType, index) => {
+    const result = statements[index];
+    if (result.status === 'fulfilled') {
+      [quarterly[statementType], annual[statementType]] = result.value;
+    } else {
+      sections[statementType] = sectionError(result.reason);
+    }
+  });
+  if (overview.status === 'rejected') {
+    sections.company_info = sectionError(overview.reason);
+    sections.metrics = sectionError(overview.reason);
+  }
+
+  return {
+    symbol: upperSymbol,
+    ...(overview.status === 'fulfilled' ? overview.value : emptyOverview(upperSymbol)),
+    financial_statements: { quarterly, annual },
+    sections,
+  };
+}
+
+async function getPriceHistory(symbol: string, range: PriceRange, interval: PriceInterval): Promise<PriceHistory> {
+  const upperSymbol = symbol.toUpperCase();
+  const chart = await yahooFinance.chart(upperSymbol, {
+    period1: rangeStart(range, new Date()) ?? new Date(0),
+    interval,
+  });
+
+  return {
+    symbol: upperSymbol,
+    currency: chart.meta.currency ?? null,
+    range,
+    interval,
+    bars: chart.quotes.map((quote) => ({
+      date: toDateKey(quote.date),
+      open: toNumber(quote.open),
+      high: toNumber(quote.high),
+      low: toNumber(quote.low),
+      close: toNumber(quote.close),
+      adj_close: toNumber(quote.adjclose),
+      volume: toNumber(quote.volume),
+    })),
+  };
+}
+
+async function searchSymbols(query: string): Promise<SearchResults> {
+  const result = await yahooFinance.search(query, { quotesCount: MAX_SEARCH_RESULTS, newsCount: 0 });
+
+  // Non-Yahoo quotes are Crunchbase-style private companies without a tradable symbol.
+  const matches = result.quotes.flatMap((quote) =>
+    quote.isYahooFinance
+      ? [
+          {
+            symbol: quote.symbol,
+            name: ('longname' in quote && quote.longname) || ('shortname' in quote && quote.shortname) || null,
+            exchange: quote.exchDisp ?? quote.exchange ?? null,
+            type: quote.quoteType ?? null,
+          },
+        ]
+      : []
+  );
+  return { query, matches };
+}
+
+const asUpstreamError = (error: unknown): never => {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown Yahoo Finance error';
+  throw new UpstreamError('yahoo', errorMessage);
+};
+
+export const yahooProvider: FinancialDataProvider = {
+  name: 'yahoo',
+  getFinancialData: (symbol) => getFinancialData(symbol).catch(asUpstreamError),
+  getCompanyOverview: (symbol) => getCompanyOverview(symbol).catch(asUpstreamError),
+  getPriceHistory: (symbol, range, interval) =>
+    getPriceHistory(symbol, range, interval).catch(asUpstreamError),
+  searchSymbols: (query) => searchSymbols(query).catch(asUpstreamError),
+};
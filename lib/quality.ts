@@ -0,0 +1,272 @@
+import { CHART_OF_ACCOUNTS, getCanonicalAccount } from '@/lib/chart-of-accounts';
+import { DEFAULT_DISPLAY_FORMAT, type DisplayFormat } from '@/lib/format';
+import { formatMetric, getLineItemDefinition } from '@/lib/metrics';
+import { normalizeStatement } from '@/lib/normalize';
+import {
+  PERIODICITIES,
+  STATEMENT_TYPES,
+  type FinancialData,
+  type FinancialStatement,
+  type Periodicity,
+  type Quality,
+  type QualityCheck,
+  type QualityFlag,
+  type StatementCollection,
+  type StatementType,
+} from '@/lib/schema';
+
+export const QUALITY_CHECK_LABELS: Record<QualityCheck, string> = {
+  balance_sheet_identity: 'Balance sheet does not balance',
+  cash_flow_subtotal: 'Cash flow subtotal does not add up',
+  sign_flip: 'Sign flip',
+  outlier_jump: 'Outlier jump',
+  missing_core_item: 'Missing core line item',
+  unparsed_value: 'Unreadable value',
+};
+
+/** Share of the larger side an accounting identity may be off by, for rounding in the source data. */
+const IDENTITY_TOLERANCE = 0.005;
+
+/** A line item that grows or shrinks by more than this factor from one period to the next is flagged. */
+const OUTLIER_FACTOR = 3;
+
+/** Accounts every period of a statement is expected to report. */
+const CORE_ACCOUNTS: Record<StatementType, string[]> = {
+  income_statement: ['revenue', 'net_income'],
+  balance_sheet: ['total_assets', 'total_liabilities', 'total_equity'],
+  cash_flow: ['operating_cash_flow'],
+};
+
+// Only accounts that should move gradually; profits and cash flows swing legitimately.
+const OUTLIER_ACCOUNTS: Record<StatementType, string[]> = {
+  income_statement: ['revenue', 'operating_expense', 'shares_diluted'],
+  balance_sheet: ['total_assets', 'total_liabilities', 'shares_outstanding'],
+  cash_flow: [],
+};
+
+interface StatementContext {
+  statementType: StatementType;
+  raw: StatementCollection;
+  /** Values by canonical account, with sign conventions applied. */
+  values: StatementCollection;
+  /** Period dates, oldest first. */
+  dates: string[];
+  format: DisplayFormat;
+}
+
+type FlagInput = Omit<QualityFlag, 'statement'>;
+
+/** Raw line item an account is read from in one period: the alias with a value, else any alias present. */
+function sourceOf(statement: FinancialStatement, statementType: StatementType, key: string): string | null {
+  const aliases = getCanonicalAccount(statementType, key)?.aliases ?? [];
+  return (
+    aliases.find((alias) => (statement[alias] ?? null) !== null) ?? aliases.find((alias) => alias in statement) ?? null
+  );
+}
+
+const labelOf = (statementType: StatementType, key: string) => getCanonicalAccount(statementType, key)?.label ?? key;
+
+const formatAmount = (context: StatementContext, item: string | null, value: number) =>
+  formatMetric(getLineItemDefinition(item ?? ''), value, context.format);
+
+const exceedsTolerance = (difference: number, scale: number) =>
+  Math.abs(difference) > IDENTITY_TOLERANCE * Math.abs(scale);
+
+function checkBalanceSheetIdentity(context: StatementContext): FlagInput[] {
+  return context.dates.flatMap((date): FlagInput[] => {
+    const period = context.values[date];
+    const assets = period.total_assets ?? null;
+    const liabilities = period.total_liabilities ?? null;
+    // Total assets include minority interests, so the equity side has to as well.
+    const equity = period.total_equity_with_minority ?? period.total_equity ?? null;
+    if (assets === null || liabilities === null || equity === null) return [];
+
+    const difference = assets - (liabilities + equity);
+    if (!exceedsTolerance(difference, assets)) return [];
+    const item = sourceOf(context.raw[date], 'balance_sheet', 'total_assets');
+    return [
+      {
+        check: 'balance_sheet_identity',
+        severity: 'error',
+        date,
+        line_item: item,
+        message: `Total assets (${formatAmount(context, item, assets)}) differ from liabilities plus equity (${formatAmount(context, item, liabilities + equity)}) by ${formatAmount(context, item, difference)}.`,
+      },
+    ];
+  });
+}
+
+function checkCashFlowSubtotals(context: StatementContext): FlagInput[] {
+  return context.dates.flatMap((date): FlagInput[] => {
+    const period = context.values[date];
+    const flags: FlagInput[] = [];
+    const operating = period.operating_cash_flow ?? null;
+    const investing = period.investing_cash_flow ?? null;
+    const financing = period.financing_cash_flow ?? null;
+    const change = period.change_in_cash ?? null;
+
+    if (operating !== null && investing !== null && financing !== null && change !== null) {
+      const total = operating + investing + financing + (period.fx_effect ?? 0);
+      const scale = Math.max(Math.abs(operating), Math.abs(investing), Math.abs(financing));
+      if (exceedsTolerance(total - change, scale)) {
+        const item = sourceOf(context.raw[date], 'cash_flow', 'change_in_cash');
+        flags.push({
+          check: 'cash_flow_subtotal',
+          severity: 'error',
+          date,
+          line_item: item,
+          message: `Operating, investing and financing cash flows add up to ${formatAmount(context, item, total)}, but the change in cash is ${formatAmount(context, item, change)}.`,
+        });
+      }
+    }
+
+    const capex = period.capital_expenditure ?? null;
+    const free = period.free_cash_flow ?? null;
+    if (
+      operating !== null &&
+      capex !== null &&
+      free !== null &&
+      exceedsTolerance(free - (operating + capex), operating)
+    ) {
+      const item = sourceOf(context.raw[date], 'cash_flow', 'free_cash_flow');
+      flags.push({
+        check: 'cash_flow_subtotal',
+        severity: 'error',
+        date,
+        line_item: item,
+        message: `Free cash flow (${formatAmount(context, item, free)}) differs from operating cash flow less capital expenditure (${formatAmount(context, item, operating + capex)}).`,
+      });
+    }
+    return flags;
+  });
+}
+
+/**
+ * Accounts with a sign convention should be reported with the same sign every
+ * period; a period that disagrees with the majority was most likely entered
+ * with the wrong sign upstream.
+ */
+function checkSignFlips(context: StatementContext): FlagInput[] {
+  return CHART_OF_ACCOUNTS[context.statementType]
+    .filter((entry) => entry.sign !== 'natural')
+    .flatMap((entry) => {
+      const reported = context.dates.flatMap((date) => {
+        const item = sourceOf(context.raw[date], context.statementType, entry.key);
+        const value = item === null ? null : context.raw[date][item];
+        return value === null || value === 0 ? [] : [{ date, item, value }];
+      });
+      const negatives = reported.filter(({ value }) => value < 0).length;
+      const positives = reported.length - negatives;
+      if (negatives === positives || Math.min(negatives, positives) === 0) return [];
+
+      const usual = positives > negatives ? 'positive' : 'negative';
+      return reported
+        .filter(({ value }) => (value > 0 ? 'positive' : 'negative') !== usual)
+        .map(({ date, item }): FlagInput => ({
+          check: 'sign_flip',
+          severity: 'warning',
+          date,
+          line_item: item,
+          message: `${entry.label} is ${usual === 'positive' ? 'negative' : 'positive'} here but ${usual} in ${Math.max(positives, negatives)} other periods.`,
+        }));
+    });
+}
+
+function checkOutlierJumps(context: StatementContext): FlagInput[] {
+  return OUTLIER_ACCOUNTS[context.statementType].flatMap((key) =>
+    context.dates.slice(1).flatMap((date, index): FlagInput[] => {
+      const previousDate = context.dates[index];
+      const previous = context.values[previousDate][key] ?? null;
+      const current = context.values[date][key] ?? null;
+      if (previous === null || current === null || previous === 0 || current === 0) return [];
+
+      const ratio = current / previous;
+      // A change of sign is the sign-flip check's concern.
+      if (ratio < 0 || (ratio <= OUTLIER_FACTOR && ratio >= 1 / OUTLIER_FACTOR)) return [];
+      const item = sourceOf(context.raw[date], context.statementType, key);
+      return [
+        {
+          check: 'outlier_jump',
+          severity: 'warning',
+          date,
+          line_item: item,
+          message: `${labelOf(context.statementType, key)} moved from ${formatAmount(context, item, previous)} on ${previousDate} to ${formatAmount(context, item, current)}, a ${ratio > 1 ? `${ratio.toFixed(1)}×` : `${(1 / ratio).toFixed(1)}×`} ${ratio > 1 ? 'increase' : 'decrease'}.`,
+        },
+      ];
+    })
+  );
+}
+
+function checkCoreItems(context: StatementContext): FlagInput[] {
+  return context.dates.flatMap((date) =>
+    CORE_ACCOUNTS[context.statementType].flatMap((key): FlagInput[] => {
+      if ((context.values[date][key] ?? null) !== null) return [];
+      const item = sourceOf(context.raw[date], context.statementType, key);
+      return [
+        {
+          check: 'missing_core_item',
+          severity: 'warning',
+          date,
+          line_item: item,
+          message: item
+            ? `${labelOf(context.statementType, key)} is listed as ${item} but has no value.`
+            : `${labelOf(context.statementType, key)} is not reported for this period.`,
+        },
+      ];
+    })
+  );
+}
+
+const CHECKS: Array<(context: StatementContext) => FlagInput[]> = [
+  checkBalanceSheetIdentity,
+  checkCashFlowSubtotals,
+  checkSignFlips,
+  checkOutlierJumps,
+  checkCoreItems,
+];
+
+function checkPeriodicity(data: FinancialData, periodicity: Periodicity, format: DisplayFormat): QualityFlag[] {
+  const flags = STATEMENT_TYPES.flatMap((statementType) => {
+    const raw = data.financial_statements[periodicity][statementType];
+    const context: StatementContext = {
+      statementType,
+      raw,
+      values: normalizeStatement(raw, statementType).values,
+      dates: Object.keys(raw).sort(),
+      format,
+    };
+    return CHECKS.flatMap((check) => check(context)).map((flag): QualityFlag => ({
+      ...flag,
+      statement: statementType,
+    }));
+  });
+
+  const unparsed = (data.unparsed_values ?? [])
+    .filter((value) => value.periodicity === periodicity)
+    .map(({ statement, date, line_item, raw }): QualityFlag => ({
+      check: 'unparsed_value',
+      severity: 'warning',
+      statement,
+      date,
+      line_item,
+      message: `The provider returned "${raw}", which is not a number, so the value is shown as missing.`,
+    }));
+
+  return [...flags, ...unparsed];
+}
+
+/**
+ * Runs the data-quality checks over every statement: accounting identities
+ * that do not hold, sign flips, outlier jumps between periods, missing core
+ * line items and values the provider could not parse. Flags point at the raw
+ * line item and period date they concern.
+ */
+export function checkDataQuality(data: FinancialData): Quality {
+  const format: DisplayFormat = {
+    ...DEFAULT_DISPLAY_FORMAT,
+    currency: data.company_info.reporting_currency ?? data.company_info.trading_currency ?? 'USD',
+  };
+  return Object.fromEntries(
+    PERIODICITIES.map((periodicity) => [periodicity, checkPeriodicity(data, periodicity, format)])
+  ) as Quality;
+}
@@ -0,0 +1,82 @@
+import { QueueFullError, ServiceUnavailableError } from '@/lib/errors';
+
+export interface WorkQueueOptions {
+  /** Tasks allowed to run at the same time. */
+  concurrency: number;
+  /** Tasks allowed to wait for a slot; further tasks are rejected. */
+  maxQueued: number;
+  /** How long a task may wait for a slot before it is rejected. */
+  queueTimeoutMs: number;
+}
+
+export interface WorkQueue {
+  run<T>(task: () => Promise<T>): Promise<T>;
+  readonly active: number;
+  readonly queued: number;
+}
+
+interface Waiter {
+  start: () => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Bounded FIFO queue that caps how many tasks run at once. Rejects with
+ * QueueFullError when the backlog is full and ServiceUnavailableError when a
+ * task waited too long for a slot.
+ */
+export function createWorkQueue({ concurrency, maxQueued, queueTimeoutMs }: WorkQueueOptions): WorkQueue {
+  let active = 0;
+  const waiting: Waiter[] = [];
+  const retryAfterSeconds = Math.max(1, Math.ceil(queueTimeoutMs / 1000));
+
+  const release = () => {
+    active--;
+    const next = waiting.shift();
+    if (next) {
+      clearTimeout(next.timer);
+      next.start();
+    }
+  };
+
+  const acquire = (): Promise<void> => {
+    if (active < concurrency) {
+      active++;
+      return Promise.resolve();
+    }
+    if (waiting.length >= maxQueued) {
+      return Promise.reject(new QueueFullError(retryAfterSeconds));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        start: () => {
+          active++;
+          resolve();
+        },
+        timer: setTimeout(() => {
+          waiting.splice(waiting.indexOf(waiter), 1);
+          reject(new ServiceUnavailableError('Timed out waiting for a free worker', retryAfterSeconds));
+        }, queueTimeoutMs),
+      };
+      waiting.push(waiter);
+    });
+  };
+
+  return {
+    async run(task) {
+      await acquire();
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+    get active() {
+      return active;
+    },
+    get queued() {
+      return waiting.length;
+    },
+  };
+}
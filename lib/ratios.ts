@@ -0,0 +1,251 @@
+import type { MetricDefinition } from '@/lib/metrics';
+import { normalizeStatements, type NormalizedStatement } from '@/lib/normalize';
+import type { FinancialStatements, Periodicity, Ratios, StatementCollection, StatementType } from '@/lib/schema';
+
+export interface RatioDefinition extends MetricDefinition {
+  category: string;
+}
+
+export const RATIO_DEFINITIONS: RatioDefinition[] = [
+  {
+    key: 'gross_margin',
+    label: 'Gross Margin',
+    category: 'Profitability',
+    kind: 'percent',
+    description: 'Gross profit as a share of revenue.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'operating_margin',
+    label: 'Operating Margin',
+    category: 'Profitability',
+    kind: 'percent',
+    description: 'Operating income as a share of revenue.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'net_margin',
+    label: 'Net Margin',
+    category: 'Profitability',
+    kind: 'percent',
+    description: 'Net income as a share of revenue.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'return_on_equity',
+    label: 'Return on Equity',
+    category: 'Returns',
+    kind: 'percent',
+    description: 'Annualised net income divided by shareholders’ equity.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'return_on_assets',
+    label: 'Return on Assets',
+    category: 'Returns',
+    kind: 'percent',
+    description: 'Annualised net income divided by total assets.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'return_on_invested_capital',
+    label: 'Return on Invested Capital',
+    category: 'Returns',
+    kind: 'percent',
+    description: 'Annualised after-tax operating income divided by debt plus equity.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'current_ratio',
+    label: 'Current Ratio',
+    category: 'Liquidity',
+    kind: 'multiple',
+    description: 'Current assets divided by current liabilities.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'quick_ratio',
+    label: 'Quick Ratio',
+    category: 'Liquidity',
+    kind: 'multiple',
+    description: 'Current assets excluding inventory, divided by current liabilities.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'debt_to_equity',
+    label: 'Debt / Equity',
+    category: 'Leverage',
+    kind: 'multiple',
+    description: 'Total debt divided by shareholders’ equity.',
+    higherIsBetter: false,
+  },
+  {
+    key: 'interest_coverage',
+    label: 'Interest Coverage',
+    category: 'Leverage',
+    kind: 'multiple',
+    description: 'Operating income divided by interest expense.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'free_cash_flow',
+    label: 'Free Cash Flow',
+    category: 'Cash Flow',
+    kind: 'currency',
+    description: 'Operating cash flow less capital expenditure.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'fcf_margin',
+    label: 'FCF Margin',
+    category: 'Cash Flow',
+    kind: 'percent',
+    description: 'Free cash flow as a share of revenue.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'days_sales_outstanding',
+    label: 'Days Sales Outstanding',
+    category: 'Working Capital',
+    kind: 'days',
+    description: 'Average days to collect receivables.',
+    higherIsBetter: false,
+  },
+  {
+    key: 'days_inventory_outstanding',
+    label: 'Days Inventory Outstanding',
+    category: 'Working Capital',
+    kind: 'days',
+    description: 'Average days inventory is held before sale.',
+    higherIsBetter: false,
+  },
+  {
+    key: 'days_payables_outstanding',
+    label: 'Days Payables Outstanding',
+    category: 'Working Capital',
+    kind: 'days',
+    description: 'Average days taken to pay suppliers.',
+    higherIsBetter: true,
+  },
+  {
+    key: 'cash_conversion_cycle',
+    label: 'Cash Conversion Cycle',
+    category: 'Working Capital',
+    kind: 'days',
+    description: 'Days between paying suppliers and collecting from customers.',
+    higherIsBetter: false,
+  },
+];
+
+/** Ratios keyed by period date, then by RatioDefinition key. */
+export type RatioSeries = StatementCollection;
+
+const DAYS_IN_PERIOD: Record<Periodicity, number> = { quarterly: 365 / 4, annual: 365 };
+
+// Quarterly returns are annualised so they read on the same scale as annual ones.
+const PERIODS_PER_YEAR: Record<Periodicity, number> = { quarterly: 4, annual: 1 };
+
+type Value = number | null;
+
+const divide = (numerator: Value, denominator: Value): Value =>
+  numerator === null || denominator === null || denominator === 0 ? null : numerator / denominator;
+
+const first = (...values: Value[]): Value => values.find((value) => value !== null) ?? null;
+
+const subtract = (a: Value, b: Value): Value => (a === null || b === null ? null : a - b);
+
+const add = (a: Value, b: Value): Value => (a === null || b === null ? null : a + b);
+
+const scale = (value: Value, factor: number): Value => (value === null ? null : value * factor);
+
+const periodDates = (statements: FinancialStatements): string[] => {
+  const dates = new Set<string>();
+  for (const collection of Object.values(statements)) {
+    Object.keys(collection).forEach((date) => dates.add(date));
+  }
+  return Array.from(dates).sort();
+};
+
+function computePeriod(
+  statements: Record<StatementType, NormalizedStatement>,
+  date: string,
+  periodicity: Periodicity
+) {
+  // Canonical accounts rather than raw names, so fallbacks and sign conventions
+  // are handled once in the chart of accounts.
+  const read = ({ values }: NormalizedStatement) => (account: string): Value =>
+    values[date]?.[account] ?? null;
+  const income = read(statements.income_statement);
+  const balance = read(statements.balance_sheet);
+  const cash = read(statements.cash_flow);
+
+  const revenue = income('revenue');
+  const costOfRevenue = income('cost_of_revenue');
+  const grossProfit = first(income('gross_profit'), subtract(revenue, costOfRevenue));
+  const operatingIncome = income('operating_income');
+  const netIncome = income('net_income');
+  const interestExpense = income('interest_expense');
+
+  const equity = balance('total_equity');
+  const totalAssets = balance('total_assets');
+  const totalDebt = balance('total_debt');
+  const currentAssets = balance('current_assets');
+  const currentLiabilities = balance('current_liabilities');
+  const inventory = balance('inventory') ?? 0;
+  const receivables = balance('accounts_receivable');
+  const payables = balance('accounts_payable');
+  const investedCapital = first(balance('invested_capital'), add(totalDebt, equity));
+
+  const operatingCashFlow = cash('operating_cash_flow');
+  const freeCashFlow = first(cash('free_cash_flow'), add(operatingCashFlow, cash('capital_expenditure')));
+
+  // NOPAT uses the period's effective tax rate, clamped to a sensible range.
+  const taxRate = divide(income('tax_provision'), income('pretax_income'));
+  const nopat =
+    operatingIncome === null
+      ? null
+      : operatingIncome * (1 - Math.min(Math.max(taxRate ?? 0, 0), 1));
+
+  const days = DAYS_IN_PERIOD[periodicity];
+  const annualise = PERIODS_PER_YEAR[periodicity];
+
+  const dso = scale(divide(receivables, revenue), days);
+  const dio = scale(divide(balance('inventory'), costOfRevenue), days);
+  const dpo = scale(divide(payables, costOfRevenue), days);
+
+  return {
+    gross_margin: divide(grossProfit, revenue),
+    operating_margin: divide(operatingIncome, revenue),
+    net_margin: divide(netIncome, revenue),
+    return_on_equity: scale(divide(netIncome, equity), annualise),
+    return_on_assets: scale(divide(netIncome, totalAssets), annualise),
+    return_on_invested_capital: scale(divide(nopat, investedCapital), annualise),
+    current_ratio: divide(currentAssets, currentLiabilities),
+    quick_ratio: divide(subtract(currentAssets, inventory), currentLiabilities),
+    debt_to_equity: divide(totalDebt, equity),
+    interest_coverage: divide(operatingIncome, interestExpense),
+    free_cash_flow: freeCashFlow,
+    fcf_margin: divide(freeCashFlow, revenue),
+    days_sales_outstanding: dso,
+    days_inventory_outstanding: dio,
+    days_payables_outstanding: dpo,
+    cash_conversion_cycle: subtract(add(dso, dio ?? 0), dpo),
+  };
+}
+
+/** Computes every RATIO_DEFINITIONS entry for each period in `statements`. */
+export function computeRatioSeries(statements: FinancialStatements, periodicity: Periodicity): RatioSeries {
+  const normalized = normalizeStatements(statements);
+  const series: RatioSeries = {};
+  for (const date of periodDates(statements)) {
+    series[date] = computePeriod(normalized, date, periodicity);
+  }
+  return series;
+}
+
+export function computeRatios(financialStatements: Record<Periodicity, FinancialStatements>): Ratios {
+  return {
+    quarterly: computeRatioSeries(financialStatements.quarterly, 'quarterly'),
+    annual: computeRatioSeries(financialStatements.annual, 'annual'),
+  };
+}
@@ -0,0 +1,472 @@
+import { z } from 'zod';
+import { isValidSymbol } from '@/lib/symbols';
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const FinancialStatementSchema = z.record(z.string(), z.number().nullable());
+
+export const StatementCollectionSchema = z.record(
+  z.string().regex(DATE_KEY, 'Expected a YYYY-MM-DD period date'),
+  FinancialStatementSchema
+);
+
+export const FinancialStatementsSchema = z.object({
+  income_statement: StatementCollectionSchema,
+  balance_sheet: StatementCollectionSchema,
+  cash_flow: StatementCollectionSchema,
+});
+
+export const CompanyInfoSchema = z.object({
+  name: z.string(),
+  sector: z.string().nullable(),
+  industry: z.string().nullable(),
+  employees: z.number().nullable(),
+  exchange: z.string().nullable(),
+  description: z.string().nullable(),
+  website: z.string().nullable(),
+  country: z.string().nullable(),
+  /** ISO 4217 code the statements are reported in, e.g. EUR for ASML. */
+  reporting_currency: z.string().nullable().optional(),
+  /** ISO 4217 code the shares trade in; price-based metrics use this one. */
+  trading_currency: z.string().nullable().optional(),
+  /** MM-DD the fiscal year ends on, e.g. 09-28 for Apple; fiscal period labels count from it. */
+  fiscal_year_end: z.string().regex(/^\d{2}-\d{2}$/, 'Expected an MM-DD date').nullable().optional(),
+});
+
+export const MetricsSchema = z.record(
+  z.string(),
+  z.record(z.string(), z.number().nullable())
+);
+
+export const CompanyOverviewSchema = z.object({
+  company_info: CompanyInfoSchema,
+  metrics: MetricsSchema,
+});
+
+export const RatiosSchema = z.object({
+  quarterly: StatementCollectionSchema,
+  annual: StatementCollectionSchema,
+});
+
+const statementsOf = <T extends z.ZodTypeAny>(schema: T) =>
+  z.object({
+    income_statement: schema,
+    balance_sheet: schema,
+    cash_flow: schema,
+  });
+
+export const LineGrowthSchema = z.object({
+  yoy: z.number().nullable(),
+  qoq: z.number().nullable(),
+  cagr: z.number().nullable(),
+});
+
+export const StatementGrowthSchema = z.record(z.string(), LineGrowthSchema);
+
+export const GrowthSchema = z.object({
+  quarterly: statementsOf(StatementGrowthSchema),
+  annual: statementsOf(StatementGrowthSchema),
+});
+
+export const TtmSchema = statementsOf(FinancialStatementSchema).extend({
+  period_end: z.string().regex(DATE_KEY),
+});
+
+export const FiscalPeriodSchema = z.object({
+  /** Column key: the latest period-end date any statement reports for this period. */
+  date: z.string().regex(DATE_KEY),
+  fiscal_year: z.number().int(),
+  /** 1-4, or null for an annual period. */
+  fiscal_quarter: z.number().int().min(1).max(4).nullable(),
+  /** `FQ3 2024` or `FY 2024`. */
+  label: z.string(),
+  /** Every period-end date folded into this period, newest first. */
+  reported_dates: z.array(z.string().regex(DATE_KEY)),
+  /** Statements with figures for this period. */
+  statements: z.array(z.enum(['income_statement', 'balance_sheet', 'cash_flow'])),
+  /** A statement reports the period under more than one date, as an amended filing does. */
+  restated: z.boolean(),
+  /** Labels of the periods expected between this one and the next older one that nothing reports. */
+  missing_before: z.array(z.string()),
+});
+
+export const PeriodsSchema = z.object({
+  quarterly: z.array(FiscalPeriodSchema),
+  annual: z.array(FiscalPeriodSchema),
+});
+
+export const UnparsedValueSchema = z.object({
+  periodicity: z.enum(['quarterly', 'annual']),
+  statement: z.enum(['income_statement', 'balance_sheet', 'cash_flow']),
+  date: z.string().regex(DATE_KEY),
+  line_item: z.string(),
+  /** The value as the provider received it. */
+  raw: z.string(),
+});
+
+export const QUALITY_CHECKS = [
+  'balance_sheet_identity',
+  'cash_flow_subtotal',
+  'sign_flip',
+  'outlier_jump',
+  'missing_core_item',
+  'unparsed_value',
+] as const;
+
+/** `error`: the figures contradict each other. `warning`: they look unusual or are incomplete. */
+export const QUALITY_SEVERITIES = ['warning', 'error'] as const;
+
+export const QualityFlagSchema = z.object({
+  check: z.enum(QUALITY_CHECKS),
+  severity: z.enum(QUALITY_SEVERITIES),
+  statement: z.enum(['income_statement', 'balance_sheet', 'cash_flow']),
+  /** Period date as the statement reports it. */
+  date: z.string().regex(DATE_KEY),
+  /** Raw line item the flag belongs to; null when it concerns the period as a whole. */
+  line_item: z.string().nullable(),
+  message: z.string(),
+});
+
+export const QualitySchema = z.object({
+  quarterly: z.array(QualityFlagSchema),
+  annual: z.array(QualityFlagSchema),
+});
+
+/** Parts of a company's data a provider can fail to deliver independently. */
+export const DATA_SECTIONS = ['company_info', 'income_statement', 'balance_sheet', 'cash_flow', 'metrics'] as const;
+
+/**
+ * `partial`: a statement has periods for only one periodicity. `stale`: the
+ * latest fetch failed and the section is served from an earlier one.
+ */
+export const SECTION_STATUSES = ['ok', 'partial', 'stale', 'empty', 'error'] as const;
+
+export const SectionStatusSchema = z.object({
+  status: z.enum(SECTION_STATUSES),
+  /** Why the section is not `ok`; null when it is. */
+  message: z.string().nullable(),
+});
+
+export const SectionStatusesSchema = z
+  .object({
+    company_info: SectionStatusSchema,
+    income_statement: SectionStatusSchema,
+    balance_sheet: SectionStatusSchema,
+    cash_flow: SectionStatusSchema,
+    metrics: SectionStatusSchema,
+  })
+  .partial();
+
+export const FinancialDataSchema = CompanyOverviewSchema.extend({
+  symbol: z.string(),
+  financial_statements: z.object({
+    quarterly: FinancialStatementsSchema,
+    annual: FinancialStatementsSchema,
+  }),
+  // Set by the API cache layer, never by providers.
+  cached_at: z.string().datetime().optional(),
+  // Providers report the sections they failed to fetch; the API resolves the rest.
+  sections: SectionStatusesSchema.optional(),
+  warnings: z.array(z.string()).optional(),
+  // Values the provider could not read as numbers; they are null in financial_statements.
+  unparsed_values: z.array(UnparsedValueSchema).optional(),
+  // Derived by the API from financial_statements, never by providers.
+  ratios: RatiosSchema.optional(),
+  ttm: TtmSchema.nullable().optional(),
+  growth: GrowthSchema.optional(),
+  periods: PeriodsSchema.optional(),
+  quality: QualitySchema.optional(),
+});
+
+export const PRICE_RANGES = ['1mo', '3mo', '6mo', '1y', '2y', '5y', '10y', 'max'] as const;
+export const PRICE_INTERVALS = ['1d', '1wk', '1mo'] as const;
+
+export const PriceBarSchema = z.object({
+  date: z.string().regex(DATE_KEY, 'Expected a YYYY-MM-DD bar date'),
+  open: z.number().nullable(),
+  high: z.number().nullable(),
+  low: z.number().nullable(),
+  close: z.number().nullable(),
+  /** Close adjusted for splits and dividends, when the provider reports it. */
+  adj_close: z.number().nullable().optional(),
+  volume: z.number().nullable(),
+});
+
+export const PriceHistorySchema = z.object({
+  symbol: z.string(),
+  /** Trading currency of the quoted prices. */
+  currency: z.string().nullable(),
+  range: z.enum(PRICE_RANGES),
+  /** The interval actually returned, which may be coarser than the one requested. */
+  interval: z.enum(PRICE_INTERVALS),
+  bars: z.array(PriceBarSchema),
+});
+
+export const SearchMatchSchema = z.object({
+  symbol: z.string(),
+  name: z.string().nullable(),
+  /** Display name of the listing exchange, e.g. NASDAQ or LSE. */
+  exchange: z.string().nullable(),
+  /** Asset type as Yahoo reports it: EQUITY, ETF, INDEX, MUTUALFUND, … */
+  type: z.string().nullable(),
+});
+
+export const SearchResultsSchema = z.object({
+  query: z.string(),
+  /** Best match first. */
+  matches: z.array(SearchMatchSchema),
+});
+
+export const DcfAssumptionsSchema = z
+  .object({
+    revenue_growth: z.number().min(-1).max(5),
+    operating_margin: z.number().min(-5).max(1),
+    tax_rate: z.number().min(0).max(1),
+    capex_percent: z.number().min(0).max(5),
+    da_percent: z.number().min(0).max(5),
+    nwc_percent: z.number().min(-5).max(5),
+    wacc: z.number().gt(0).max(1),
+    terminal_growth: z.number().min(-0.5).max(0.5),
+    years: z.number().int().min(1).max(20),
+  })
+  // The Gordon growth terminal value has no answer otherwise, so the set could never be valued.
+  .refine((assumptions) => assumptions.terminal_growth < assumptions.wacc, {
+    message: 'Terminal growth must be below WACC',
+    path: ['terminal_growth'],
+  });
+
+export const AssumptionSetInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  assumptions: DcfAssumptionsSchema,
+});
+
+export const MAX_WATCHLIST_SYMBOLS = 50;
+
+const symbolListSchema = (max: number) =>
+  z
+    .array(z.string().trim().toUpperCase().refine(isValidSymbol, 'Expected a ticker symbol'))
+    .max(max)
+    // Keep the first occurrence of each symbol, in the order given.
+    .transform((symbols) => Array.from(new Set(symbols)));
+
+export const WatchlistInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  symbols: symbolListSchema(MAX_WATCHLIST_SYMBOLS),
+});
+
+export const ScreenInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  expression: z.string().trim().min(1).max(1000),
+});
+
+export const MAX_PORTFOLIO_HOLDINGS = 500;
+
+/**
+ * One purchase of a position. `cost_basis` is the total paid for the lot, in
+ * the currency the symbol trades in.
+ */
+export const HoldingSchema = z.object({
+  symbol: z.string().trim().toUpperCase().refine(isValidSymbol, 'Expected a ticker symbol'),
+  shares: z.number().finite().positive(),
+  cost_basis: z.number().finite().min(0),
+  acquired_on: z
+    .string()
+    .regex(DATE_KEY, 'Expected a YYYY-MM-DD date')
+    .refine((date) => {
+      const parsed = new Date(`${date}T00:00:00Z`);
+      return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+    }, 'Not a calendar date'),
+});
+
+export const PortfolioInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  /** ISO 4217 code the portfolio's totals are reported in. */
+  currency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 currency code')
+    .default('USD'),
+  holdings: z.array(HoldingSchema).max(MAX_PORTFOLIO_HOLDINGS),
+});
+
+export const ALERT_OPERATORS = ['>', '>=', '<', '<='] as const;
+
+/** `in_app` only adds to the notification log; the others deliver a copy as well. */
+export const ALERT_CHANNELS = ['in_app', 'webhook', 'email'] as const;
+
+export const MAX_ALERT_SYMBOLS = 50;
+
+/**
+ * `threshold` compares the current value of a metric or latest fiscal-year
+ * ratio; `change` compares how much a statement ratio moved between the two
+ * latest periods, in its own units or, when `relative`, as a share of the
+ * older value.
+ */
+export const AlertConditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('threshold'),
+    operator: z.enum(ALERT_OPERATORS),
+    value: z.number().finite(),
+  }),
+  z.object({
+    type: z.literal('change'),
+    periodicity: z.enum(['quarterly', 'annual']),
+    operator: z.enum(ALERT_OPERATORS),
+    value: z.number().finite(),
+    relative: z.boolean().default(false),
+  }),
+]);
+
+export const AlertRuleInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  symbols: symbolListSchema(MAX_ALERT_SYMBOLS).refine((symbols) => symbols.length > 0, 'Expected at least one symbol'),
+  field: z.string().trim().toLowerCase().min(1),
+  condition: AlertConditionSchema,
+  channels: z
+    .array(z.enum(ALERT_CHANNELS))
+    .min(1)
+    .transform((channels) => Array.from(new Set(channels))),
+  enabled: z.boolean().default(true),
+});
+
+export type FinancialStatement = z.infer<typeof FinancialStatementSchema>;
+export type StatementCollection = z.infer<typeof StatementCollectionSchema>;
+export type FinancialStatements = z.infer<typeof FinancialStatementsSchema>;
+export type CompanyInfo = z.infer<typeof CompanyInfoSchema>;
+export type Metrics = z.infer<typeof MetricsSchema>;
+export type Ratios = z.infer<typeof RatiosSchema>;
+export type LineGrowth = z.infer<typeof LineGrowthSchema>;
+export type StatementGrowth = z.infer<typeof StatementGrowthSchema>;
+export type Growth = z.infer<typeof GrowthSchema>;
+export type Ttm = z.infer<typeof TtmSchema>;
+export type FiscalPeriod = z.infer<typeof FiscalPeriodSchema>;
+export type Periods = z.infer<typeof PeriodsSchema>;
+export type UnparsedValue = z.infer<typeof UnparsedValueSchema>;
+export type QualityCheck = (typeof QUALITY_CHECKS)[number];
+export type QualityFlag = z.infer<typeof QualityFlagSchema>;
+export type Quality = z.infer<typeof QualitySchema>;
+export type CompanyOverview = z.infer<typeof CompanyOverviewSchema>;
+export type FinancialData = z.infer<typeof FinancialDataSchema>;
+export type SectionStatus = z.infer<typeof SectionStatusSchema>;
+export type SectionStatuses = z.infer<typeof SectionStatusesSchema>;
+export type DcfAssumptions = z.infer<typeof DcfAssumptionsSchema>;
+export type AssumptionSetInput = z.infer<typeof AssumptionSetInputSchema>;
+export type WatchlistInput = z.infer<typeof WatchlistInputSchema>;
+export type ScreenInput = z.infer<typeof ScreenInputSchema>;
+export type Holding = z.infer<typeof HoldingSchema>;
+export type PortfolioInput = z.infer<typeof PortfolioInputSchema>;
+export type AlertOperator = (typeof ALERT_OPERATORS)[number];
+export type AlertChannelName = (typeof ALERT_CHANNELS)[number];
+export type AlertCondition = z.infer<typeof AlertConditionSchema>;
+export type AlertRuleInput = z.infer<typeof AlertRuleInputSchema>;
+export type PriceBar = z.infer<typeof PriceBarSchema>;
+export type PriceHistory = z.infer<typeof PriceHistorySchema>;
+export type SearchMatch = z.infer<typeof SearchMatchSchema>;
+export type SearchResults = z.infer<typeof SearchResultsSchema>;
+export type DataSection = (typeof DATA_SECTIONS)[number];
+export type PriceRange = (typeof PRICE_RANGES)[number];
+export type PriceInterval = (typeof PRICE_INTERVALS)[number];
+
+export type Periodicity = keyof FinancialData['financial_statements'];
+export type StatementType = keyof FinancialStatements;
+
+export const PERIODICITIES: Periodicity[] = ['quarterly', 'annual'];
+export const STATEMENT_TYPES: StatementType[] = ['income_statement', 'balance_sheet', 'cash_flow'];
+
+export const isPeriodicity = (value: string): value is Periodicity =>
+  (PERIODICITIES as string[]).includes(value);
+
+export const isStatementType = (value: string): value is StatementType =>
+  (STATEMENT_TYPES as string[]).includes(value);
+
+export const isDataSection = (value: string): value is DataSection =>
+  (DATA_SECTIONS as readonly string[]).includes(value);
+
+export const isPriceRange = (value: string): value is PriceRange =>
+  (PRICE_RANGES as readonly string[]).includes(value);
+
+export const isPriceInterval = (value: string): value is PriceInterval =>
+  (PRICE_INTERVALS as readonly string[]).includes(value);
+
+export const isAlertChannel = (value: string): value is AlertChannelName =>
+  (ALERT_CHANNELS as readonly string[]).includes(value);
+
+/**
+ * Flow items accumulate over a period (revenue, cash flows) and can be summed
+ * across quarters; stock items are point-in-time balances and cannot.
+ */
+export type LineItemKind = 'flow' | 'stock';
+
+const STATEMENT_ITEM_KINDS: Record<StatementType, LineItemKind> = {
+  income_statement: 'flow',
+  balance_sheet: 'stock',
+  cash_flow: 'flow',
+};
+
+// Averages reported alongside flow statements that must not be summed.
+const STOCK_ITEM_EXCEPTIONS = new Set(['Basic Average Shares', 'Diluted Average Shares', 'Tax Rate For Calcs']);
+
+export const getLineItemKind = (statementType: StatementType, item: string): LineItemKind =>
+  STOCK_ITEM_EXCEPTIONS.has(item) ? 'stock' : STATEMENT_ITEM_KINDS[statementType];
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: SchemaIssue[] };
+
+const formatPath = (path: (string | number)[]): string =>
+  path.length > 0 ? path.join('.') : '(root)';
+
+function validate<S extends z.ZodTypeAny>(schema: S, payload: unknown): ValidationResult<z.output<S>> {
+  const result = schema.safeParse(payload);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => ({
+      path: formatPath(issue.path),
+      message: issue.message,
+    })),
+  };
+}
+
+/**
+ * Checks an untrusted provider payload against FinancialDataSchema. Unknown
+ * top-level fields (such as the Python script's `status`) are stripped.
+ */
+export const validateFinancialData = (payload: unknown) =>
+  validate(FinancialDataSchema, payload);
+
+export const validateCompanyOverview = (payload: unknown) =>
+  validate(CompanyOverviewSchema, payload);
+
+export const validatePriceHistory = (payload: unknown) =>
+  validate(PriceHistorySchema, payload);
+
+export const validateSearchResults = (payload: unknown) =>
+  validate(SearchResultsSchema, payload);
+
+export const validateAssumptionSetInput = (payload: unknown) =>
+  validate(AssumptionSetInputSchema, payload);
+
+export const validateWatchlistInput = (payload: unknown) =>
+  validate(WatchlistInputSchema, payload);
+
+export const validateScreenInput = (payload: unknown) =>
+  validate(ScreenInputSchema, payload);
+
+export const validateHolding = (payload: unknown) =>
+  validate(HoldingSchema, payload);
+
+export const validatePortfolioInput = (payload: unknown) =>
+  validate(PortfolioInputSchema, payload);
+
+export const validateAlertRuleInput = (payload: unknown) =>
+  validate(AlertRuleInputSchema, payload);
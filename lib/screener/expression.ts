@@ -0,0 +1,224 @@
+import { ScreenExpressionError } from '@/lib/errors';
+import { getScreenerField, type ScreenerValue } from './fields';
+
+export const COMPARISON_OPERATORS = ['=', '!=', '<', '<=', '>', '>='] as const;
+export type ComparisonOperator = (typeof COMPARISON_OPERATORS)[number];
+
+export type ScreenNode =
+  | { type: 'and' | 'or'; left: ScreenNode; right: ScreenNode }
+  | { type: 'not'; operand: ScreenNode }
+  | { type: 'compare'; field: string; operator: ComparisonOperator; value: string | number };
+
+type Token =
+  | { type: 'word' | 'string' | 'operator' | 'lparen' | 'rparen'; text: string; position: number }
+  | { type: 'number'; text: string; value: number; position: number };
+
+const KEYWORDS = new Set(['AND', 'OR', 'NOT']);
+
+// `100B` reads better than 100000000000 when screening on market cap.
+const NUMBER_SUFFIXES: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9, T: 1e12 };
+
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?(?:e[+-]?\d+)?([KMBT])?(?![\w.])/i;
+const WORD_PATTERN = /^[A-Za-z_][\w.&-]*/;
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    const rest = expression.slice(position);
+    const char = rest[0];
+
+    if (/\s/.test(char)) {
+      position += 1;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', text: char, position });
+      position += 1;
+    } else if (/^(?:<=|>=|!=|[=<>])/.test(rest)) {
+      const text = rest.match(/^(?:<=|>=|!=|[=<>])/)![0];
+      tokens.push({ type: 'operator', text, position });
+      position += text.length;
+    } else if (char === '"' || char === "'") {
+      const end = expression.indexOf(char, position + 1);
+      if (end === -1) throw new ScreenExpressionError('Unterminated string', position);
+      tokens.push({ type: 'string', text: expression.slice(position + 1, end), position });
+      position = end + 1;
+    } else if (NUMBER_PATTERN.test(rest)) {
+      const match = rest.match(NUMBER_PATTERN)!;
+      const suffix = match[1]?.toUpperCase();
+      const base = Number(suffix ? match[0].slice(0, -1) : match[0]);
+      tokens.push({
+        type: 'number',
+        text: match[0],
+        value: suffix ? base * NUMBER_SUFFIXES[suffix] : base,
+        position,
+      });
+      position += match[0].length;
+    } else if (WORD_PATTERN.test(rest)) {
+      const text = rest.match(WORD_PATTERN)![0];
+      tokens.push({ type: 'word', text, position });
+      position += text.length;
+    } else {
+      throw new ScreenExpressionError(`Unexpected character "${char}"`, position);
+    }
+  }
+  return tokens;
+}
+
+const isKeyword = (token: Token | undefined, keyword: string) =>
+  token?.type === 'word' && token.text.toUpperCase() === keyword;
+
+/**
+ * Parses a screen such as `gross_margin > 0.4 AND (sector = Technology OR NOT
+ * country = "United States")`. Keywords are case-insensitive, NOT binds
+ * tighter than AND, and AND tighter than OR. Text values may be quoted, or
+ * left bare when they run up to the next keyword or parenthesis.
+ */
+export function parseScreen(expression: string): ScreenNode {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const positionOf = (token: Token | undefined) => token?.position ?? expression.length;
+  const fail = (message: string, token = peek()): never => {
+    throw new ScreenExpressionError(message, positionOf(token));
+  };
+
+  const parseOr = (): ScreenNode => {
+    let node = parseAnd();
+    while (isKeyword(peek(), 'OR')) {
+      index += 1;
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): ScreenNode => {
+    let node = parseNot();
+    while (isKeyword(peek(), 'AND')) {
+      index += 1;
+      node = { type: 'and', left: node, right: parseNot() };
+    }
+    return node;
+  };
+
+  const parseNot = (): ScreenNode => {
+    if (isKeyword(peek(), 'NOT')) {
+      index += 1;
+      return { type: 'not', operand: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ScreenNode => {
+    const token = peek();
+    if (token?.type === 'lparen') {
+      index += 1;
+      const node = parseOr();
+      if (peek()?.type !== 'rparen') fail('Expected ")"');
+      index += 1;
+      return node;
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): ScreenNode => {
+    const fieldToken = peek();
+    if (fieldToken?.type !== 'word' || KEYWORDS.has(fieldToken.text.toUpperCase())) {
+      return fail('Expected a field name');
+    }
+    const field = getScreenerField(fieldToken.text) ?? fail(`Unknown field "${fieldToken.text}"`, fieldToken);
+    index += 1;
+
+    const operatorToken = peek();
+    if (operatorToken?.type !== 'operator') return fail('Expected a comparison operator');
+    const operator = operatorToken.text as ComparisonOperator;
+    index += 1;
+
+    const valueToken = peek();
+    if (field.type === 'number') {
+      if (valueToken?.type !== 'number') return fail(`Expected a number for ${field.key}`);
+      index += 1;
+      return { type: 'compare', field: field.key, operator, value: valueToken.value };
+    }
+
+    if (operator !== '=' && operator !== '!=') {
+      return fail(`${field.key} is text and only supports = and !=`, operatorToken);
+    }
+    if (valueToken?.type === 'string') {
+      index += 1;
+      return { type: 'compare', field: field.key, operator, value: valueToken.text };
+    }
+
+    // A bare value runs until the next keyword, parenthesis or operator: `sector = Consumer Cyclical`.
+    const words: string[] = [];
+    while (
+      (peek()?.type === 'word' || peek()?.type === 'number') &&
+      !isKeyword(peek(), 'AND') &&
+      !isKeyword(peek(), 'OR')
+    ) {
+      words.push(peek()!.text);
+      index += 1;
+    }
+    if (words.length === 0) return fail(`Expected a value for ${field.key}`);
+    return { type: 'compare', field: field.key, operator, value: words.join(' ') };
+  };
+
+  if (tokens.length === 0) fail('Screen is empty');
+  const node = parseOr();
+  if (index < tokens.length) fail(`Unexpected "${peek()!.text}"`);
+  return node;
+}
+
+function compare(actual: ScreenerValue, operator: ComparisonOperator, expected: string | number): boolean {
+  if (actual === null) return false;
+
+  if (typeof expected === 'string' || typeof actual === 'string') {
+    const equal = String(actual).toLowerCase() === String(expected).toLowerCase();
+    return operator === '=' ? equal : operator === '!=' ? !equal : false;
+  }
+
+  switch (operator) {
+    case '=':
+      return actual === expected;
+    case '!=':
+      return actual !== expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+  }
+}
+
+/** Fields a screen filters on, in the order they first appear. */
+export function screenFields(node: ScreenNode): string[] {
+  switch (node.type) {
+    case 'compare':
+      return [node.field];
+    case 'not':
+      return screenFields(node.operand);
+    default:
+      return Array.from(new Set([...screenFields(node.left), ...screenFields(node.right)]));
+  }
+}
+
+export function evaluateScreen(node: ScreenNode, values: Record<string, ScreenerValue>): boolean {
+  switch (node.type) {
+    case 'and':
+      return evaluateScreen(node.left, values) && evaluateScreen(node.right, values);
+    case 'or':
+      return evaluateScreen(node.left, values) || evaluateScreen(node.right, values);
+    case 'not':
+      // A missing value fails a comparison and its negation alike, so
+      // `NOT pe_ratio > 30` does not pull in companies without a P/E.
+      return node.operand.type === 'compare' && (values[node.operand.field] ?? null) === null
+        ? false
+        : !evaluateScreen(node.operand, values);
+    case 'compare':
+      return compare(values[node.field] ?? null, node.operator, node.value);
+  }
+}
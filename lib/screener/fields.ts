@@ -0,0 +1,91 @@
+import { DEFAULT_DISPLAY_FORMAT, type DisplayFormat } from '@/lib/format';
+import { formatMetric, METRIC_DEFINITIONS, type MetricDefinition } from '@/lib/metrics';
+import { RATIO_DEFINITIONS } from '@/lib/ratios';
+import type { CompanyInfo, FinancialData, Ratios } from '@/lib/schema';
+
+export type ScreenerValue = string | number | null;
+
+export type ScreenerField =
+  | { key: string; label: string; type: 'text'; source: 'company_info' }
+  | { key: string; label: string; type: 'number'; source: 'metrics' | 'ratios'; definition: MetricDefinition };
+
+const TEXT_FIELDS: { key: keyof CompanyInfo; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'sector', label: 'Sector' },
+  { key: 'industry', label: 'Industry' },
+  { key: 'country', label: 'Country' },
+  { key: 'exchange', label: 'Exchange' },
+  { key: 'reporting_currency', label: 'Reporting Currency' },
+  { key: 'trading_currency', label: 'Trading Currency' },
+];
+
+const metricKeys = new Set(METRIC_DEFINITIONS.map((definition) => definition.key));
+
+/**
+ * Everything a screen can filter or sort on. Where a provider metric and a
+ * statement ratio share a key (`gross_margin`, `debt_to_equity`, …) the
+ * provider metric wins, so values match the viewer's metrics cards.
+ */
+export const SCREENER_FIELDS: ScreenerField[] = [
+  ...TEXT_FIELDS.map(({ key, label }): ScreenerField => ({ key, label, type: 'text', source: 'company_info' })),
+  ...METRIC_DEFINITIONS.map(
+    (definition): ScreenerField => ({
+      key: definition.key,
+      label: definition.label,
+      type: 'number',
+      source: 'metrics',
+      definition,
+    })
+  ),
+  ...RATIO_DEFINITIONS.filter((definition) => !metricKeys.has(definition.key)).map(
+    (definition): ScreenerField => ({
+      key: definition.key,
+      label: definition.label,
+      type: 'number',
+      source: 'ratios',
+      definition,
+    })
+  ),
+];
+
+const fieldsByKey = new Map(SCREENER_FIELDS.map((field) => [field.key, field]));
+
+export const getScreenerField = (key: string): ScreenerField | undefined => fieldsByKey.get(key.toLowerCase());
+
+/**
+ * Flattens one company into screenable values, using its latest fiscal-year
+ * ratios. Values keep the units the API reports them in, which screens are
+ * written in: Yahoo quotes debt / equity as a percentage, so
+ * `debt_to_equity < 50` means below 0.5x.
+ */
+export function buildScreenerValues(data: FinancialData, ratios: Ratios): Record<string, ScreenerValue> {
+  const latestAnnual = Object.keys(ratios.annual).sort().at(-1);
+  const values: Record<string, ScreenerValue> = {
+    ...(latestAnnual ? ratios.annual[latestAnnual] : {}),
+    ...Object.assign({}, ...Object.values(data.metrics)),
+  };
+  for (const { key } of TEXT_FIELDS) {
+    values[key] = data.company_info[key] ?? null;
+  }
+  return values;
+}
+
+/**
+ * Formats one value from a snapshot, labelling amounts with the currency
+ * they are in: metrics are quoted in the trading currency, ratios come from
+ * the statements. The metric's display scale is applied here.
+ */
+export function formatScreenerValue(
+  field: ScreenerField,
+  values: Record<string, ScreenerValue>,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): string {
+  const value = values[field.key] ?? null;
+  if (field.type === 'text' || typeof value === 'string') return value === null ? 'N/A' : String(value);
+
+  const currency = field.source === 'metrics' ? values.trading_currency : values.reporting_currency;
+  return formatMetric(field.definition, value, {
+    ...format,
+    currency: typeof currency === 'string' ? currency : format.currency,
+  });
+}
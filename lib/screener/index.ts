@@ -0,0 +1,123 @@
+import { randomUUID } from 'crypto';
+import { ScreenExpressionError, ScreenNotFoundError } from '@/lib/errors';
+import { computeRatios } from '@/lib/ratios';
+import type { FinancialData, ScreenInput } from '@/lib/schema';
+import { processSingleton } from '@/lib/singleton';
+import { evaluateScreen, parseScreen, screenFields } from './expression';
+import { buildScreenerValues, getScreenerField, type ScreenerValue } from './fields';
+import {
+  createFileScreenerStore,
+  createMemoryScreenerStore,
+  type SavedScreen,
+  type ScreenerSnapshot,
+  type ScreenerStore,
+} from './store';
+
+export type { SavedScreen, ScreenerSnapshot, ScreenerStore } from './store';
+export { createFileScreenerStore, createMemoryScreenerStore } from './store';
+
+export const DEFAULT_SCREEN_PAGE_SIZE = 25;
+export const MAX_SCREEN_PAGE_SIZE = 100;
+
+// Always shown next to the fields a screen filters on.
+const BASE_COLUMNS = ['name', 'sector', 'market_cap'];
+
+// Kept on every row so amounts can be labelled with their currency.
+const CURRENCY_FIELDS = ['trading_currency', 'reporting_currency'];
+
+const getStore = (): ScreenerStore =>
+  processSingleton('screener', () => {
+    const directory = process.env.SCREENER_STORE_DIR;
+    return directory ? createFileScreenerStore(directory) : createMemoryScreenerStore();
+  });
+
+/** Adds or refreshes a ticker in the screener universe after a successful fetch. */
+export async function recordScreenerSnapshot(data: FinancialData): Promise<void> {
+  await getStore().putSnapshot({
+    symbol: data.symbol,
+    updated_at: new Date().toISOString(),
+    values: buildScreenerValues(data, data.ratios ?? computeRatios(data.financial_statements)),
+  });
+}
+
+export interface ScreenQuery {
+  expression: string;
+  /** A field key, or `symbol`. */
+  sort: string;
+  descending: boolean;
+  /** One-based. */
+  page: number;
+  pageSize: number;
+}
+
+export interface ScreenResult {
+  total: number;
+  /** Tickers the screen ran against. */
+  universe_size: number;
+  page: number;
+  page_size: number;
+  columns: string[];
+  rows: ScreenerSnapshot[];
+}
+
+const compareValues = (left: ScreenerValue, right: ScreenerValue) => {
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  return String(left).localeCompare(String(right));
+};
+
+/**
+ * Filters the stored universe with `query.expression`, then sorts and pages
+ * the matches. Rows carry only the values in `columns`, plus both currencies.
+ */
+export async function runScreen(query: ScreenQuery): Promise<ScreenResult> {
+  const node = parseScreen(query.expression);
+  if (query.sort !== 'symbol' && !getScreenerField(query.sort)) {
+    throw new ScreenExpressionError(`Cannot sort by unknown field "${query.sort}"`, 0);
+  }
+
+  const universe = await getStore().listSnapshots();
+  const direction = query.descending ? -1 : 1;
+  const sortValue = (snapshot: ScreenerSnapshot): ScreenerValue =>
+    query.sort === 'symbol' ? snapshot.symbol : snapshot.values[query.sort] ?? null;
+
+  const matches = universe
+    .filter((snapshot) => evaluateScreen(node, snapshot.values))
+    .sort((a, b) => {
+      const left = sortValue(a);
+      const right = sortValue(b);
+      // Missing values sort last in either direction.
+      if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+      return compareValues(left, right) * direction;
+    });
+
+  const columns = Array.from(new Set([...BASE_COLUMNS, ...screenFields(node)]));
+  const kept = [...columns, ...CURRENCY_FIELDS];
+  const start = (query.page - 1) * query.pageSize;
+
+  return {
+    total: matches.length,
+    universe_size: universe.length,
+    page: query.page,
+    page_size: query.pageSize,
+    columns,
+    rows: matches.slice(start, start + query.pageSize).map((snapshot) => ({
+      ...snapshot,
+      values: Object.fromEntries(kept.map((key) => [key, snapshot.values[key] ?? null])),
+    })),
+  };
+}
+
+export const listScreens = () => getStore().listScreens();
+
+export async function saveScreen(input: ScreenInput): Promise<SavedScreen> {
+  // Reject screens that could never run.
+  parseScreen(input.expression);
+
+  const screen: SavedScreen = { id: randomUUID(), ...input, created_at: new Date().toISOString() };
+  await getStore().saveScreen(screen);
+  return screen;
+}
+
+export async function deleteScreen(id: string): Promise<void> {
+  if (!(await getStore().deleteScreen(id))) throw new ScreenNotFoundError(id);
+}
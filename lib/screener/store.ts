@@ -0,0 +1,109 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { writeJsonAtomic } from '@/lib/json-file';
+import type { ScreenerValue } from './fields';
+
+/** What the screener knows about one ticker as of its last fetch. */
+export interface ScreenerSnapshot {
+  symbol: string;
+  updated_at: string;
+  values: Record<string, ScreenerValue>;
+}
+
+export interface SavedScreen {
+  id: string;
+  name: string;
+  expression: string;
+  created_at: string;
+}
+
+export interface ScreenerStore {
+  listSnapshots(): Promise<ScreenerSnapshot[]>;
+  /** Inserts the snapshot, or replaces the one for the same symbol. */
+  putSnapshot(snapshot: ScreenerSnapshot): Promise<void>;
+  listScreens(): Promise<SavedScreen[]>;
+  saveScreen(screen: SavedScreen): Promise<void>;
+  /** Resolves to false when there was nothing to delete. */
+  deleteScreen(id: string): Promise<boolean>;
+}
+
+export function createMemoryScreenerStore(): ScreenerStore {
+  const snapshots = new Map<string, ScreenerSnapshot>();
+  let screens: SavedScreen[] = [];
+
+  return {
+    listSnapshots: async () => Array.from(snapshots.values()),
+    putSnapshot: async (snapshot) => {
+      snapshots.set(snapshot.symbol, snapshot);
+    },
+    listScreens: async () => screens,
+    saveScreen: async (screen) => {
+      screens = [...screens, screen];
+    },
+    deleteScreen: async (id) => {
+      const remaining = screens.filter((screen) => screen.id !== id);
+      const deleted = remaining.length !== screens.length;
+      screens = remaining;
+      return deleted;
+    },
+  };
+}
+
+/**
+ * Keeps the universe in `universe.json` and saved screens in `screens.json`.
+ * The universe is read once and then served from memory, since every fetch
+ * through the cache writes to it.
+ */
+export function createFileScreenerStore(directory: string): ScreenerStore {
+  const universePath = path.join(directory, 'universe.json');
+  const screensPath = path.join(directory, 'screens.json');
+  let universe: Promise<Map<string, ScreenerSnapshot>> | undefined;
+  // Batched fetches record several snapshots at once, and saved screens are
+  // read and rewritten whole; no two writes may overlap.
+  let writing: Promise<unknown> = Promise.resolve();
+
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const next = writing.then(task);
+    writing = next.catch(() => undefined);
+    return next;
+  };
+
+  const read = async <T>(filePath: string): Promise<T[]> => {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8'));
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (filePath: string, value: unknown) => writeJsonAtomic(filePath, value, 2);
+
+  const loadUniverse = () => {
+    universe ??= read<ScreenerSnapshot>(universePath).then(
+      (snapshots) => new Map(snapshots.map((snapshot) => [snapshot.symbol, snapshot]))
+    );
+    return universe;
+  };
+
+  return {
+    listSnapshots: async () => Array.from((await loadUniverse()).values()),
+    async putSnapshot(snapshot) {
+      const snapshots = await loadUniverse();
+      snapshots.set(snapshot.symbol, snapshot);
+      await serialize(() => write(universePath, Array.from(snapshots.values())));
+    },
+    listScreens: () => read<SavedScreen>(screensPath),
+    saveScreen: (screen) =>
+      serialize(async () => {
+        await write(screensPath, [...(await read<SavedScreen>(screensPath)), screen]);
+      }),
+    deleteScreen: (id) =>
+      serialize(async () => {
+        const current = await read<SavedScreen>(screensPath);
+        const remaining = current.filter((screen) => screen.id !== id);
+        if (remaining.length === current.length) return false;
+        await write(screensPath, remaining);
+        return true;
+      }),
+  };
+}
@@ -0,0 +1,41 @@
+import type { SearchMatch } from '@/lib/schema';
+
+export const MAX_SEARCH_RESULTS = 10;
+export const MAX_SEARCH_QUERY_LENGTH = 64;
+
+/** A listing a local search can match against. */
+export interface SearchEntry extends SearchMatch {
+  isin?: string | null;
+}
+
+function scoreEntry(entry: SearchEntry, query: string): number {
+  const upper = query.toUpperCase();
+  const symbol = entry.symbol.toUpperCase();
+  const name = entry.name?.toUpperCase() ?? '';
+
+  if (symbol === upper) return 100;
+  if (entry.isin && entry.isin.toUpperCase() === upper) return 95;
+  if (symbol.startsWith(upper)) return 80 - (symbol.length - upper.length);
+  if (name.startsWith(upper)) return 65;
+  if (name.split(/[\s.,&-]+/).some((word) => word.startsWith(upper))) return 60;
+  if (name.includes(upper)) return 40;
+  if (symbol.includes(upper)) return 30;
+  return 0;
+}
+
+/**
+ * Ranks `entries` against `query` the way a ticker box is used: an exact
+ * symbol or ISIN first, then symbol prefixes (shorter first), then company
+ * names starting with the query, then names with a word starting with it.
+ */
+export function rankSearchEntries(entries: SearchEntry[], query: string): SearchMatch[] {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  return entries
+    .map((entry) => ({ entry, score: scoreEntry(entry, trimmed) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.entry.symbol.localeCompare(b.entry.symbol))
+    .slice(0, MAX_SEARCH_RESULTS)
+    .map(({ entry: { symbol, name, exchange, type } }) => ({ symbol, name, exchange, type }));
+}
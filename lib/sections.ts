@@ -0,0 +1,101 @@
+import {
+  DATA_SECTIONS,
+  isStatementType,
+  PERIODICITIES,
+  type DataSection,
+  type FinancialData,
+  type SectionStatus,
+  type SectionStatuses,
+} from '@/lib/schema';
+
+export const SECTION_LABELS: Record<DataSection, string> = {
+  company_info: 'Company profile',
+  income_statement: 'Income statement',
+  balance_sheet: 'Balance sheet',
+  cash_flow: 'Cash flow',
+  metrics: 'Metrics',
+};
+
+const OK: SectionStatus = { status: 'ok', message: null };
+
+/** Whether a section has data worth showing, even if it is incomplete or old. */
+export const hasSectionData = (status: SectionStatus) => status.status !== 'empty' && status.status !== 'error';
+
+function resolveSection(data: FinancialData, section: DataSection): SectionStatus {
+  const reported = data.sections?.[section];
+  if (reported && reported.status !== 'ok') return reported;
+
+  if (section === 'company_info') {
+    const { name: _name, ...profile } = data.company_info;
+    return Object.values(profile).some((value) => value !== null && value !== undefined)
+      ? OK
+      : { status: 'empty', message: 'No company profile was returned' };
+  }
+
+  if (section === 'metrics') {
+    const values = Object.values(data.metrics).flatMap((group) => Object.values(group));
+    return values.some((value) => value !== null) ? OK : { status: 'empty', message: 'No metrics were returned' };
+  }
+
+  const missing = PERIODICITIES.filter(
+    (periodicity) => Object.keys(data.financial_statements[periodicity][section]).length === 0
+  );
+  if (missing.length === PERIODICITIES.length) {
+    return { status: 'empty', message: 'No periods were returned' };
+  }
+  return missing.length > 0 ? { status: 'partial', message: `No ${missing[0]} periods were returned` } : OK;
+}
+
+/**
+ * Resolves the status of every section, keeping failures the provider
+ * reported and flagging sections that came back empty, plus one warning line
+ * per section that is not `ok`.
+ */
+export function resolveSections(data: FinancialData): {
+  sections: Required<SectionStatuses>;
+  warnings: string[];
+} {
+  const sections = Object.fromEntries(
+    DATA_SECTIONS.map((section) => [section, resolveSection(data, section)])
+  ) as Required<SectionStatuses>;
+
+  const warnings = DATA_SECTIONS.flatMap((section) => {
+    const { message } = sections[section];
+    return message ? [`${SECTION_LABELS[section]}: ${message}`] : [];
+  });
+  return { sections, warnings };
+}
+
+function copySection(from: FinancialData, to: FinancialData, section: DataSection): FinancialData {
+  if (section === 'company_info') return { ...to, company_info: from.company_info };
+  if (section === 'metrics') return { ...to, metrics: from.metrics };
+  if (!isStatementType(section)) return to;
+
+  const statements = { ...to.financial_statements };
+  for (const periodicity of PERIODICITIES) {
+    statements[periodicity] = { ...statements[periodicity], [section]: from.financial_statements[periodicity][section] };
+  }
+  return { ...to, financial_statements: statements };
+}
+
+/**
+ * Keeps sections from `previous` that `next` failed to fetch, marking them
+ * `stale`, so one failing upstream call does not wipe data that was already
+ * cached.
+ */
+export function mergeSections(previous: FinancialData, next: FinancialData): FinancialData {
+  let merged = next;
+  const sections: SectionStatuses = { ...next.sections };
+
+  for (const section of DATA_SECTIONS) {
+    const current = resolveSection(next, section);
+    if (hasSectionData(current) || !hasSectionData(resolveSection(previous, section))) continue;
+
+    merged = copySection(previous, merged, section);
+    sections[section] = {
+      status: 'stale',
+      message: `${current.message ?? 'Could not be refreshed'}; showing previously fetched data`,
+    };
+  }
+  return { ...merged, sections };
+}
@@ -0,0 +1,14 @@
+/**
+ * Returns the value registered under `key`, creating it on first use. Next.js
+ * bundles each route separately, so plain module-level state is not shared
+ * between routes; stores that several routes read and write live on
+ * `globalThis` instead.
+ */
+export function processSingleton<T>(key: string, create: () => T): T {
+  const registry = globalThis as typeof globalThis & Record<symbol, unknown>;
+  const slot = Symbol.for(`financial-viewer:${key}`);
+  if (!(slot in registry)) {
+    registry[slot] = create();
+  }
+  return registry[slot] as T;
+}
@@ -0,0 +1,143 @@
+import type { StatementType } from '@/lib/schema';
+
+export interface LineItemGroup {
+  id: string;
+  label: string;
+  /** Line item whose value summarises the group when it is collapsed. */
+  total: string;
+  items: string[];
+}
+
+/**
+ * Collapsible groupings for the statement table, keyed by the yfinance
+ * line-item names. Items not listed here are shown under "Other".
+ */
+export const STATEMENT_GROUPS: Record<StatementType, LineItemGroup[]> = {
+  income_statement: [
+    {
+      id: 'revenue',
+      label: 'Revenue',
+      total: 'Total Revenue',
+      items: ['Operating Revenue'],
+    },
+    {
+      id: 'gross_profit',
+      label: 'Gross Profit',
+      total: 'Gross Profit',
+      items: ['Cost Of Revenue'],
+    },
+    {
+      id: 'operating_income',
+      label: 'Operating Income',
+      total: 'Operating Income',
+      items: [
+        'Operating Expense',
+        'Research And Development',
+        'Selling General And Administration',
+        'Selling And Marketing Expense',
+        'General And Administrative Expense',
+        'Other Operating Expenses',
+        'Reconciled Depreciation',
+        'EBITDA',
+        'EBIT',
+      ],
+    },
+    {
+      id: 'net_income',
+      label: 'Net Income',
+      total: 'Net Income',
+      items: [
+        'Interest Expense',
+        'Interest Income',
+        'Net Interest Income',
+        'Other Income Expense',
+        'Pretax Income',
+        'Tax Provision',
+        'Net Income Common Stockholders',
+        'Net Income Continuous Operations',
+      ],
+    },
+  ],
+  balance_sheet: [
+    {
+      id: 'assets',
+      label: 'Assets',
+      total: 'Total Assets',
+      items: [
+        'Current Assets',
+        'Cash And Cash Equivalents',
+        'Cash Cash Equivalents And Short Term Investments',
+        'Accounts Receivable',
+        'Receivables',
+        'Inventory',
+        'Total Non Current Assets',
+        'Net PPE',
+        'Goodwill And Other Intangible Assets',
+        'Investments And Advances',
+      ],
+    },
+    {
+      id: 'liabilities',
+      label: 'Liabilities',
+      total: 'Total Liabilities Net Minority Interest',
+      items: [
+        'Current Liabilities',
+        'Accounts Payable',
+        'Current Debt',
+        'Long Term Debt',
+        'Total Debt',
+        'Total Non Current Liabilities Net Minority Interest',
+      ],
+    },
+    {
+      id: 'equity',
+      label: 'Equity',
+      total: 'Stockholders Equity',
+      items: [
+        'Common Stock Equity',
+        'Common Stock',
+        'Retained Earnings',
+        'Total Equity Gross Minority Interest',
+      ],
+    },
+  ],
+  cash_flow: [
+    {
+      id: 'operating',
+      label: 'Operating Activities',
+      total: 'Operating Cash Flow',
+      items: [
+        'Net Income From Continuing Operations',
+        'Depreciation And Amortization',
+        'Stock Based Compensation',
+        'Deferred Income Tax',
+        'Change In Working Capital',
+      ],
+    },
+    {
+      id: 'investing',
+      label: 'Investing Activities',
+      total: 'Investing Cash Flow',
+      items: [
+        'Capital Expenditure',
+        'Purchase Of Investment',
+        'Sale Of Investment',
+        'Net Business Purchase And Sale',
+      ],
+    },
+    {
+      id: 'financing',
+      label: 'Financing Activities',
+      total: 'Financing Cash Flow',
+      items: [
+        'Cash Dividends Paid',
+        'Repurchase Of Capital Stock',
+        'Common Stock Issuance',
+        'Issuance Of Debt',
+        'Repayment Of Debt',
+      ],
+    },
+  ],
+};
+
+export const OTHER_GROUP_ID = 'other';
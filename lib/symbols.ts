@@ -0,0 +1,20 @@
+import { InvalidSymbolError } from '@/lib/errors';
+
+/**
+ * A root of up to ten letters or digits (optionally prefixed with `^` for
+ * indices), followed by up to two exchange or class suffixes such as `.L`,
+ * `-USD`, `.B` or `=X`.
+ */
+const SYMBOL_PATTERN = /^\^?[A-Z0-9]{1,10}(?:[.\-=][A-Z0-9]{1,6}){0,2}$/;
+
+export const isValidSymbol = (symbol: string): boolean =>
+  SYMBOL_PATTERN.test(symbol.trim().toUpperCase());
+
+/** Trims and uppercases `raw`, throwing InvalidSymbolError if it is not a ticker. */
+export function normalizeSymbol(raw: string): string {
+  const symbol = raw.trim().toUpperCase();
+  if (!SYMBOL_PATTERN.test(symbol)) {
+    throw new InvalidSymbolError(raw);
+  }
+  return symbol;
+}
@@ -0,0 +1,123 @@
+import type { FinancialStatements, Periodicity, PriceBar, StatementCollection } from '@/lib/schema';
+
+export interface ValuationPoint {
+  date: string;
+  close: number;
+  market_cap: number | null;
+  pe: number | null;
+  ps: number | null;
+  ev_ebitda: number | null;
+}
+
+/** Trailing fundamentals as of one period end. */
+interface Fundamentals {
+  period_end: string;
+  revenue: number | null;
+  net_income: number | null;
+  ebitda: number | null;
+  shares: number | null;
+  debt: number | null;
+  cash: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Four consecutive quarters span roughly 273 days between the first and last period end.
+const MAX_TTM_SPAN_DAYS = 300;
+
+type Value = number | null;
+
+const sum = (values: Value[]): Value =>
+  values.every((value) => value !== null) ? (values as number[]).reduce((a, b) => a + b, 0) : null;
+
+const divide = (numerator: Value, denominator: Value): Value =>
+  numerator === null || denominator === null || denominator <= 0 ? null : numerator / denominator;
+
+const read = (collection: StatementCollection, date: string, item: string): Value =>
+  collection[date]?.[item] ?? null;
+
+const balanceAt = (statements: FinancialStatements, date: string) => ({
+  debt: read(statements.balance_sheet, date, 'Total Debt'),
+  cash: read(statements.balance_sheet, date, 'Cash And Cash Equivalents'),
+});
+
+function annualFundamentals(annual: FinancialStatements): Fundamentals[] {
+  return Object.keys(annual.income_statement).map((date) => ({
+    period_end: date,
+    revenue: read(annual.income_statement, date, 'Total Revenue'),
+    net_income: read(annual.income_statement, date, 'Net Income'),
+    ebitda: read(annual.income_statement, date, 'EBITDA'),
+    shares: read(annual.income_statement, date, 'Diluted Average Shares'),
+    ...balanceAt(annual, date),
+  }));
+}
+
+function trailingQuarterFundamentals(quarterly: FinancialStatements): Fundamentals[] {
+  const income = quarterly.income_statement;
+  const dates = Object.keys(income).sort();
+
+  return dates.slice(3).flatMap((date, index) => {
+    const window = dates.slice(index, index + 4);
+    if ((new Date(date).getTime() - new Date(window[0]).getTime()) / DAY_MS > MAX_TTM_SPAN_DAYS) return [];
+
+    const trailing = (item: string) => sum(window.map((quarter) => read(income, quarter, item)));
+    return [{
+      period_end: date,
+      revenue: trailing('Total Revenue'),
+      net_income: trailing('Net Income'),
+      ebitda: trailing('EBITDA'),
+      shares: read(income, date, 'Diluted Average Shares'),
+      ...balanceAt(quarterly, date),
+    }];
+  });
+}
+
+/**
+ * P/E, P/S and EV/EBITDA at every price bar, using the trailing fundamentals
+ * of the latest period ended on or before that bar. Trailing-four-quarter
+ * figures are preferred; fiscal years fill in where quarterly history is too
+ * short. Periods are matched by their end date, not the later filing date.
+ *
+ * Prices and statements must be in the same currency.
+ */
+export function computeValuationSeries(
+  bars: PriceBar[],
+  financialStatements: Record<Periodicity, FinancialStatements>
+): ValuationPoint[] {
+  const byDate = new Map<string, Fundamentals>();
+  for (const fundamentals of annualFundamentals(financialStatements.annual)) {
+    byDate.set(fundamentals.period_end, fundamentals);
+  }
+  for (const fundamentals of trailingQuarterFundamentals(financialStatements.quarterly)) {
+    byDate.set(fundamentals.period_end, fundamentals);
+  }
+  const snapshots = Array.from(byDate.values()).sort((a, b) => a.period_end.localeCompare(b.period_end));
+
+  const points: ValuationPoint[] = [];
+  let current: Fundamentals | undefined;
+  let next = 0;
+
+  for (const bar of bars) {
+    while (next < snapshots.length && snapshots[next].period_end <= bar.date) {
+      current = snapshots[next];
+      next += 1;
+    }
+    if (!current || bar.close === null) continue;
+
+    const marketCap = current.shares === null ? null : bar.close * current.shares;
+    const enterpriseValue =
+      marketCap === null || current.debt === null || current.cash === null
+        ? null
+        : marketCap + current.debt - current.cash;
+
+    points.push({
+      date: bar.date,
+      close: bar.close,
+      market_cap: marketCap,
+      pe: divide(marketCap, current.net_income),
+      ps: divide(marketCap, current.revenue),
+      ev_ebitda: divide(enterpriseValue, current.ebitda),
+    });
+  }
+  return points;
+}
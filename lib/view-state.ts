@@ -0,0 +1,63 @@
+import { isPeriodicity, isStatementType, type Periodicity, type StatementType } from '@/lib/schema';
+
+export const VIEWS = ['statements', 'ratios', 'charts', 'price', 'dcf', 'history'] as const;
+export type View = (typeof VIEWS)[number];
+
+export const isView = (value: string): value is View => (VIEWS as readonly string[]).includes(value);
+
+/** Everything on a company page that a link should reproduce. */
+export interface ViewState {
+  periodicity: Periodicity;
+  view: View;
+  statement: StatementType;
+  /** Saved DCF assumption set open on the DCF tab. */
+  dcf: string | null;
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  periodicity: 'quarterly',
+  view: 'statements',
+  statement: 'income_statement',
+  dcf: null,
+};
+
+type SearchParamsLike = URLSearchParams | Record<string, string | string[] | undefined>;
+
+const readParam = (params: SearchParamsLike, key: string): string | null => {
+  if (params instanceof URLSearchParams) return params.get(key);
+  const value = params[key];
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+};
+
+/** Reads `?period=&view=&statement=&dcf=`, ignoring values it does not recognise. */
+export function parseViewState(params: SearchParamsLike): ViewState {
+  const period = readParam(params, 'period');
+  const view = readParam(params, 'view');
+  const statement = readParam(params, 'statement');
+  const dcf = readParam(params, 'dcf');
+
+  return {
+    periodicity: period && isPeriodicity(period) ? period : DEFAULT_VIEW_STATE.periodicity,
+    // A shared DCF set implies the DCF tab.
+    view: view && isView(view) ? view : dcf ? 'dcf' : DEFAULT_VIEW_STATE.view,
+    statement: statement && isStatementType(statement) ? statement : DEFAULT_VIEW_STATE.statement,
+    dcf: dcf || null,
+  };
+}
+
+/** Query string for `state`, leaving out defaults so links stay short. */
+export function viewStateQuery(state: Partial<ViewState>): string {
+  const params = new URLSearchParams();
+  if (state.periodicity && state.periodicity !== DEFAULT_VIEW_STATE.periodicity) {
+    params.set('period', state.periodicity);
+  }
+  if (state.view && state.view !== DEFAULT_VIEW_STATE.view) params.set('view', state.view);
+  if (state.statement && state.statement !== DEFAULT_VIEW_STATE.statement) params.set('statement', state.statement);
+  if (state.dcf) params.set('dcf', state.dcf);
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+export const companyPath = (symbol: string, state: Partial<ViewState> = {}) =>
+  `/company/${encodeURIComponent(symbol.toUpperCase())}${viewStateQuery(state)}`;
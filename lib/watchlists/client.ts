@@ -0,0 +1,92 @@
+import { validateWatchlistInput, type WatchlistInput } from '@/lib/schema';
+import type { Watchlist } from './store';
+
+/** Browser-side access to watchlists, wherever they are kept. */
+export interface WatchlistClient {
+  readonly storage: 'server' | 'browser';
+  list(): Promise<Watchlist[]>;
+  create(input: WatchlistInput): Promise<Watchlist>;
+  update(id: string, input: WatchlistInput): Promise<Watchlist>;
+  delete(id: string): Promise<void>;
+}
+
+const LOCAL_STORAGE_KEY = 'financial-viewer:watchlists';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  if (response.status === 204) return undefined as T;
+
+  const body = await response.json();
+  if (!response.ok) throw new Error(body.error || 'Watchlist request failed');
+  return body as T;
+}
+
+export function createServerWatchlistClient(): WatchlistClient {
+  return {
+    storage: 'server',
+    list: async () => (await request<{ watchlists: Watchlist[] }>('/api/watchlists')).watchlists,
+    create: (input) => request('/api/watchlists', { method: 'POST', body: JSON.stringify(input) }),
+    update: (id, input) =>
+      request(`/api/watchlists/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(input) }),
+    delete: (id) => request(`/api/watchlists/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+  };
+}
+
+/** Normalizes input the same way the API does, so both stores hold identical lists. */
+const parseInput = (input: WatchlistInput): WatchlistInput => {
+  const validation = validateWatchlistInput(input);
+  if (!validation.success) {
+    throw new Error(validation.issues.map((issue) => `${issue.path}: ${issue.message}`).join('; '));
+  }
+  return validation.data;
+};
+
+/** Keeps watchlists in localStorage. */
+export function createLocalWatchlistClient(storage: Storage = window.localStorage): WatchlistClient {
+  const read = (): Watchlist[] => {
+    try {
+      return JSON.parse(storage.getItem(LOCAL_STORAGE_KEY) ?? '[]');
+    } catch {
+      return [];
+    }
+  };
+  const write = (watchlists: Watchlist[]) => storage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(watchlists));
+
+  return {
+    storage: 'browser',
+    list: async () => read(),
+    async create(input) {
+      const now = new Date().toISOString();
+      const watchlist: Watchlist = { id: crypto.randomUUID(), ...parseInput(input), created_at: now, updated_at: now };
+      write([...read(), watchlist]);
+      return watchlist;
+    },
+    async update(id, input) {
+      const current = read().find((watchlist) => watchlist.id === id);
+      if (!current) throw new Error(`No watchlist "${id}"`);
+      const updated: Watchlist = { ...current, ...parseInput(input), updated_at: new Date().toISOString() };
+      write(read().map((watchlist) => (watchlist.id === id ? updated : watchlist)));
+      return updated;
+    },
+    async delete(id) {
+      write(read().filter((watchlist) => watchlist.id !== id));
+    },
+  };
+}
+
+/**
+ * Uses the server store when it persists across restarts, and localStorage
+ * when it does not or the API cannot be reached.
+ */
+export async function connectWatchlistClient(): Promise<WatchlistClient> {
+  try {
+    const { persistent } = await request<{ persistent: boolean }>('/api/watchlists');
+    if (persistent) return createServerWatchlistClient();
+  } catch {
+    // Fall through to the browser copy.
+  }
+  return createLocalWatchlistClient();
+}
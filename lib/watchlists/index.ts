@@ -0,0 +1,47 @@
+import { randomUUID } from 'crypto';
+import { WatchlistNotFoundError } from '@/lib/errors';
+import type { WatchlistInput } from '@/lib/schema';
+import { processSingleton } from '@/lib/singleton';
+import {
+  createFileWatchlistStore,
+  createMemoryWatchlistStore,
+  type Watchlist,
+  type WatchlistStore,
+} from './store';
+
+export type { Watchlist, WatchlistStore } from './store';
+export { createFileWatchlistStore, createMemoryWatchlistStore } from './store';
+
+/** Whether watchlists survive a restart; the browser keeps its own copy when they do not. */
+export const isWatchlistStorePersistent = () => Boolean(process.env.WATCHLIST_STORE_DIR);
+
+const getStore = (): WatchlistStore =>
+  processSingleton('watchlists', () => {
+    const directory = process.env.WATCHLIST_STORE_DIR;
+    return directory ? createFileWatchlistStore(directory) : createMemoryWatchlistStore();
+  });
+
+export const listWatchlists = () => getStore().list();
+
+export async function getWatchlist(id: string): Promise<Watchlist> {
+  const watchlist = (await getStore().list()).find((entry) => entry.id === id);
+  if (!watchlist) throw new WatchlistNotFoundError(id);
+  return watchlist;
+}
+
+export async function createWatchlist(input: WatchlistInput): Promise<Watchlist> {
+  const now = new Date().toISOString();
+  const watchlist: Watchlist = { id: randomUUID(), ...input, created_at: now, updated_at: now };
+  await getStore().save(watchlist);
+  return watchlist;
+}
+
+export async function updateWatchlist(id: string, input: WatchlistInput): Promise<Watchlist> {
+  const watchlist: Watchlist = { ...(await getWatchlist(id)), ...input, updated_at: new Date().toISOString() };
+  await getStore().save(watchlist);
+  return watchlist;
+}
+
+export async function deleteWatchlist(id: string): Promise<void> {
+  if (!(await getStore().delete(id))) throw new WatchlistNotFoundError(id);
+}
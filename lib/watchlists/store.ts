@@ -0,0 +1,84 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { writeJsonAtomic } from '@/lib/json-file';
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  symbols: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Where watchlists live on the server. Implementations only need to keep
+ * whole watchlists by id, so a SQLite or key-value backend fits the same shape.
+ */
+export interface WatchlistStore {
+  list(): Promise<Watchlist[]>;
+  /** Inserts the watchlist, or replaces the one with the same id. */
+  save(watchlist: Watchlist): Promise<void>;
+  /** Resolves to false when there was nothing to delete. */
+  delete(id: string): Promise<boolean>;
+}
+
+const upsert = (watchlists: Watchlist[], watchlist: Watchlist) =>
+  watchlists.some((entry) => entry.id === watchlist.id)
+    ? watchlists.map((entry) => (entry.id === watchlist.id ? watchlist : entry))
+    : [...watchlists, watchlist];
+
+export function createMemoryWatchlistStore(): WatchlistStore {
+  let watchlists: Watchlist[] = [];
+
+  return {
+    list: async () => watchlists,
+    save: async (watchlist) => {
+      watchlists = upsert(watchlists, watchlist);
+    },
+    delete: async (id) => {
+      const remaining = watchlists.filter((watchlist) => watchlist.id !== id);
+      const deleted = remaining.length !== watchlists.length;
+      watchlists = remaining;
+      return deleted;
+    },
+  };
+}
+
+/** Every watchlist in one JSON file, rewritten on each change. */
+export function createFileWatchlistStore(directory: string): WatchlistStore {
+  const filePath = path.join(directory, 'watchlists.json');
+  // Each change reads the whole file and writes it back, so changes must not interleave.
+  let writing: Promise<unknown> = Promise.resolve();
+
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const next = writing.then(task);
+    writing = next.catch(() => undefined);
+    return next;
+  };
+
+  const read = async (): Promise<Watchlist[]> => {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8'));
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (watchlists: Watchlist[]) => writeJsonAtomic(filePath, watchlists, 2);
+
+  return {
+    list: read,
+    save: (watchlist) =>
+      serialize(async () => {
+        await write(upsert(await read(), watchlist));
+      }),
+    delete: (id) =>
+      serialize(async () => {
+        const current = await read();
+        const remaining = current.filter((watchlist) => watchlist.id !== id);
+        if (remaining.length === current.length) return false;
+        await write(remaining);
+        return true;
+      }),
+  };
+}
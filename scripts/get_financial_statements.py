@@ -5,7 +5,7 @@ import json
 import sys
 from time import sleep
 from datetime import datetime
-from typing import Dict, Any
+from typing import Dict, Any, List
 
 def safe_float(value) -> float | None:
     try:
@@ -13,104 +13,145 @@ def safe_float(value) -> float | None:
     except:
         return None
 
-def process_financial_statement(df: pd.DataFrame) -> Dict[str, Dict[str, Any]]:
+def is_missing(value) -> bool:
+    try:
+        return bool(pd.isna(value))
+    except (TypeError, ValueError):
+        return False
+
+def process_financial_statement(
+    df: pd.DataFrame, unparsed: List[Dict[str, Any]], periodicity: str, statement: str
+) -> Dict[str, Dict[str, Any]]:
     if df.empty:
         return {}
-    
+
+    result: Dict[str, Dict[str, Any]] = {}
+    for k, values in df.to_dict().items():
+        date = k.strftime('%Y-%m-%d')
+        result[date] = {}
+        for metric, v in values.items():
+            result[date][metric] = safe_float(v)
+            # Report values that were present but unreadable, so they are not mistaken for gaps.
+            if result[date][metric] is None and not is_missing(v):
+                unparsed.append({
+                    "periodicity": periodicity,
+                    "statement": statement,
+                    "date": date,
+                    "line_item": metric,
+                    "raw": str(v),
+                })
+    return result
+
+def fiscal_year_end(timestamp) -> str | None:
+    try:
+        return datetime.utcfromtimestamp(timestamp).strftime('%m-%d') if timestamp else None
+    except (TypeError, ValueError, OSError):
+        return None
+
+# (statement, quarterly attribute, annual attribute) on yf.Ticker
+STATEMENTS = [
+    ('income_statement', 'quarterly_financials', 'financials'),
+    ('balance_sheet', 'quarterly_balance_sheet', 'balance_sheet'),
+    ('cash_flow', 'quarterly_cashflow', 'cashflow'),
+]
+
+def fetch_with_retries(ticker: yf.Ticker, attribute: str, max_retries: int = 3, retry_delay: float = 1):
+    for attempt in range(max_retries):
+        try:
+            return getattr(ticker, attribute)
+        except Exception as e:
+            if attempt == max_retries - 1:
+                raise e
+            sleep(retry_delay)
+
+def section_error(error: Exception) -> Dict[str, Any]:
+    return {"status": "error", "message": str(error) or type(error).__name__}
+
+def build_metrics(info: Dict[str, Any]) -> Dict[str, Dict[str, float | None]]:
     return {
-        k.strftime('%Y-%m-%d'): {
-            metric: safe_float(v)
-            for metric, v in values.items()
-        }
-        for k, values in df.to_dict().items()
+        'key_metrics': {
+            'market_cap': safe_float(info.get('marketCap')),
+            'enterprise_value': safe_float(info.get('enterpriseValue')),
+            'pe_ratio': safe_float(info.get('trailingPE')),
+            'forward_pe': safe_float(info.get('forwardPE')),
+            'peg_ratio': safe_float(info.get('pegRatio')),
+            'price_to_book': safe_float(info.get('priceToBook')),
+            'price_to_sales': safe_float(info.get('priceToSalesTrailing12Months')),
+            'beta': safe_float(info.get('beta')),
+            'dividend_yield': safe_float(info.get('dividendYield')),
+            'dividend_rate': safe_float(info.get('dividendRate')),
+            'five_year_avg_dividend_yield': safe_float(info.get('fiveYearAvgDividendYield')),
+        },
+        'efficiency_metrics': {
+            'return_on_equity': safe_float(info.get('returnOnEquity')),
+            'return_on_assets': safe_float(info.get('returnOnAssets')),
+            'profit_margin': safe_float(info.get('profitMargins')),
+            'operating_margin': safe_float(info.get('operatingMargins')),
+            'gross_margin': safe_float(info.get('grossMargins')),
+        },
+        'growth_metrics': {
+            'revenue_growth': safe_float(info.get('revenueGrowth')),
+            'earnings_growth': safe_float(info.get('earningsGrowth')),
+            'earnings_quarterly_growth': safe_float(info.get('earningsQuarterlyGrowth')),
+        },
+        'debt_metrics': {
+            'debt_to_equity': safe_float(info.get('debtToEquity')),
+            'current_ratio': safe_float(info.get('currentRatio')),
+            'quick_ratio': safe_float(info.get('quickRatio')),
+        },
     }
 
 def get_financial_data(symbol: str) -> Dict[str, Any]:
     try:
-        # Initialize ticker with longer timeout
         ticker = yf.Ticker(symbol)
-        
-        # Get financial statements with retries
-        max_retries = 3
-        retry_delay = 1  # seconds
-        
-        for attempt in range(max_retries):
+
+        # Each section is fetched on its own so one failing call only blanks
+        # that section; failures are reported under "sections" for the API.
+        sections: Dict[str, Dict[str, Any]] = {}
+        financial_data: Dict[str, Dict[str, Any]] = {'quarterly': {}, 'annual': {}}
+        unparsed: List[Dict[str, Any]] = []
+
+        for statement, quarterly_attribute, annual_attribute in STATEMENTS:
             try:
-                # Quarterly statements
-                income_stmt_q = ticker.quarterly_financials
-                balance_sheet_q = ticker.quarterly_balance_sheet
-                cash_flow_q = ticker.quarterly_cashflow
-                
-                # Annual statements
-                income_stmt = ticker.financials
-                balance_sheet = ticker.balance_sheet
-                cash_flow = ticker.cashflow
-                
-                break
+                financial_data['quarterly'][statement] = process_financial_statement(
+                    fetch_with_retries(ticker, quarterly_attribute), unparsed, 'quarterly', statement
+                )
+                financial_data['annual'][statement] = process_financial_statement(
+                    fetch_with_retries(ticker, annual_attribute), unparsed, 'annual', statement
+                )
             except Exception as e:
-                if attempt == max_retries - 1:
-                    raise e
-                sleep(retry_delay)
-        
-        financial_data = {
-            'quarterly': {
-                'income_statement': process_financial_statement(income_stmt_q),
-                'balance_sheet': process_financial_statement(balance_sheet_q),
-                'cash_flow': process_financial_statement(cash_flow_q)
-            },
-            'annual': {
-                'income_statement': process_financial_statement(income_stmt),
-                'balance_sheet': process_financial_statement(balance_sheet),
-                'cash_flow': process_financial_statement(cash_flow)
-            }
-        }
-
-        # Get additional metrics and info
-        info = ticker.info
+                financial_data['quarterly'][statement] = {}
+                financial_data['annual'][statement] = {}
+                sections[statement] = section_error(e)
 
-        # Add key metrics and ratios
         try:
-            additional_metrics = {
-                'key_metrics': {
-                    'market_cap': safe_float(info.get('marketCap')),
-                    'enterprise_value': safe_float(info.get('enterpriseValue')),
-                    'pe_ratio': safe_float(info.get('trailingPE')),
-                    'forward_pe': safe_float(info.get('forwardPE')),
-                    'peg_ratio': safe_float(info.get('pegRatio')),
-                    'price_to_book': safe_float(info.get('priceToBook')),
-                    'price_to_sales': safe_float(info.get('priceToSalesTrailing12Months')),
-                    'beta': safe_float(info.get('beta')),
-                    'dividend_yield': safe_float(info.get('dividendYield')),
-                    'dividend_rate': safe_float(info.get('dividendRate')),
-                    'five_year_avg_dividend_yield': safe_float(info.get('fiveYearAvgDividendYield')),
-                },
-                'efficiency_metrics': {
-                    'return_on_equity': safe_float(info.get('returnOnEquity')),
-                    'return_on_assets': safe_float(info.get('returnOnAssets')),
-                    'profit_margin': safe_float(info.get('profitMargins')),
-                    'operating_margin': safe_float(info.get('operatingMargins')),
-                    'gross_margin': safe_float(info.get('grossMargins')),
-                },
-                'growth_metrics': {
-                    'revenue_growth': safe_float(info.get('revenueGrowth')),
-                    'earnings_growth': safe_float(info.get('earningsGrowth')),
-                    'earnings_quarterly_growth': safe_float(info.get('earningsQuarterlyGrowth')),
-                },
-                'debt_metrics': {
-                    'debt_to_equity': safe_float(info.get('debtToEquity')),
-                    'current_ratio': safe_float(info.get('currentRatio')),
-                    'quick_ratio': safe_float(info.get('quickRatio')),
-                },
-            }
+            info = fetch_with_retries(ticker, 'info') or {}
         except Exception as e:
-            print(f"Warning: Error processing additional metrics: {str(e)}", file=sys.stderr)
+            info = {}
+            sections['company_info'] = section_error(e)
+            sections['metrics'] = section_error(e)
+
+        if 'metrics' not in sections:
+            try:
+                additional_metrics = build_metrics(info)
+            except Exception as e:
+                print(f"Warning: Error processing additional metrics: {str(e)}", file=sys.stderr)
+                additional_metrics = {}
+                sections['metrics'] = section_error(e)
+        else:
             additional_metrics = {}
 
+        if len(sections) == 5:
+            return {
+                "status": "error",
+                "error": f"Every section failed for {symbol}: {sections['company_info']['message']}"
+            }
+
         return {
             "status": "success",
             "symbol": symbol,
             "company_info": {
-                "name": info.get('longName'),
+                "name": info.get('longName') or info.get('shortName') or symbol,
                 "sector": info.get('sector'),
                 "industry": info.get('industry'),
                 "website": info.get('website'),
@@ -118,9 +159,14 @@ def get_financial_data(symbol: str) -> Dict[str, Any]:
                 "country": info.get('country'),
                 "employees": info.get('fullTimeEmployees'),
                 "exchange": info.get('exchange'),
+                "reporting_currency": info.get('financialCurrency'),
+                "trading_currency": info.get('currency'),
+                "fiscal_year_end": fiscal_year_end(info.get('lastFiscalYearEnd')),
             },
             "financial_statements": financial_data,
-            "metrics": additional_metrics
+            "metrics": additional_metrics,
+            "sections": sections,
+            "unparsed_values": unparsed
         }
     except Exception as e:
         return {
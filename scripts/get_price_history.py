@@ -0,0 +1,68 @@
+#!/usr/bin/env python3
+import yfinance as yf
+import pandas as pd
+import json
+import sys
+from typing import Dict, Any
+
+def safe_float(value) -> float | None:
+    try:
+        return float(value) if pd.notna(value) else None
+    except:
+        return None
+
+def get_price_history(symbol: str, period: str, interval: str) -> Dict[str, Any]:
+    try:
+        ticker = yf.Ticker(symbol)
+        # auto_adjust=False keeps the raw close alongside the adjusted one.
+        history = ticker.history(period=period, interval=interval, auto_adjust=False)
+
+        bars = [
+            {
+                "date": index.strftime('%Y-%m-%d'),
+                "open": safe_float(row.get('Open')),
+                "high": safe_float(row.get('High')),
+                "low": safe_float(row.get('Low')),
+                "close": safe_float(row.get('Close')),
+                "adj_close": safe_float(row.get('Adj Close')),
+                "volume": safe_float(row.get('Volume')),
+            }
+            for index, row in history.iterrows()
+        ]
+
+        currency = None
+        try:
+            currency = ticker.history_metadata.get('currency')
+        except Exception:
+            pass
+
+        return {
+            "status": "success",
+            "symbol": symbol,
+            "currency": currency,
+            "range": period,
+            "interval": interval,
+            "bars": bars
+        }
+    except Exception as e:
+        return {
+            "status": "error",
+            "error": str(e)
+        }
+
+def main():
+    if len(sys.argv) != 4:
+        print(json.dumps({"status": "error", "error": "Symbol, range and interval arguments required"}))
+        sys.exit(1)
+
+    try:
+        symbol = sys.argv[1].upper()
+        result = get_price_history(symbol, sys.argv[2], sys.argv[3])
+        print(json.dumps(result))
+        sys.exit(0)
+    except Exception as e:
+        print(json.dumps({"status": "error", "error": str(e)}))
+        sys.exit(1)
+
+if __name__ == "__main__":
+    main()
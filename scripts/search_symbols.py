@@ -0,0 +1,50 @@
+#!/usr/bin/env python3
+import yfinance as yf
+import json
+import sys
+from typing import Dict, Any
+
+MAX_RESULTS = 10
+
+def search_symbols(query: str) -> Dict[str, Any]:
+    try:
+        # Yahoo resolves symbols, partial symbols, company names and ISINs alike.
+        search = yf.Search(query, max_results=MAX_RESULTS, news_count=0)
+
+        matches = [
+            {
+                "symbol": quote.get("symbol"),
+                "name": quote.get("longname") or quote.get("shortname"),
+                "exchange": quote.get("exchDisp") or quote.get("exchange"),
+                "type": quote.get("quoteType"),
+            }
+            for quote in search.quotes
+            if quote.get("symbol")
+        ]
+
+        return {
+            "status": "success",
+            "query": query,
+            "matches": matches
+        }
+    except Exception as e:
+        return {
+            "status": "error",
+            "error": str(e)
+        }
+
+def main():
+    if len(sys.argv) != 2:
+        print(json.dumps({"status": "error", "error": "Search query argument required"}))
+        sys.exit(1)
+
+    try:
+        result = search_symbols(sys.argv[1])
+        print(json.dumps(result))
+        sys.exit(0)
+    except Exception as e:
+        print(json.dumps({"status": "error", "error": str(e)}))
+        sys.exit(1)
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { assertAlertField, describeCondition, evaluateAlertRule } from '@/lib/alerts/rules';
+import { InvalidAlertRuleError } from '@/lib/errors';
+import type { AlertCondition, AlertRuleInput } from '@/lib/schema';
+import { loadFixture } from './fixtures';
+
+const rule = (field: string, condition: AlertCondition): AlertRuleInput => ({
+  name: 'Test',
+  symbols: ['AAPL'],
+  field,
+  condition,
+  channels: ['in_app'],
+  enabled: true,
+});
+
+describe('assertAlertField', () => {
+  it('accepts any numeric screener field for thresholds, and only statement ratios for changes', () => {
+    expect(() => assertAlertField(rule('pe_ratio', { type: 'threshold', operator: '>', value: 1 }))).not.toThrow();
+    expect(() =>
+      assertAlertField(
+        rule('pe_ratio', { type: 'change', periodicity: 'annual', operator: '>', value: 1, relative: false })
+      )
+    ).toThrow(InvalidAlertRuleError);
+    expect(() => assertAlertField(rule('sector', { type: 'threshold', operator: '>', value: 1 }))).toThrow(
+      'Unknown numeric field "sector"'
+    );
+  });
+});
+
+describe('describeCondition', () => {
+  it('formats the threshold in the field’s units', () => {
+    expect(describeCondition('current_ratio', { type: 'threshold', operator: '<', value: 1 })).toBe('below 1.00x');
+    expect(
+      describeCondition('gross_margin', {
+        type: 'change',
+        periodicity: 'quarterly',
+        operator: '<=',
+        value: -0.05,
+        relative: false,
+      })
+    ).toBe('quarterly change at or below -5.00%');
+    expect(
+      describeCondition('gross_margin', {
+        type: 'change',
+        periodicity: 'annual',
+        operator: '>',
+        value: 0.1,
+        relative: true,
+      })
+    ).toBe('annual change above 10.00%');
+  });
+});
+
+describe('evaluateAlertRule', () => {
+  it('compares a threshold with the fixture’s metrics', async () => {
+    const apple = await loadFixture('AAPL');
+    expect(evaluateAlertRule(rule('current_ratio', { type: 'threshold', operator: '<', value: 1 }), apple)).toEqual({
+      triggered: true,
+      value: 0.867,
+      message: 'AAPL Current Ratio is 0.87x, below 1.00x.',
+    });
+    expect(evaluateAlertRule(rule('pe_ratio', { type: 'threshold', operator: '>', value: 40 }), apple)).toMatchObject({
+      triggered: false,
+      value: 37.8,
+    });
+  });
+
+  it('compares scaled metrics in the units the API reports them in, and displays both scaled', async () => {
+    const apple = await loadFixture('AAPL');
+    // Yahoo reports debt / equity as a percentage: 209.06 is 2.09x.
+    expect(evaluateAlertRule(rule('debt_to_equity', { type: 'threshold', operator: '>', value: 150 }), apple)).toEqual({
+      triggered: true,
+      value: 209.06,
+      message: 'AAPL Debt / Equity is 2.09x, above 1.50x.',
+    });
+    expect(
+      evaluateAlertRule(rule('debt_to_equity', { type: 'threshold', operator: '>', value: 250 }), apple).triggered
+    ).toBe(false);
+  });
+
+  it('measures the change between the two latest periods', async () => {
+    const apple = await loadFixture('AAPL');
+    const series = apple.ratios.quarterly;
+    const [previous, latest] = Object.keys(series)
+      .sort()
+      .slice(-2)
+      .map((date) => series[date].net_margin!);
+
+    const absolute = evaluateAlertRule(
+      rule('net_margin', { type: 'change', periodicity: 'quarterly', operator: '<', value: 0, relative: false }),
+      apple
+    );
+    expect(absolute.value).toBeCloseTo(latest - previous);
+    expect(absolute.triggered).toBe(latest < previous);
+
+    const relative = evaluateAlertRule(
+      rule('net_margin', { type: 'change', periodicity: 'quarterly', operator: '<', value: 0, relative: true }),
+      apple
+    );
+    expect(relative.value).toBeCloseTo((latest - previous) / Math.abs(previous));
+  });
+
+  it('does not trigger on data the company does not report', async () => {
+    const apple = await loadFixture('AAPL');
+    delete apple.metrics.key_metrics.pe_ratio;
+    expect(evaluateAlertRule(rule('pe_ratio', { type: 'threshold', operator: '>', value: 0 }), apple)).toEqual({
+      triggered: false,
+      value: null,
+      message: 'AAPL reports no P/E (TTM).',
+    });
+  });
+});
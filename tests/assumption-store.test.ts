@@ -0,0 +1,46 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createFileAssumptionStore, type AssumptionSet } from '@/lib/assumptions/store';
+
+const set = (id: string): AssumptionSet => ({
+  id,
+  symbol: 'AAPL',
+  name: id,
+  assumptions: {
+    revenue_growth: 0.05,
+    operating_margin: 0.3,
+    tax_rate: 0.15,
+    capex_percent: 0.03,
+    da_percent: 0.03,
+    nwc_percent: 0,
+    wacc: 0.09,
+    terminal_growth: 0.025,
+    years: 5,
+  },
+  created_at: '2024-11-01T00:00:00.000Z',
+});
+
+describe('createFileAssumptionStore', () => {
+  let directory: string | undefined;
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('keeps every set saved concurrently for a symbol', async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'assumptions-'));
+    const store = createFileAssumptionStore(directory);
+    await store.save(set('old'));
+
+    await Promise.all([
+      store.save(set('base')),
+      store.save(set('bear')),
+      store.delete('AAPL', 'old'),
+      store.save(set('bull')),
+    ]);
+
+    expect((await store.list('AAPL')).map((saved) => saved.id)).toEqual(['base', 'bear', 'bull']);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getFinancialDataProvider, type FinancialDataProvider } from '@/lib/providers';
+
+/** The fixture provider, counting calls and answering only once released. */
+const countingProvider = () => {
+  const fixture = getFinancialDataProvider('fixture');
+  let release: () => void = () => undefined;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  const getFinancialData = vi.fn(async (symbol: string) => {
+    await released;
+    return fixture.getFinancialData(symbol);
+  });
+  const provider: FinancialDataProvider = { ...fixture, name: 'fixture', getFinancialData };
+  return { provider, getFinancialData, release };
+};
+
+describe('getCachedFinancialData', () => {
+  it('shares the cache and in-flight fetches between separately loaded copies of the module', async () => {
+    const { provider, getFinancialData, release } = countingProvider();
+    const first = await import('@/lib/cache');
+    vi.resetModules();
+    // A fresh module instance, as another route bundle would load it.
+    const second = await import('@/lib/cache');
+    expect(second).not.toBe(first);
+
+    const pending = [first.getCachedFinancialData(provider, 'MSFT'), second.getCachedFinancialData(provider, 'MSFT')];
+    release();
+    const results = await Promise.all(pending);
+
+    expect(getFinancialData).toHaveBeenCalledTimes(1);
+    expect(results.map((result) => result.status)).toEqual(['miss', 'miss']);
+    expect((await second.getCachedFinancialData(provider, 'MSFT')).status).toBe('hit');
+    expect(getFinancialData).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getCachedPriceHistory', () => {
+  it('serves repeated requests for the same bars from one fetch', async () => {
+    const { getCachedPriceHistory } = await import('@/lib/cache');
+    const fixture = getFinancialDataProvider('fixture');
+    const getPriceHistory = vi.fn(fixture.getPriceHistory);
+    const provider: FinancialDataProvider = { ...fixture, getPriceHistory };
+
+    const [first, second] = await Promise.all([
+      getCachedPriceHistory(provider, 'AAPL', '1y', '1wk'),
+      getCachedPriceHistory(provider, 'aapl', '1y', '1wk'),
+    ]);
+    expect(second.data).toEqual(first.data);
+    expect(first.maxAge).toBeGreaterThanOrEqual(899);
+    await getCachedPriceHistory(provider, 'AAPL', '1y', '1wk');
+    expect(getPriceHistory).toHaveBeenCalledTimes(1);
+
+    await getCachedPriceHistory(provider, 'AAPL', '5y', '1wk');
+    expect(getPriceHistory).toHaveBeenCalledTimes(2);
+  });
+});
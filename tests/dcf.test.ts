@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { getDcfBase, runDcf, seedAssumptions, sensitivityGrid, type DcfBase } from '@/lib/dcf';
+import { validateAssumptionSetInput, type DcfAssumptions } from '@/lib/schema';
+import { loadFixture } from './fixtures';
+
+const base: DcfBase = { fiscal_year_end: '2024-12-31', revenue: 1000, net_debt: 200, shares: 10 };
+
+const assumptions: DcfAssumptions = {
+  revenue_growth: 0.1,
+  operating_margin: 0.2,
+  tax_rate: 0.25,
+  capex_percent: 0.05,
+  da_percent: 0.04,
+  nwc_percent: 0.1,
+  wacc: 0.1,
+  terminal_growth: 0.02,
+  years: 2,
+};
+
+describe('runDcf', () => {
+  it('discounts unlevered free cash flow and a Gordon terminal value', () => {
+    const result = runDcf(base, assumptions)!;
+
+    // Year 1: revenue 1100, NOPAT 165, D&A 44, capex 55, working capital 100 -> 110.
+    expect(result.projections[0].free_cash_flow).toBeCloseTo(165 + 44 - 55 - 10);
+    // Year 2: revenue 1210, NOPAT 181.5, D&A 48.4, capex 60.5, working capital 110 -> 121.
+    const year2 = 181.5 + 48.4 - 60.5 - 11;
+    expect(result.projections[1].free_cash_flow).toBeCloseTo(year2);
+
+    const pv = 144 / 1.1 + year2 / 1.1 ** 2;
+    const terminal = (year2 * 1.02) / 0.08;
+    expect(result.pv_of_cash_flows).toBeCloseTo(pv);
+    expect(result.terminal_value).toBeCloseTo(terminal);
+    expect(result.enterprise_value).toBeCloseTo(pv + terminal / 1.1 ** 2);
+    expect(result.equity_value).toBeCloseTo(result.enterprise_value - 200);
+    expect(result.value_per_share).toBeCloseTo(result.equity_value! / 10);
+  });
+
+  it('has no answer without revenue or when growth reaches WACC', () => {
+    expect(runDcf({ ...base, revenue: null }, assumptions)).toBeNull();
+    expect(runDcf(base, { ...assumptions, terminal_growth: 0.1 })).toBeNull();
+  });
+
+  it('leaves equity value out without net debt, and per-share value without shares', () => {
+    expect(runDcf({ ...base, net_debt: null }, assumptions)).toMatchObject({
+      equity_value: null,
+      value_per_share: null,
+    });
+    expect(runDcf({ ...base, shares: null }, assumptions)!.value_per_share).toBeNull();
+  });
+});
+
+describe('sensitivityGrid', () => {
+  it('centres on the current assumptions and blanks cells where growth reaches WACC', () => {
+    const grid = sensitivityGrid(base, { ...assumptions, wacc: 0.03, terminal_growth: 0.02 });
+    expect(grid.waccs).toEqual([0.02, 0.025, 0.03, 0.035, 0.04]);
+    expect(grid.terminalGrowths).toEqual([0.01, 0.015, 0.02, 0.025, 0.03]);
+    expect(grid.values[2][2]).toBeCloseTo(runDcf(base, { ...assumptions, wacc: 0.03 })!.value_per_share!);
+    expect(grid.values[0][2]).toBeNull();
+  });
+});
+
+describe('seedAssumptions', () => {
+  it('seeds drivers from the fixture statements', async () => {
+    const apple = await loadFixture('AAPL');
+    const annual = apple.financial_statements.annual;
+    const seeded = seedAssumptions(annual);
+
+    expect(seeded.operating_margin).toBeGreaterThan(0.25);
+    expect(seeded.operating_margin).toBeLessThan(0.35);
+    expect(seeded.tax_rate).toBeGreaterThan(0.1);
+    expect(seeded.tax_rate).toBeLessThan(0.3);
+    expect(seeded.capex_percent).toBeGreaterThan(0);
+
+    const fixtureBase = getDcfBase(annual);
+    expect(fixtureBase.fiscal_year_end).toBe('2024-09-30');
+    expect(runDcf(fixtureBase, seeded)!.value_per_share).toBeGreaterThan(0);
+  });
+});
+
+describe('validateAssumptionSetInput', () => {
+  it('rejects sets whose terminal growth reaches WACC, which could never be valued', () => {
+    expect(validateAssumptionSetInput({ name: 'Base', assumptions }).success).toBe(true);
+    expect(
+      validateAssumptionSetInput({ name: 'Hot', assumptions: { ...assumptions, wacc: 0.08, terminal_growth: 0.09 } })
+    ).toEqual({
+      success: false,
+      issues: [{ path: 'assumptions.terminal_growth', message: 'Terminal growth must be below WACC' }],
+    });
+    expect(
+      validateAssumptionSetInput({ name: 'Flat', assumptions: { ...assumptions, wacc: 0.08, terminal_growth: 0.08 } })
+        .success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it, vi } from 'vitest';
+import { errorResponse, WatchlistNotFoundError } from '@/lib/errors';
+
+describe('errorResponse', () => {
+  it('answers a typed error with its own status and body', async () => {
+    const response = errorResponse(new WatchlistNotFoundError('abc'), 'Watchlist API');
+    expect(response.status).toBe(404);
+    expect(response.headers.get('Retry-After')).toBeNull();
+    expect(await response.json()).toEqual({ error: 'No watchlist "abc"', code: 'watchlist_not_found' });
+  });
+
+  it('logs anything else and answers with a generic 500', async () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const response = errorResponse(new Error('disk full'), 'Watchlist API');
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to fetch stock data', details: 'disk full' });
+    expect(log).toHaveBeenCalledWith('Watchlist API Error:', expect.any(Error));
+    log.mockRestore();
+  });
+});
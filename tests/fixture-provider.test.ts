@@ -0,0 +1,71 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ParseError, SymbolNotFoundError } from '@/lib/errors';
+import { getFinancialDataProvider } from '@/lib/providers';
+import { validateFinancialData, validatePriceHistory, validateSearchResults } from '@/lib/schema';
+
+const fixture = getFinancialDataProvider('fixture');
+
+describe('getFinancialDataProvider', () => {
+  it('resolves providers by name and rejects unknown ones', () => {
+    expect(getFinancialDataProvider('fixture').name).toBe('fixture');
+    expect(getFinancialDataProvider('yahoo').name).toBe('yahoo');
+    expect(getFinancialDataProvider('').name).toBe('python');
+    expect(() => getFinancialDataProvider('csv')).toThrow('Unknown financial data provider "csv"');
+  });
+});
+
+describe('fixture provider', () => {
+  let directory: string | undefined;
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('serves every fixture as a valid FinancialData payload, whatever the symbol’s case', async () => {
+    for (const symbol of ['AAPL', 'msft', 'ANOM']) {
+      const validation = validateFinancialData(await fixture.getFinancialData(symbol));
+      expect(validation.success).toBe(true);
+      expect(validation.success && validation.data.symbol).toBe(symbol.toUpperCase());
+    }
+  });
+
+  it('reports a symbol without a fixture as not found', async () => {
+    await expect(fixture.getFinancialData('ZZZZ')).rejects.toBeInstanceOf(SymbolNotFoundError);
+  });
+
+  it('reads fixtures from FINANCIAL_FIXTURES_DIR and reports unreadable JSON as a parse failure', async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'fixtures-'));
+    await writeFile(path.join(directory, 'BAD.json'), '{ "status": ', 'utf8');
+    vi.stubEnv('FINANCIAL_FIXTURES_DIR', directory);
+
+    await expect(fixture.getFinancialData('BAD')).rejects.toBeInstanceOf(ParseError);
+    await expect(fixture.getFinancialData('AAPL')).rejects.toBeInstanceOf(SymbolNotFoundError);
+  });
+
+  it('slices the stored price history to the requested range', async () => {
+    const validation = validatePriceHistory(await fixture.getPriceHistory('AAPL', '1y', '1d'));
+    expect(validation.success).toBe(true);
+    if (!validation.success) return;
+
+    const { range, interval, bars } = validation.data;
+    expect(range).toBe('1y');
+    expect(interval).toBe('1wk');
+    expect(bars.at(-1)?.date).toBe('2024-09-27');
+    expect(bars[0].date >= '2023-09-27').toBe(true);
+    expect(bars.length).toBeLessThan(60);
+  });
+
+  it('ranks listings from the search fixture', async () => {
+    const search = async (query: string) => {
+      const validation = validateSearchResults(await fixture.searchSymbols(query));
+      if (!validation.success) throw new Error(JSON.stringify(validation.issues));
+      return validation.data.matches;
+    };
+    expect((await search('apple'))[0]).toMatchObject({ symbol: 'AAPL', name: 'Apple Inc.' });
+    expect((await search('US5949181045'))[0].symbol).toBe('MSFT');
+  });
+});
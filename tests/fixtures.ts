@@ -0,0 +1,12 @@
+import { enrichFinancialData, type EnrichedFinancialData } from '@/lib/enrich';
+import { getFinancialDataProvider } from '@/lib/providers';
+import { validateFinancialData } from '@/lib/schema';
+
+/** Loads a symbol through the fixture provider the way the API does, minus the cache. */
+export async function loadFixture(symbol: string): Promise<EnrichedFinancialData> {
+  const validation = validateFinancialData(await getFinancialDataProvider('fixture').getFinancialData(symbol));
+  if (!validation.success) {
+    throw new Error(`Fixture ${symbol} is malformed: ${JSON.stringify(validation.issues)}`);
+  }
+  return enrichFinancialData(validation.data);
+}
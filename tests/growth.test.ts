@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { computeStatementGrowth, computeTtm, percentChange } from '@/lib/growth';
+import type { FinancialStatements } from '@/lib/schema';
+import { loadFixture } from './fixtures';
+
+const quarters = (income: Record<string, number>): FinancialStatements => ({
+  income_statement: Object.fromEntries(
+    Object.entries(income).map(([date, revenue]) => [date, { 'Total Revenue': revenue }])
+  ),
+  balance_sheet: {},
+  cash_flow: {},
+});
+
+describe('percentChange', () => {
+  it('measures change against the magnitude of the base', () => {
+    expect(percentChange(150, 100)).toBe(0.5);
+    expect(percentChange(50, -100)).toBe(1.5);
+    expect(percentChange(1, 0)).toBeNull();
+    expect(percentChange(null, 1)).toBeNull();
+  });
+});
+
+describe('computeStatementGrowth', () => {
+  it('matches year-ago periods that drift by a few days', async () => {
+    const apple = await loadFixture('AAPL');
+    const annual = apple.financial_statements.annual.income_statement;
+    const growth = computeStatementGrowth(annual, 'annual', annual)['Total Revenue'];
+    expect(growth.yoy).toBeCloseTo(
+      (annual['2024-09-30']['Total Revenue']! - annual['2023-09-30']['Total Revenue']!) /
+        annual['2023-09-30']['Total Revenue']!
+    );
+    expect(growth.qoq).toBeNull();
+    expect(growth.cagr).not.toBeNull();
+  });
+});
+
+describe('computeTtm', () => {
+  it('sums the latest four quarters of flows and keeps the latest balance', async () => {
+    const apple = await loadFixture('AAPL');
+    const quarterly = apple.financial_statements.quarterly;
+    const ttm = computeTtm(quarterly)!;
+    const lastFour = ['2023-12-31', '2024-03-31', '2024-06-30', '2024-09-30'];
+
+    expect(ttm.period_end).toBe('2024-09-30');
+    expect(ttm.income_statement['Total Revenue']).toBeCloseTo(
+      lastFour.reduce((sum, date) => sum + quarterly.income_statement[date]['Total Revenue']!, 0)
+    );
+    expect(ttm.balance_sheet['Total Assets']).toBe(quarterly.balance_sheet['2024-09-30']['Total Assets']);
+  });
+
+  it('needs four quarters', () => {
+    expect(computeTtm(quarters({ '2024-03-31': 1, '2024-06-30': 1, '2024-09-30': 1 }))).toBeNull();
+  });
+
+  it('needs the four quarters to be consecutive', () => {
+    // 2024-03-31 is missing, so the latest four span fifteen months.
+    const gap = quarters({ '2023-09-30': 1, '2023-12-31': 1, '2024-06-30': 1, '2024-09-30': 1 });
+    expect(computeTtm(gap)).toBeNull();
+    // 52/53-week quarter ends still count as consecutive.
+    const drifting = quarters({ '2023-12-30': 1, '2024-03-30': 1, '2024-06-29': 1, '2024-09-28': 1 });
+    expect(computeTtm(drifting)!.income_statement['Total Revenue']).toBe(4);
+  });
+
+  it('leaves cash flow totals out when the cash flow statement skips a quarter', async () => {
+    const apple = await loadFixture('AAPL');
+    delete apple.financial_statements.quarterly.cash_flow['2024-03-31'];
+    const ttm = computeTtm(apple.financial_statements.quarterly)!;
+    expect(ttm.income_statement['Total Revenue']).not.toBeNull();
+    expect(ttm.cash_flow['Operating Cash Flow']).toBeNull();
+  });
+
+  it('takes every statement over the income statement’s quarters', async () => {
+    const apple = await loadFixture('AAPL');
+    const quarterly = apple.financial_statements.quarterly;
+    // A balance sheet a quarter ahead of the income statement, and a cash flow ending on another date.
+    quarterly.balance_sheet['2024-12-31'] = { 'Total Assets': 1 };
+    quarterly.cash_flow['2024-09-28'] = quarterly.cash_flow['2024-09-30'];
+    delete quarterly.cash_flow['2024-09-30'];
+
+    const ttm = computeTtm(quarterly)!;
+    expect(ttm.period_end).toBe('2024-09-30');
+    expect(ttm.balance_sheet['Total Assets']).toBe(quarterly.balance_sheet['2024-09-30']['Total Assets']);
+    expect(ttm.cash_flow['Operating Cash Flow']).toBeNull();
+  });
+
+  it('leaves a flow out when a quarter did not report it', () => {
+    const statements = quarters({ '2023-12-31': 1, '2024-03-31': 1, '2024-06-30': 1, '2024-09-30': 1 });
+    statements.income_statement['2024-09-30']['Net Income'] = 5;
+    expect(computeTtm(statements)!.income_statement).toEqual({ 'Total Revenue': 4, 'Net Income': null });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { diffSnapshots } from '@/lib/history/diff';
+import type { Snapshot } from '@/lib/history/store';
+import type { FinancialData } from '@/lib/schema';
+import { loadFixture } from './fixtures';
+
+const snapshot = (version: number, data: FinancialData): Snapshot => ({
+  symbol: 'AAPL',
+  version,
+  fetched_at: `2024-11-0${version}T00:00:00.000Z`,
+  provider: 'fixture',
+  checksum: `v${version}`,
+  data,
+});
+
+/** A copy of `data` with `edit` applied to its statements. */
+const edited = (data: FinancialData, edit: (statements: FinancialData['financial_statements']) => void) => {
+  const copy: FinancialData = structuredClone(data);
+  edit(copy.financial_statements);
+  return copy;
+};
+
+describe('diffSnapshots', () => {
+  it('reports nothing between identical snapshots', async () => {
+    const apple = await loadFixture('AAPL');
+    const diff = diffSnapshots([snapshot(1, apple), snapshot(2, structuredClone(apple))]);
+    expect(diff).toMatchObject({ added_periods: [], removed_periods: [], changes: [] });
+    expect(diff.from.version).toBe(1);
+    expect(diff.to).not.toHaveProperty('data');
+  });
+
+  it('lists restated, added and removed line items and periods', async () => {
+    const apple = await loadFixture('AAPL');
+    const revenue = apple.financial_statements.annual.income_statement['2023-09-30']['Total Revenue']!;
+    const later = edited(apple, (statements) => {
+      const income = statements.annual.income_statement;
+      income['2023-09-30']['Total Revenue'] = revenue + 1e9;
+      income['2023-09-30']['Restructuring'] = -5e8;
+      delete income['2022-09-30']['Net Income'];
+      income['2025-09-30'] = { 'Total Revenue': 4e11 };
+      delete statements.quarterly.cash_flow['2023-09-30'];
+    });
+
+    const diff = diffSnapshots([snapshot(1, apple), snapshot(2, later)]);
+    expect(diff.added_periods).toEqual([{ periodicity: 'annual', statement: 'income_statement', date: '2025-09-30' }]);
+    expect(diff.removed_periods).toEqual([{ periodicity: 'quarterly', statement: 'cash_flow', date: '2023-09-30' }]);
+    expect(diff.changes).toHaveLength(3);
+    expect(diff.changes).toContainEqual(
+      expect.objectContaining({
+        date: '2023-09-30',
+        line_item: 'Total Revenue',
+        kind: 'changed',
+        before: revenue,
+        after: revenue + 1e9,
+        change: 1e9,
+        change_percent: 1e9 / revenue,
+        changed_in: 2,
+      })
+    );
+    expect(diff.changes).toContainEqual(
+      expect.objectContaining({ line_item: 'Restructuring', kind: 'added', before: null, change: null })
+    );
+    expect(diff.changes).toContainEqual(
+      expect.objectContaining({ date: '2022-09-30', line_item: 'Net Income', kind: 'removed', after: null })
+    );
+  });
+
+  it('dates a change by the snapshot after which it stopped moving', async () => {
+    const apple = await loadFixture('AAPL');
+    const restate = (value: number) =>
+      edited(apple, (statements) => {
+        statements.annual.income_statement['2024-09-30']['Total Revenue'] = value;
+      });
+
+    const diff = diffSnapshots([
+      snapshot(1, apple),
+      snapshot(2, restate(1)),
+      snapshot(3, restate(2)),
+      snapshot(4, restate(2)),
+    ]);
+    expect(diff.changes).toEqual([
+      expect.objectContaining({ after: 2, changed_in: 3, changed_at: '2024-11-03T00:00:00.000Z' }),
+    ]);
+  });
+});
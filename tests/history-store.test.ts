@@ -0,0 +1,84 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { listSnapshots, recordSnapshot } from '@/lib/history';
+import { createFileHistoryStore, createMemoryHistoryStore, type Snapshot } from '@/lib/history/store';
+import type { FinancialData } from '@/lib/schema';
+import { loadFixture } from './fixtures';
+
+/** The fixture under a symbol no other test records, so the shared history starts empty. */
+const fixtureAs = async (symbol: string): Promise<FinancialData> => ({ ...(await loadFixture('AAPL')), symbol });
+
+const snapshot = (data: FinancialData, checksum: string): Omit<Snapshot, 'version'> => ({
+  symbol: data.symbol,
+  fetched_at: '2024-11-01T00:00:00.000Z',
+  provider: 'fixture',
+  checksum,
+  data,
+});
+
+describe('recordSnapshot', () => {
+  it('stores a new version only when the statements change', async () => {
+    const data = await fixtureAs('HISTA');
+    expect(await recordSnapshot('fixture', data)).toMatchObject({ symbol: 'HISTA', version: 1 });
+
+    const refreshed: FinancialData = structuredClone(data);
+    refreshed.metrics.key_metrics.pe_ratio = 12;
+    refreshed.sections = { metrics: { status: 'stale', message: 'Timed out' } };
+    refreshed.cached_at = '2024-11-02T00:00:00.000Z';
+    expect(await recordSnapshot('fixture', refreshed)).toBeNull();
+
+    // The same figures in a different key order are the same statements.
+    const reordered: FinancialData = structuredClone(data);
+    const annual = reordered.financial_statements.annual;
+    annual.income_statement = Object.fromEntries(Object.entries(annual.income_statement).reverse());
+    expect(await recordSnapshot('fixture', reordered)).toBeNull();
+
+    const restated: FinancialData = structuredClone(data);
+    restated.financial_statements.annual.income_statement['2024-09-30']['Total Revenue'] = 1;
+    expect(await recordSnapshot('fixture', restated)).toMatchObject({ version: 2 });
+    expect((await listSnapshots('HISTA')).map((summary) => summary.version)).toEqual([2, 1]);
+  });
+
+  it('stores concurrent fetches of the same statements once', async () => {
+    const data = await fixtureAs('HISTB');
+    const recorded = await Promise.all([recordSnapshot('fixture', data), recordSnapshot('fixture', data)]);
+    expect(recorded.filter((summary) => summary !== null)).toHaveLength(1);
+    expect(await listSnapshots('HISTB')).toHaveLength(1);
+  });
+});
+
+describe('HistoryStore.append', () => {
+  let directory: string | undefined;
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('skips a snapshot whose checksum matches the latest, in memory', async () => {
+    const data = await fixtureAs('AAPL');
+    const store = createMemoryHistoryStore();
+    expect(await store.append(snapshot(data, 'a'))).toMatchObject({ version: 1 });
+    expect(await store.append(snapshot(data, 'a'))).toBeNull();
+    expect(await store.append(snapshot(data, 'b'))).toMatchObject({ version: 2 });
+    expect(await store.append(snapshot(data, 'a'))).toMatchObject({ version: 3 });
+  });
+
+  it('checks the latest checksum inside the serialized append on disk', async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'history-'));
+    const data = await fixtureAs('AAPL');
+    const store = createFileHistoryStore(directory);
+
+    const appended = await Promise.all([
+      store.append(snapshot(data, 'a')),
+      store.append(snapshot(data, 'a')),
+      store.append(snapshot(data, 'b')),
+    ]);
+    expect(appended.map((stored) => stored?.version ?? null)).toEqual([1, null, 2]);
+    expect((await store.list('AAPL')).map(({ version, checksum }) => ({ version, checksum }))).toEqual([
+      { version: 1, checksum: 'a' },
+      { version: 2, checksum: 'b' },
+    ]);
+  });
+});
@@ -0,0 +1,23 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { writeJsonAtomic } from '@/lib/json-file';
+
+describe('writeJsonAtomic', () => {
+  let directory: string | undefined;
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('creates missing directories and lets concurrent writers to one file all succeed', async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'json-file-'));
+    const target = path.join(directory, 'nested', 'value.json');
+
+    await Promise.all([1, 2, 3, 4].map((value) => writeJsonAtomic(target, { value }, 2)));
+
+    expect([1, 2, 3, 4]).toContain(JSON.parse(await readFile(target, 'utf8')).value);
+    expect(await readdir(path.dirname(target))).toEqual(['value.json']);
+  });
+});
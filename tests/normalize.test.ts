@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeStatement, normalizeStatements } from '@/lib/normalize';
+import type { StatementCollection } from '@/lib/schema';
+import { loadFixture } from './fixtures';
+
+const annualOf = async (symbol: string) => (await loadFixture(symbol)).financial_statements.annual;
+
+describe('normalizeStatement', () => {
+  it('maps provider line items onto the chart of accounts', async () => {
+    const normalized = normalizeStatements(await annualOf('AAPL'));
+    const income = normalized.income_statement;
+
+    expect(income.values['2024-09-30']).toMatchObject({
+      revenue: 391035000000,
+      cost_of_revenue: 210352000000,
+      gross_profit: 180683000000,
+      net_income: 93736000000,
+      // Reported but empty items keep their account, with no value.
+      interest_expense: null,
+    });
+    expect(income.values['2024-09-30']).not.toHaveProperty('Total Revenue');
+    expect(income.lines.find((line) => line.key === 'revenue')).toMatchObject({
+      label: 'Revenue',
+      raw_keys: ['Total Revenue'],
+      mapped: true,
+    });
+    expect(income.lines.every((line) => line.mapped)).toBe(true);
+
+    expect(normalized.cash_flow.values['2024-09-30']).toMatchObject({
+      operating_cash_flow: 118254000000,
+      capital_expenditure: -9447000000,
+    });
+  });
+
+  it('applies the account’s sign convention whatever sign the provider used', async () => {
+    const cashFlow = structuredClone((await annualOf('AAPL')).cash_flow);
+    cashFlow['2024-09-30']['Capital Expenditure'] = 9447000000;
+
+    expect(normalizeStatement(cashFlow, 'cash_flow').values['2024-09-30'].capital_expenditure).toBe(-9447000000);
+  });
+
+  it('falls back to a later alias without counting it twice', async () => {
+    const income = structuredClone((await annualOf('AAPL')).income_statement);
+    delete income['2024-09-30']['Net Income'];
+    income['2024-09-30']['Net Income Common Stockholders'] = 93000000000;
+    income['2024-09-30'].Revenue = 391035000000;
+
+    const normalized = normalizeStatement(income, 'income_statement');
+    expect(normalized.values['2024-09-30']).toMatchObject({ net_income: 93000000000, net_income_common: null });
+    expect(normalized.values['2023-09-30'].net_income).toBe(96995000000);
+    expect(normalized.lines.find((line) => line.key === 'net_income')?.raw_keys.sort()).toEqual([
+      'Net Income',
+      'Net Income Common Stockholders',
+    ]);
+    // An alias the preferred one made redundant is listed as a duplicate.
+    expect(normalized.lines.find((line) => line.key === 'revenue')?.raw_keys).toEqual(['Total Revenue', 'Revenue']);
+  });
+
+  it('passes unmapped items through under their raw name, after the chart, with no group', async () => {
+    const income: StatementCollection = structuredClone((await annualOf('AAPL')).income_statement);
+    income['2024-09-30']['Widget Royalties'] = 120;
+    income['2023-09-30']['Accrued Gizmos'] = -5;
+
+    const normalized = normalizeStatement(income, 'income_statement');
+    expect(normalized.values['2024-09-30']['Widget Royalties']).toBe(120);
+    expect(normalized.values['2023-09-30']['Accrued Gizmos']).toBe(-5);
+    expect(normalized.values['2023-09-30']).not.toHaveProperty('Widget Royalties');
+    // Unmapped lines carry no group, which the statement table shows under "Other".
+    expect(normalized.lines.slice(-2)).toEqual([
+      {
+        key: 'Accrued Gizmos',
+        label: 'Accrued Gizmos',
+        group: null,
+        depth: 0,
+        raw_keys: ['Accrued Gizmos'],
+        mapped: false,
+      },
+      {
+        key: 'Widget Royalties',
+        label: 'Widget Royalties',
+        group: null,
+        depth: 0,
+        raw_keys: ['Widget Royalties'],
+        mapped: false,
+      },
+    ]);
+  });
+
+  it('nests sub-accounts under their top-level account by depth', async () => {
+    const { lines } = normalizeStatement((await annualOf('AAPL')).income_statement, 'income_statement');
+    const placement = Object.fromEntries(lines.map((line) => [line.key, [line.group, line.depth]]));
+
+    expect(placement).toMatchObject({
+      revenue: ['revenue', 0],
+      cost_of_revenue: ['gross_profit', 1],
+      operating_expense: ['operating_income', 1],
+      research_and_development: ['operating_income', 2],
+      selling_general_and_administrative: ['operating_income', 2],
+      tax_provision: ['net_income', 1],
+      eps_diluted: ['eps_diluted', 0],
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { alignStatement, buildPeriods, computePeriods, fiscalYearEndMonth } from '@/lib/periods';
+import type { FinancialStatements } from '@/lib/schema';
+import { loadFixture } from './fixtures';
+
+const statements = (dates: Partial<Record<keyof FinancialStatements, string[]>>): FinancialStatements => ({
+  income_statement: Object.fromEntries((dates.income_statement ?? []).map((date) => [date, {}])),
+  balance_sheet: Object.fromEntries((dates.balance_sheet ?? []).map((date) => [date, {}])),
+  cash_flow: Object.fromEntries((dates.cash_flow ?? []).map((date) => [date, {}])),
+});
+
+describe('fiscalYearEndMonth', () => {
+  it('reads the reported fiscal year end, counting a 52/53-week year end in its month', async () => {
+    const apple = await loadFixture('AAPL');
+    const microsoft = await loadFixture('MSFT');
+    expect(fiscalYearEndMonth(apple.company_info, apple.financial_statements.annual)).toBe(9);
+    expect(fiscalYearEndMonth(microsoft.company_info, microsoft.financial_statements.annual)).toBe(6);
+    expect(fiscalYearEndMonth({ ...apple.company_info, fiscal_year_end: '01-02' }, statements({}))).toBe(12);
+  });
+
+  it('falls back to the month most annual periods end in, then December', async () => {
+    const microsoft = await loadFixture('MSFT');
+    const companyInfo = { ...microsoft.company_info, fiscal_year_end: null };
+    expect(fiscalYearEndMonth(companyInfo, microsoft.financial_statements.annual)).toBe(6);
+    expect(fiscalYearEndMonth(companyInfo, statements({}))).toBe(12);
+  });
+});
+
+describe('computePeriods', () => {
+  it('labels quarters by a non-December fiscal year', async () => {
+    const periods = computePeriods(await loadFixture('MSFT'));
+    expect(periods.quarterly.map(({ date, label }) => [date, label])).toEqual([
+      ['2024-09-30', 'FQ1 2025'],
+      ['2024-06-30', 'FQ4 2024'],
+      ['2024-03-31', 'FQ3 2024'],
+      ['2023-12-31', 'FQ2 2024'],
+      ['2023-09-30', 'FQ1 2024'],
+    ]);
+    expect(periods.annual.map(({ label }) => label)).toEqual(['FY 2024', 'FY 2023', 'FY 2022', 'FY 2021']);
+    expect(periods.quarterly[0]).toMatchObject({ fiscal_year: 2025, fiscal_quarter: 1 });
+  });
+
+  it('lists the statements behind each period', async () => {
+    const periods = computePeriods(await loadFixture('AAPL'));
+    expect(periods.quarterly.at(-1)).toMatchObject({
+      date: '2023-06-30',
+      label: 'FQ3 2023',
+      statements: ['balance_sheet'],
+      restated: false,
+      missing_before: [],
+    });
+    expect(periods.quarterly[0]).toMatchObject({
+      label: 'FQ4 2024',
+      statements: ['income_statement', 'balance_sheet', 'cash_flow'],
+    });
+  });
+
+  it('reports quarters skipped between two reported ones as missing', async () => {
+    const periods = computePeriods(await loadFixture('ANOM'));
+    expect(periods.quarterly.map(({ label, missing_before }) => [label, missing_before])).toEqual([
+      ['FQ4 2024', []],
+      ['FQ3 2024', ['FQ2 2024']],
+      ['FQ1 2024', []],
+      ['FQ4 2023', []],
+    ]);
+  });
+});
+
+describe('buildPeriods', () => {
+  it('shares a column between statements that disagree on the exact day', () => {
+    const [period] = buildPeriods(
+      statements({ income_statement: ['2024-09-28'], balance_sheet: ['2024-09-30'] }),
+      'quarterly',
+      9
+    );
+    expect(period).toMatchObject({
+      date: '2024-09-30',
+      label: 'FQ4 2024',
+      reported_dates: ['2024-09-30', '2024-09-28'],
+      restated: false,
+    });
+  });
+
+  it('marks a period restated when one statement reports it under two dates', () => {
+    const [period] = buildPeriods(statements({ income_statement: ['2024-09-28', '2024-09-30'] }), 'quarterly', 9);
+    expect(period).toMatchObject({
+      label: 'FQ4 2024',
+      reported_dates: ['2024-09-30', '2024-09-28'],
+      restated: true,
+    });
+  });
+
+  it('lists several missing years, newest first', () => {
+    const periods = buildPeriods(statements({ cash_flow: ['2024-12-31', '2021-12-31'] }), 'annual', 12);
+    expect(periods.map(({ label, missing_before }) => [label, missing_before])).toEqual([
+      ['FY 2024', ['FY 2023', 'FY 2022']],
+      ['FY 2021', []],
+    ]);
+  });
+});
+
+describe('alignStatement', () => {
+  it('re-keys each period by its column date, letting the latest restatement win', () => {
+    const collection = {
+      '2024-09-28': { 'Total Revenue': 100, 'Net Income': 10 },
+      '2024-09-30': { 'Total Revenue': 110 },
+      '2024-06-29': { 'Total Revenue': 90 },
+    };
+    const periods = buildPeriods(statements({ income_statement: Object.keys(collection) }), 'quarterly', 9);
+    expect(alignStatement(collection, periods)).toEqual({
+      '2024-09-30': { 'Total Revenue': 110, 'Net Income': 10 },
+      '2024-06-29': { 'Total Revenue': 90 },
+    });
+  });
+});
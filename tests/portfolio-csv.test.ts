@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { parseHoldingsCsv } from '@/lib/portfolio/csv';
+import { MAX_PORTFOLIO_HOLDINGS } from '@/lib/schema';
+
+describe('parseHoldingsCsv', () => {
+  it('matches broker headers in any order and normalizes values', () => {
+    const csv = [
+      '\uFEFFTrade Date,Ticker,Quantity,Total_Cost',
+      '1/5/2023,aapl,10,"$1,500.25"',
+      '',
+      '2022-06-01,MSFT,2.5,USD 600\r',
+    ].join('\n');
+    expect(parseHoldingsCsv(csv)).toEqual({
+      success: true,
+      data: [
+        { symbol: 'AAPL', shares: 10, cost_basis: 1500.25, acquired_on: '2023-01-05' },
+        { symbol: 'MSFT', shares: 2.5, cost_basis: 600, acquired_on: '2022-06-01' },
+      ],
+    });
+  });
+
+  it('multiplies a per-share cost by the shares when there is no total', () => {
+    const result = parseHoldingsCsv('symbol,shares,purchase price,date\nAAPL,4,"12.5",2024-02-29');
+    expect(result).toEqual({
+      success: true,
+      data: [{ symbol: 'AAPL', shares: 4, cost_basis: 50, acquired_on: '2024-02-29' }],
+    });
+  });
+
+  it('unescapes doubled quotes inside quoted fields', () => {
+    const result = parseHoldingsCsv('symbol,shares,cost,date,note\nAAPL,1,1,2024-01-02,"say ""hi"", twice"');
+    expect(result.success).toBe(true);
+  });
+
+  it('names every missing column', () => {
+    expect(parseHoldingsCsv('ticker,price\nAAPL,1')).toEqual({
+      success: false,
+      issues: [
+        { path: 'line 1', message: 'No shares column; expected one of: shares, quantity, qty' },
+        {
+          path: 'line 1',
+          message: 'No acquired_on column; expected one of: acquired on, date, purchase date, trade date, acquired',
+        },
+        { path: 'line 1', message: 'No cost_basis column; expected one of: cost basis, cost, total cost' },
+      ],
+    });
+  });
+
+  it('fails the whole import on any bad row, keyed by line number', () => {
+    const csv = 'symbol,shares,cost,date\nAAPL,1,10,2024-01-02\n\nMSFT,-1,10,13/45/2024\nAAPL,2,,2024-02-30';
+    const result = parseHoldingsCsv(csv);
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues.map((issue) => issue.path)).toEqual([
+      'line 4: shares',
+      'line 4: acquired_on',
+      'line 5: cost_basis',
+      'line 5: acquired_on',
+    ]);
+  });
+
+  it('rejects amounts that are not plain numbers, naming the row and value', () => {
+    const csv = [
+      'symbol,shares,cost,purchase price,date',
+      'AAPL,10,"1.234,50",,2024-01-02',
+      'MSFT,(100),500,,2024-01-02',
+      'NVDA,3,,12x,2024-01-02',
+      'IBM,"1,5",10,,2024-01-02',
+      'KO,"1,000",GBP 250,,2024-01-02',
+    ].join('\n');
+    expect(parseHoldingsCsv(csv)).toEqual({
+      success: false,
+      issues: [
+        { path: 'line 2: cost_basis', message: 'Expected a plain number such as 1234.50 or 1,234.50, got "1.234,50"' },
+        { path: 'line 3: shares', message: 'Expected a plain number such as 1234.50 or 1,234.50, got "(100)"' },
+        { path: 'line 4: cost_per_share', message: 'Expected a plain number such as 1234.50 or 1,234.50, got "12x"' },
+        { path: 'line 5: shares', message: 'Expected a plain number such as 1234.50 or 1,234.50, got "1,5"' },
+      ],
+    });
+  });
+
+  it('rejects empty input and oversized imports', () => {
+    expect(parseHoldingsCsv(' \n\n')).toEqual({
+      success: false,
+      issues: [{ path: '(root)', message: 'The CSV is empty' }],
+    });
+    const rows = Array.from({ length: MAX_PORTFOLIO_HOLDINGS + 1 }, () => 'AAPL,1,1,2024-01-02');
+    const result = parseHoldingsCsv(['symbol,shares,cost,date', ...rows].join('\n'));
+    expect(result.success).toBe(false);
+  });
+});
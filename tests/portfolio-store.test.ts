@@ -0,0 +1,37 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createFilePortfolioStore, type Portfolio } from '@/lib/portfolio/store';
+
+const portfolio = (id: string, symbols: string[]): Portfolio => ({
+  id,
+  name: id,
+  currency: 'USD',
+  holdings: symbols.map((symbol) => ({ symbol, shares: 10, cost_basis: 100, acquired_on: '2024-01-02' })),
+  created_at: '2024-11-01T00:00:00.000Z',
+  updated_at: '2024-11-01T00:00:00.000Z',
+});
+
+describe('createFilePortfolioStore', () => {
+  let directory: string | undefined;
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('keeps every change when edits and imports run concurrently', async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'portfolios-'));
+    const store = createFilePortfolioStore(directory);
+    await store.save(portfolio('old', ['IBM']));
+
+    await Promise.all([
+      store.save(portfolio('growth', ['AAPL'])),
+      store.save(portfolio('income', ['JPM', 'KO'])),
+      store.delete('old'),
+      store.save(portfolio('growth', ['AAPL', 'MSFT'])),
+    ]);
+
+    expect(await store.list()).toEqual([portfolio('growth', ['AAPL', 'MSFT']), portfolio('income', ['JPM', 'KO'])]);
+  });
+});
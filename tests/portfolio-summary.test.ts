@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createPortfolio, getPortfolioSummary } from '@/lib/portfolio';
+import { getFinancialDataProvider } from '@/lib/providers';
+
+describe('getPortfolioSummary', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('reads latest closes through the price cache', async () => {
+    vi.stubEnv('FINANCIAL_DATA_PROVIDER', 'fixture');
+    const getPriceHistory = vi.spyOn(getFinancialDataProvider('fixture'), 'getPriceHistory');
+    const { id } = await createPortfolio({
+      name: 'Core',
+      currency: 'USD',
+      holdings: ['AAPL', 'MSFT', 'AAPL'].map((symbol) => ({
+        symbol,
+        shares: 10,
+        cost_basis: 1000,
+        acquired_on: '2024-01-02',
+      })),
+    });
+
+    const first = await getPortfolioSummary(id);
+    const second = await getPortfolioSummary(id);
+
+    expect(getPriceHistory).toHaveBeenCalledTimes(2);
+    expect(second.positions.map(({ symbol, price }) => [symbol, price])).toEqual(
+      first.positions.map(({ symbol, price }) => [symbol, price])
+    );
+    expect(first.positions.every((position) => position.price !== null)).toBe(true);
+  });
+});
@@ -0,0 +1,78 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { FinancialDataProvider } from '@/lib/providers';
+import { validateFinancialData } from '@/lib/schema';
+
+// Stands in for scripts/get_financial_statements.py, answering by symbol the
+// way the real script can: a payload, an error status, garbage, a crash or a hang.
+const STUB_SCRIPT = `
+import json, os, sys, time
+symbol = sys.argv[1]
+if symbol == 'SLOW':
+    time.sleep(30)
+elif symbol == 'CRASH':
+    sys.stderr.write('yfinance exploded\\n')
+    sys.exit(1)
+elif symbol == 'BAD':
+    print('Traceback (most recent call last):')
+elif symbol == 'ERR':
+    print(json.dumps({'status': 'error', 'error': 'No data found for ERR'}))
+else:
+    with open(os.environ['STUB_PAYLOAD']) as payload:
+        print(payload.read())
+`;
+
+describe('python provider', () => {
+  let directory: string;
+  let python: FinancialDataProvider;
+  const fetchData = async (symbol: string) => python.getFinancialData(symbol);
+
+  beforeAll(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'python-provider-'));
+    await mkdir(path.join(directory, 'scripts'));
+    await writeFile(path.join(directory, 'scripts', 'get_financial_statements.py'), STUB_SCRIPT, 'utf8');
+    vi.stubEnv('STUB_PAYLOAD', path.join(process.cwd(), 'fixtures', 'financial', 'ANOM.json'));
+    vi.stubEnv('PYTHON_TIMEOUT_MS', '2000');
+    vi.spyOn(process, 'cwd').mockReturnValue(directory);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    // The timeout is read when the module loads.
+    vi.resetModules();
+    ({ pythonProvider: python } = await import('@/lib/providers/python'));
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('parses the script’s stdout into a payload that passes validation', async () => {
+    const payload = await fetchData('anom');
+    const validation = validateFinancialData(payload);
+    expect(validation.success).toBe(true);
+    expect(payload).toEqual(JSON.parse(await readFile(process.env.STUB_PAYLOAD!, 'utf8')));
+  });
+
+  it('maps script failures onto typed errors', async () => {
+    await expect(fetchData('ERR')).rejects.toMatchObject({
+      code: 'upstream_failure',
+      details: 'No data found for ERR',
+    });
+    await expect(fetchData('CRASH')).rejects.toMatchObject({
+      code: 'upstream_failure',
+      details: expect.stringContaining('yfinance exploded'),
+    });
+    await expect(fetchData('BAD')).rejects.toMatchObject({ code: 'parse_failure' });
+  });
+
+  it('kills a script that outlives the timeout', async () => {
+    await expect(fetchData('SLOW')).rejects.toMatchObject({ code: 'timeout', timeoutMs: 2000 });
+  });
+
+  it('rejects symbols that are not tickers before spawning anything', async () => {
+    await expect(fetchData('AAPL; rm -rf /')).rejects.toMatchObject({ code: 'invalid_symbol' });
+    await expect(fetchData('--help')).rejects.toMatchObject({ code: 'invalid_symbol' });
+  });
+});
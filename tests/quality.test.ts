@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { checkDataQuality } from '@/lib/quality';
+import { loadFixture } from './fixtures';
+
+describe('checkDataQuality', () => {
+  it('flags every anomaly in the fixture’s quarterly statements where it occurs', async () => {
+    const anomalies = await loadFixture('ANOM');
+    const flags = anomalies.quality.quarterly.map(({ check, severity, statement, date, line_item }) => ({
+      check,
+      severity,
+      statement,
+      date,
+      line_item,
+    }));
+
+    expect(flags).toHaveLength(6);
+    expect(flags).toEqual(
+      expect.arrayContaining([
+        {
+          check: 'balance_sheet_identity',
+          severity: 'error',
+          statement: 'balance_sheet',
+          date: '2024-09-30',
+          line_item: 'Total Assets',
+        },
+        {
+          check: 'cash_flow_subtotal',
+          severity: 'error',
+          statement: 'cash_flow',
+          date: '2024-03-31',
+          line_item: 'Changes In Cash',
+        },
+        {
+          check: 'sign_flip',
+          severity: 'warning',
+          statement: 'cash_flow',
+          date: '2024-12-31',
+          line_item: 'Capital Expenditure',
+        },
+        {
+          check: 'outlier_jump',
+          severity: 'warning',
+          statement: 'income_statement',
+          date: '2024-12-31',
+          line_item: 'Total Revenue',
+        },
+        {
+          check: 'missing_core_item',
+          severity: 'warning',
+          statement: 'income_statement',
+          date: '2024-09-30',
+          line_item: 'Net Income',
+        },
+        {
+          check: 'unparsed_value',
+          severity: 'warning',
+          statement: 'income_statement',
+          date: '2024-09-30',
+          line_item: 'Net Income',
+        },
+      ])
+    );
+  });
+
+  it('explains each flag with the figures involved', async () => {
+    const anomalies = await loadFixture('ANOM');
+    const messages = Object.fromEntries(anomalies.quality.quarterly.map((flag) => [flag.check, flag.message]));
+
+    expect(messages.balance_sheet_identity).toBe(
+      'Total assets ($1,020) differ from liabilities plus equity ($920) by $100.'
+    );
+    expect(messages.sign_flip).toBe('Capital Expenditure is positive here but negative in 3 other periods.');
+    expect(messages.outlier_jump).toBe('Revenue moved from $120 on 2024-09-30 to $400, a 3.3× increase.');
+  });
+
+  it('reports the skipped quarter as a gap between periods rather than a flag', async () => {
+    const anomalies = await loadFixture('ANOM');
+    expect(anomalies.periods.quarterly.map(({ label, missing_before }) => [label, missing_before])).toEqual([
+      ['FQ4 2024', []],
+      ['FQ3 2024', ['FQ2 2024']],
+      ['FQ1 2024', []],
+      ['FQ4 2023', []],
+    ]);
+  });
+
+  it('leaves consistent statements unflagged', async () => {
+    const anomalies = await loadFixture('ANOM');
+    expect(anomalies.quality.annual).toEqual([]);
+    expect(checkDataQuality(anomalies).annual).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { errorResponse, QueueFullError, ServiceUnavailableError } from '@/lib/errors';
+import { createWorkQueue } from '@/lib/queue';
+
+/** A task that runs until `finish` is called. */
+const deferred = () => {
+  let finish: () => void = () => undefined;
+  const done = new Promise<string>((resolve) => (finish = () => resolve('done')));
+  return { task: () => done, finish };
+};
+
+describe('createWorkQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs at most `concurrency` tasks and starts waiting ones in order', async () => {
+    const queue = createWorkQueue({ concurrency: 2, maxQueued: 5, queueTimeoutMs: 1000 });
+    const tasks = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    const runs = tasks.map((entry, index) =>
+      queue.run(() => {
+        started.push(index);
+        return entry.task();
+      })
+    );
+
+    await Promise.resolve();
+    expect(started).toEqual([0, 1]);
+    expect({ active: queue.active, queued: queue.queued }).toEqual({ active: 2, queued: 1 });
+
+    tasks[1].finish();
+    await runs[1];
+    await Promise.resolve();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[0].finish();
+    tasks[2].finish();
+    expect(await Promise.all(runs)).toEqual(['done', 'done', 'done']);
+    expect({ active: queue.active, queued: queue.queued }).toEqual({ active: 0, queued: 0 });
+  });
+
+  it('frees the slot of a task that throws', async () => {
+    const queue = createWorkQueue({ concurrency: 1, maxQueued: 1, queueTimeoutMs: 1000 });
+    await expect(queue.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(await queue.run(async () => 'next')).toBe('next');
+    expect(queue.active).toBe(0);
+  });
+
+  it('rejects with QueueFullError once the backlog is full, answered as 429 with Retry-After', async () => {
+    const queue = createWorkQueue({ concurrency: 1, maxQueued: 1, queueTimeoutMs: 2500 });
+    const running = deferred();
+    const first = queue.run(running.task);
+    const second = queue.run(async () => 'second');
+
+    const rejection = await queue.run(async () => 'third').catch((error: unknown) => error);
+    expect(rejection).toBeInstanceOf(QueueFullError);
+
+    const response = errorResponse(rejection, 'Test');
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('3');
+    expect(await response.json()).toMatchObject({ code: 'queue_full' });
+
+    running.finish();
+    expect(await Promise.all([first, second])).toEqual(['done', 'second']);
+  });
+
+  it('rejects a task that waited too long with ServiceUnavailableError, answered as 503 with Retry-After', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const queue = createWorkQueue({ concurrency: 1, maxQueued: 5, queueTimeoutMs: 1000 });
+    const running = deferred();
+    const first = queue.run(running.task);
+    const waiting = queue.run(async () => 'never').catch((error: unknown) => error);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    const rejection = await waiting;
+    expect(rejection).toBeInstanceOf(ServiceUnavailableError);
+    expect(queue.queued).toBe(0);
+
+    const response = errorResponse(rejection, 'Test');
+    expect(response.status).toBe(503);
+    expect(response.headers.get('Retry-After')).toBe('1');
+
+    running.finish();
+    await first;
+  });
+});
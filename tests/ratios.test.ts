@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { computeRatioSeries, computeRatios } from '@/lib/ratios';
+import type { FinancialStatements } from '@/lib/schema';
+import { loadFixture } from './fixtures';
+
+const FY2024 = '2024-09-30';
+
+const appleAnnual = async (): Promise<FinancialStatements> =>
+  structuredClone((await loadFixture('AAPL')).financial_statements.annual);
+
+describe('computeRatioSeries', () => {
+  it('computes each ratio from the period’s statements', async () => {
+    const ratios = computeRatioSeries(await appleAnnual(), 'annual')[FY2024];
+
+    expect(ratios.gross_margin).toBeCloseTo(180683 / 391035, 10);
+    expect(ratios.operating_margin).toBeCloseTo(123216 / 391035, 10);
+    expect(ratios.net_margin).toBeCloseTo(93736 / 391035, 10);
+    expect(ratios.return_on_equity).toBeCloseTo(93736 / 56950, 10);
+    expect(ratios.return_on_assets).toBeCloseTo(93736 / 364980, 10);
+    expect(ratios.return_on_invested_capital).toBeCloseTo((123216 * (1 - 29749 / 123485)) / (106629 + 56950), 10);
+    expect(ratios.current_ratio).toBeCloseTo(152987 / 176392, 10);
+    expect(ratios.quick_ratio).toBeCloseTo((152987 - 7286) / 176392, 10);
+    expect(ratios.debt_to_equity).toBeCloseTo(106629 / 56950, 10);
+    expect(ratios.free_cash_flow).toBe(108807000000);
+    expect(ratios.fcf_margin).toBeCloseTo(108807 / 391035, 10);
+    expect(ratios.days_sales_outstanding).toBeCloseTo((33410 / 391035) * 365, 10);
+    expect(ratios.days_inventory_outstanding).toBeCloseTo((7286 / 210352) * 365, 10);
+    expect(ratios.days_payables_outstanding).toBeCloseTo((68960 / 210352) * 365, 10);
+    expect(ratios.cash_conversion_cycle).toBeCloseTo((33410 / 391035 + (7286 - 68960) / 210352) * 365, 10);
+  });
+
+  it('annualises quarterly returns and uses quarter-length days', async () => {
+    const quarterly = (await loadFixture('AAPL')).financial_statements.quarterly;
+    const [latest] = Object.keys(quarterly.income_statement).sort().reverse();
+    const income = quarterly.income_statement[latest];
+    const balance = quarterly.balance_sheet[latest];
+    const ratios = computeRatioSeries(quarterly, 'quarterly')[latest];
+
+    expect(ratios.return_on_equity).toBeCloseTo((income['Net Income']! / balance['Stockholders Equity']!) * 4, 10);
+    expect(ratios.days_sales_outstanding).toBeCloseTo(
+      (balance['Accounts Receivable']! / income['Total Revenue']!) * (365 / 4),
+      10
+    );
+  });
+
+  it('returns null rather than dividing by zero', async () => {
+    const annual = await appleAnnual();
+    annual.balance_sheet[FY2024]['Stockholders Equity'] = 0;
+    annual.balance_sheet[FY2024]['Current Liabilities'] = 0;
+    annual.income_statement[FY2024]['Total Revenue'] = 0;
+
+    const ratios = computeRatioSeries(annual, 'annual')[FY2024];
+    expect(ratios).toMatchObject({
+      return_on_equity: null,
+      debt_to_equity: null,
+      current_ratio: null,
+      quick_ratio: null,
+      gross_margin: null,
+      net_margin: null,
+      fcf_margin: null,
+      days_sales_outstanding: null,
+    });
+    expect(ratios.return_on_assets).toBeCloseTo(93736 / 364980, 10);
+  });
+
+  it('returns null for ratios whose inputs are missing', async () => {
+    const annual = await appleAnnual();
+    delete annual.balance_sheet[FY2024]['Total Debt'];
+    annual.balance_sheet[FY2024]['Accounts Receivable'] = null;
+
+    const ratios = computeRatioSeries(annual, 'annual')[FY2024];
+    expect(ratios).toMatchObject({
+      // The fixture reports Interest Expense as null.
+      interest_coverage: null,
+      debt_to_equity: null,
+      return_on_invested_capital: null,
+      days_sales_outstanding: null,
+      cash_conversion_cycle: null,
+    });
+    expect(ratios.current_ratio).toBeCloseTo(152987 / 176392, 10);
+  });
+
+  it('derives subtotals the statements leave out', async () => {
+    const annual = await appleAnnual();
+    delete annual.income_statement[FY2024]['Gross Profit'];
+    delete annual.cash_flow[FY2024]['Free Cash Flow'];
+    delete annual.balance_sheet[FY2024].Inventory;
+
+    const ratios = computeRatioSeries(annual, 'annual')[FY2024];
+    expect(ratios.gross_margin).toBeCloseTo((391035 - 210352) / 391035, 10);
+    expect(ratios.free_cash_flow).toBe(118254000000 - 9447000000);
+    // No inventory: the quick ratio equals the current ratio and no days are held.
+    expect(ratios.quick_ratio).toBe(ratios.current_ratio);
+    expect(ratios.days_inventory_outstanding).toBeNull();
+    expect(ratios.cash_conversion_cycle).toBeCloseTo((33410 / 391035) * 365 - (68960 / 210352) * 365, 10);
+  });
+});
+
+describe('computeRatios', () => {
+  it('computes a series for every period of both periodicities', async () => {
+    const { financial_statements } = await loadFixture('AAPL');
+    const ratios = computeRatios(financial_statements);
+
+    expect(Object.keys(ratios.annual)).toEqual(['2021-09-30', '2022-09-30', '2023-09-30', '2024-09-30']);
+    expect(Object.keys(ratios.quarterly)).toHaveLength(6);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ScreenExpressionError } from '@/lib/errors';
+import { evaluateScreen, parseScreen, screenFields } from '@/lib/screener/expression';
+import { buildScreenerValues, formatScreenerValue, getScreenerField } from '@/lib/screener/fields';
+import { loadFixture } from './fixtures';
+
+const parseError = (expression: string) => {
+  try {
+    parseScreen(expression);
+  } catch (error) {
+    if (error instanceof ScreenExpressionError) return { message: error.message, position: error.position };
+    throw error;
+  }
+  throw new Error(`"${expression}" parsed`);
+};
+
+describe('parseScreen', () => {
+  it('binds NOT tighter than AND, and AND tighter than OR', () => {
+    expect(parseScreen('pe_ratio < 20 OR NOT beta > 1 AND sector = Technology')).toEqual({
+      type: 'or',
+      left: { type: 'compare', field: 'pe_ratio', operator: '<', value: 20 },
+      right: {
+        type: 'and',
+        left: { type: 'not', operand: { type: 'compare', field: 'beta', operator: '>', value: 1 } },
+        right: { type: 'compare', field: 'sector', operator: '=', value: 'Technology' },
+      },
+    });
+  });
+
+  it('honours parentheses and case-insensitive keywords and fields', () => {
+    const node = parseScreen('(PE_RATIO < 20 or beta > 1) and current_ratio >= 1');
+    expect(node.type).toBe('and');
+    expect(screenFields(node)).toEqual(['pe_ratio', 'beta', 'current_ratio']);
+  });
+
+  it('reads magnitude suffixes and exponents', () => {
+    expect(parseScreen('market_cap > 2.5T')).toMatchObject({ value: 2.5e12 });
+    expect(parseScreen('market_cap >= 100b')).toMatchObject({ value: 1e11 });
+    expect(parseScreen('gross_margin > 4e-1')).toMatchObject({ value: 0.4 });
+    expect(parseScreen('operating_margin > -0.05')).toMatchObject({ value: -0.05 });
+  });
+
+  it('runs bare text values up to the next keyword', () => {
+    expect(parseScreen('sector = Consumer Cyclical AND beta < 1')).toMatchObject({
+      left: { field: 'sector', value: 'Consumer Cyclical' },
+    });
+    expect(parseScreen("country != 'United States'")).toMatchObject({ operator: '!=', value: 'United States' });
+  });
+
+  it('reports where parsing failed', () => {
+    expect(parseError('')).toEqual({ message: 'Screen is empty', position: 0 });
+    expect(parseError('foo > 1')).toEqual({ message: 'Unknown field "foo"', position: 0 });
+    expect(parseError('pe_ratio > cheap')).toEqual({ message: 'Expected a number for pe_ratio', position: 11 });
+    expect(parseError('sector > Technology')).toEqual({
+      message: 'sector is text and only supports = and !=',
+      position: 7,
+    });
+    expect(parseError('(beta > 1')).toEqual({ message: 'Expected ")"', position: 9 });
+    expect(parseError('beta > 1 beta')).toEqual({ message: 'Unexpected "beta"', position: 9 });
+    expect(parseError('sector = "Tech')).toEqual({ message: 'Unterminated string', position: 9 });
+    expect(parseError('beta > 1 ; drop')).toEqual({ message: 'Unexpected character ";"', position: 9 });
+  });
+});
+
+describe('evaluateScreen', () => {
+  it('compares text case-insensitively and numbers exactly', () => {
+    const values = { sector: 'Technology', pe_ratio: 20 };
+    expect(evaluateScreen(parseScreen('sector = technology'), values)).toBe(true);
+    expect(evaluateScreen(parseScreen('pe_ratio = 20 AND pe_ratio <= 20'), values)).toBe(true);
+    expect(evaluateScreen(parseScreen('pe_ratio < 20 OR sector != Technology'), values)).toBe(false);
+  });
+
+  it('fails a comparison and its negation alike when the value is missing', () => {
+    const values = { pe_ratio: null };
+    expect(evaluateScreen(parseScreen('pe_ratio > 30'), values)).toBe(false);
+    expect(evaluateScreen(parseScreen('NOT pe_ratio > 30'), values)).toBe(false);
+    expect(evaluateScreen(parseScreen('NOT beta > 1'), {})).toBe(false);
+  });
+
+  it('compares metrics in the units the API reports them in, and formats them as displayed', async () => {
+    const apple = await loadFixture('AAPL');
+    const values = buildScreenerValues(apple, apple.ratios);
+    // Yahoo reports debt / equity as a percentage: 209.06 is 2.09x.
+    expect(values.debt_to_equity).toBe(209.06);
+    expect(evaluateScreen(parseScreen('debt_to_equity > 150 AND debt_to_equity < 250'), values)).toBe(true);
+    expect(formatScreenerValue(getScreenerField('debt_to_equity')!, values)).toBe('2.09x');
+  });
+
+  it('screens fixture companies on metrics, ratios and profile fields', async () => {
+    const [apple, microsoft] = await Promise.all([loadFixture('AAPL'), loadFixture('MSFT')]);
+    const screen = parseScreen('sector = Technology AND pe_ratio < 36 AND gross_margin > 0.5');
+    expect(evaluateScreen(screen, buildScreenerValues(apple, apple.ratios))).toBe(false);
+    expect(evaluateScreen(screen, buildScreenerValues(microsoft, microsoft.ratios))).toBe(true);
+  });
+});
@@ -0,0 +1,34 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createFileScreenerStore, type SavedScreen } from '@/lib/screener/store';
+
+const screen = (id: string): SavedScreen => ({
+  id,
+  name: id,
+  expression: 'gross_margin > 0.4',
+  created_at: '2024-11-01T00:00:00.000Z',
+});
+
+describe('createFileScreenerStore', () => {
+  let directory: string | undefined;
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('keeps every screen saved concurrently', async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'screener-'));
+    const store = createFileScreenerStore(directory);
+    await store.saveScreen(screen('old'));
+
+    await Promise.all([
+      store.saveScreen(screen('value')),
+      store.deleteScreen('old'),
+      store.saveScreen(screen('quality')),
+    ]);
+
+    expect((await store.listScreens()).map((saved) => saved.id)).toEqual(['value', 'quality']);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidSymbolError } from '@/lib/errors';
+import { isValidSymbol, normalizeSymbol } from '@/lib/symbols';
+
+describe('isValidSymbol', () => {
+  it('accepts tickers with class, exchange and currency suffixes and index carets', () => {
+    for (const symbol of ['AAPL', 'BRK.B', 'VOD.L', 'BTC-USD', '^GSPC', 'EURUSD=X', '7203.T', 'brk-b']) {
+      expect(isValidSymbol(symbol), symbol).toBe(true);
+    }
+  });
+
+  it('rejects shell metacharacters, spaces, overlong input and leading dashes', () => {
+    for (const symbol of [
+      'AAPL;rm -rf /',
+      '$(id)',
+      'AAPL`id`',
+      'AAPL|cat',
+      'AAPL&&ls',
+      '../etc/passwd',
+      'BRK B',
+      'A'.repeat(11),
+      'AAPL.' + 'L'.repeat(7),
+      'A.B.C.D',
+      '-AAPL',
+      '--help',
+      '',
+    ]) {
+      expect(isValidSymbol(symbol), symbol).toBe(false);
+    }
+  });
+});
+
+describe('normalizeSymbol', () => {
+  it('trims and uppercases a valid symbol', () => {
+    expect(normalizeSymbol('  brk.b ')).toBe('BRK.B');
+  });
+
+  it('throws InvalidSymbolError naming the raw input, which the API answers with 400', () => {
+    expect(() => normalizeSymbol('-n AAPL')).toThrow(InvalidSymbolError);
+    expect(() => normalizeSymbol('-n AAPL')).toThrow('"-n AAPL" is not a valid ticker symbol');
+    expect(new InvalidSymbolError('x').status).toBe(400);
+  });
+});
@@ -0,0 +1,36 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createFileWatchlistStore, type Watchlist } from '@/lib/watchlists/store';
+
+const watchlist = (id: string, symbols: string[]): Watchlist => ({
+  id,
+  name: id,
+  symbols,
+  created_at: '2024-11-01T00:00:00.000Z',
+  updated_at: '2024-11-01T00:00:00.000Z',
+});
+
+describe('createFileWatchlistStore', () => {
+  let directory: string | undefined;
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('keeps every change when saves and deletes run concurrently', async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'watchlists-'));
+    const store = createFileWatchlistStore(directory);
+    await store.save(watchlist('old', ['IBM']));
+
+    await Promise.all([
+      store.save(watchlist('tech', ['AAPL', 'MSFT'])),
+      store.save(watchlist('banks', ['JPM'])),
+      store.delete('old'),
+      store.save(watchlist('tech', ['AAPL', 'MSFT', 'NVDA'])),
+    ]);
+
+    expect(await store.list()).toEqual([watchlist('tech', ['AAPL', 'MSFT', 'NVDA']), watchlist('banks', ['JPM'])]);
+  });
+});